@@ -1,61 +1,482 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import ImageUploader from './components/ImageUploader';
 import LiveScanner from './components/LiveScanner';
 import AnalysisDashboard from './components/AnalysisDashboard';
 import TelemedicineModal from './components/TelemedicineModal';
-import { analyzeFootImage } from './services/geminiService';
-import { AnalysisResult } from './types';
-import { FootIcon, SparklesIcon, UploadIcon, CameraIcon } from './components/IconComponents';
+import HistoryPanel from './components/HistoryPanel';
+import ProgressComparison from './components/ProgressComparison';
+import ReportModal from './components/ReportModal';
+import OutboxPanel from './components/OutboxPanel';
+import ClinicianReviewModal from './components/ClinicianReviewModal';
+import { FootAnalysisProvider } from './services/analysisProvider';
+import { saveAnalysis, listAnalyses, deleteAnalysis } from './services/historyStore';
+import { saveOutboxEntry, listOutbox, deleteOutboxEntry } from './services/outboxStore';
+import { DatabaseBlockedError } from './services/database';
+import { createCaptureThumbnails, readCaptureDataUrls } from './services/imageUtils';
+import { downloadReport, PatientDetails } from './services/reportGenerator';
+import { downloadFhirBundle } from './services/fhirExport';
+import { assessImageQuality, describeQualityIssues, ImageQualityReport } from './services/imageQuality';
+import { pickMeasurements } from './services/footMeasurements';
+import { askFollowUp } from './services/followUpChat';
+import { analyzeFootprint } from './services/footprintAnalysis';
+import { LOCALES, Locale, interpolate } from './services/i18n';
+import { submitTelemedicineRequest } from './services/telemedicineService';
+import { NetworkError } from './services/serverApi';
+import { requestNotificationPermission, showNotification } from './services/pwa';
+import { applyClinicianReview, loadClinicianMode, saveClinicianMode } from './services/clinicianReview';
+import { useI18n } from './components/I18nProvider';
+import { AnalysisProgress, AnalysisRecord, AnalysisResult, BilateralAnalysis, BilateralCaptures, CaptureThumbnails, ChatMessage, ClinicianReview, FootImages, FootMeasurements, FootSide, FootView, OutboxEntry, ResultsReview, TelemedicineCase } from './types';
+import { FootIcon, SparklesIcon, UploadIcon, CameraIcon, WarningIcon, CheckCircleIcon, InformationCircleIcon } from './components/IconComponents';
 
 type InputMode = 'upload' | 'scan';
 
-const App: React.FC = () => {
+// How often queued analyses are retried while the device is online but the server is unreachable.
+const OUTBOX_RETRY_MS = 60 * 1000;
+
+// A captured view that failed the quality check.
+interface QualityWarning {
+  foot: FootSide;
+  view: FootView;
+  report: ImageQualityReport;
+}
+
+interface AppProps {
+  provider: FootAnalysisProvider;
+}
+
+const App: React.FC<AppProps> = ({ provider }) => {
+  const { locale, setLocale, t, formatDateTime } = useI18n();
   const [mode, setMode] = useState<InputMode>('upload');
-  const [imageFiles, setImageFiles] = useState<{
-    top: File | null;
-    side: File | null;
-    back: File | null;
-  }>({ top: null, side: null, back: null });
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [imageFiles, setImageFiles] = useState<BilateralCaptures>({
+    left: { top: null, side: null, back: null, footprint: null },
+    right: { top: null, side: null, back: null, footprint: null },
+  });
+  const [analysisResults, setAnalysisResults] = useState<BilateralAnalysis | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  // Partial results of the analysis in flight, per foot, as they stream in.
+  const [analysisProgress, setAnalysisProgress] = useState<Partial<Record<FootSide, AnalysisProgress>>>({});
   const [error, setError] = useState<string | null>(null);
   const [isTelemedicineModalOpen, setIsTelemedicineModalOpen] = useState<boolean>(false);
+  const [isReportModalOpen, setIsReportModalOpen] = useState<boolean>(false);
+  // Thumbnails and date of the analysis currently shown, used by the report.
+  const [resultThumbnails, setResultThumbnails] = useState<CaptureThumbnails>({});
+  const [resultDate, setResultDate] = useState<Date>(new Date());
+  // The photos behind the results on screen, while they are still available to re-analyse.
+  const [analyzedCaptures, setAnalyzedCaptures] = useState<BilateralCaptures | null>(null);
+  // Views that failed the quality check, with the photos they were checked on, and whether
+  // the user chose to analyse anyway.
+  const [qualityCheck, setQualityCheck] = useState<{ files: BilateralCaptures; warnings: QualityWarning[] } | null>(null);
+  const [showQualityGate, setShowQualityGate] = useState<boolean>(false);
+  const [history, setHistory] = useState<AnalysisRecord[]>([]);
+  const [activeRecordId, setActiveRecordId] = useState<string | null>(null);
+  const [selectedRecordIds, setSelectedRecordIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<{ before: AnalysisRecord; after: AnalysisRecord } | null>(null);
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+  // Set when another tab's older version keeps the local database from being upgraded.
+  const [isStorageBlocked, setIsStorageBlocked] = useState<boolean>(false);
+  // Analyses saved while the server could not be reached, oldest first.
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [sendingOutboxId, setSendingOutboxId] = useState<string | null>(null);
+  // Set when the last analysis was queued instead of run.
+  const [wasQueued, setWasQueued] = useState<boolean>(false);
+  // The latest queued analysis that finished, until the user opens or dismisses it.
+  const [readyRecord, setReadyRecord] = useState<AnalysisRecord | null>(null);
+  const isProcessingOutbox = useRef(false);
+  const [clinicianMode, setClinicianMode] = useState<boolean>(loadClinicianMode);
+  const [isReviewModalOpen, setIsReviewModalOpen] = useState<boolean>(false);
+  // Shows the AI draft of results that have a signed-off review.
+  const [showAiDraft, setShowAiDraft] = useState<boolean>(false);
+
+  const refreshHistory = useCallback(async () => {
+    try {
+      setHistory(await listAnalyses());
+      setIsStorageBlocked(false);
+    } catch (e) {
+      if (e instanceof DatabaseBlockedError) setIsStorageBlocked(true);
+      console.error("Could not load analysis history:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory]);
+
+  // The saved record of the results on screen, with its clinician review if any.
+  const activeRecord = history.find(record => record.id === activeRecordId);
+  const review = activeRecord?.review;
+  // A signed-off review replaces the AI draft everywhere the results are shown or shared.
+  const showsReview = !!review?.signOff && !showAiDraft;
+  const displayedResults = analysisResults && showsReview ? applyClinicianReview(analysisResults, review!) : analysisResults;
+  // The AI draft of a signed-off analysis is still a draft.
+  const displayedReview: ResultsReview = showsReview
+    ? { status: 'reviewed', signOff: review!.signOff }
+    : { status: review && !review.signOff ? 'inProgress' : 'draft' };
+
+  const refreshOutbox = useCallback(async () => {
+    try {
+      setOutbox(await listOutbox());
+    } catch (e) {
+      if (e instanceof DatabaseBlockedError) setIsStorageBlocked(true);
+      console.error("Could not load queued analyses:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshOutbox();
+  }, [refreshOutbox]);
 
-  const handleImagesChange = useCallback((files: { top: File | null; side: File | null; back: File | null; }) => {
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const checkQuality = async () => {
+      const warnings: QualityWarning[] = [];
+      for (const foot of Object.keys(imageFiles) as FootSide[]) {
+        for (const view of Object.keys(imageFiles[foot]) as FootView[]) {
+          const file = imageFiles[foot][view];
+          if (!file) continue;
+          try {
+            const report = await assessImageQuality(file);
+            if (!report.passed) {
+              warnings.push({ foot, view, report });
+            }
+          } catch (e) {
+            console.error("Quality check failed:", e);
+          }
+        }
+      }
+      if (!cancelled) setQualityCheck({ files: imageFiles, warnings });
+    };
+    checkQuality();
+    return () => { cancelled = true; };
+  }, [imageFiles]);
+
+  const handleImagesChange = useCallback((files: BilateralCaptures) => {
     setImageFiles(files);
-    setAnalysisResult(null);
+    setAnalysisResults(null);
+    setAnalyzedCaptures(null);
+    setActiveRecordId(null);
+    setShowQualityGate(false);
+    setWasQueued(false);
     setError(null);
   }, []);
 
-  const handleAnalyzeClick = async () => {
-    const imagesToAnalyze = Object.fromEntries(
-      Object.entries(imageFiles).filter(([_, value]) => value !== null)
+  const createRecord = (results: BilateralAnalysis, thumbnails: CaptureThumbnails, analysisDate: Date): AnalysisRecord => ({
+    id: crypto.randomUUID(),
+    createdAt: analysisDate.toISOString(),
+    results,
+    thumbnails,
+    provider: provider.label,
+    promptVersion: provider.promptVersion,
+  });
+
+  // Persists a completed analysis; failing to save never hides the result itself.
+  const recordAnalysis = async (results: BilateralAnalysis, captures: BilateralCaptures, analysisDate: Date) => {
+    try {
+      const thumbnails = await createCaptureThumbnails(captures);
+      setResultThumbnails(thumbnails);
+      const record = createRecord(results, thumbnails, analysisDate);
+      await saveAnalysis(record);
+      setActiveRecordId(record.id);
+      await refreshHistory();
+    } catch (e) {
+      console.error("Could not save analysis to history:", e);
+    }
+  };
+
+  const handleOpenRecord = (record: AnalysisRecord) => {
+    setAnalysisResults(record.results);
+    setShowAiDraft(false);
+    setResultThumbnails(record.thumbnails);
+    setResultDate(new Date(record.createdAt));
+    setAnalyzedCaptures(null);
+    setActiveRecordId(record.id);
+    setError(null);
+  };
+
+  // Applies an edit to one foot's result, both on screen and in the stored record.
+  const handleUpdateResult = async (foot: FootSide, changes: Partial<AnalysisResult>) => {
+    const current = analysisResults?.[foot];
+    if (!current) return;
+    const results: BilateralAnalysis = { ...analysisResults, [foot]: { ...current, ...changes } };
+    setAnalysisResults(results);
+
+    if (!activeRecord) return;
+    try {
+      await saveAnalysis({ ...activeRecord, results });
+      await refreshHistory();
+    } catch (e) {
+      console.error("Could not update the saved analysis:", e);
+    }
+  };
+
+  const handleToggleClinicianMode = (enabled: boolean) => {
+    saveClinicianMode(enabled);
+    setClinicianMode(enabled);
+  };
+
+  // Stores the review with the record; the AI results themselves are left as they were.
+  const handleSaveReview = async (review: ClinicianReview) => {
+    if (!activeRecord) throw new Error(t.app.noAnalysisToReview);
+    await saveAnalysis({ ...activeRecord, review });
+    await refreshHistory();
+    setShowAiDraft(false);
+    setIsReviewModalOpen(false);
+  };
+
+  const handleDeleteRecord = async (id: string) => {
+    try {
+      await deleteAnalysis(id);
+      if (id === activeRecordId) setActiveRecordId(null);
+      setSelectedRecordIds(prev => prev.filter(selectedId => selectedId !== id));
+      if (comparison && (comparison.before.id === id || comparison.after.id === id)) setComparison(null);
+      await refreshHistory();
+    } catch (e) {
+      console.error("Could not delete analysis:", e);
+    }
+  };
+
+  const handleAnalyzeClick = () => {
+    if (isCheckingQuality) return;
+    // Give the user a chance to retake flagged photos before spending a model call.
+    if (qualityWarnings.length > 0 && !showQualityGate) {
+      setShowQualityGate(true);
+      return;
+    }
+    setShowQualityGate(false);
+    // An offline analysis is queued; ask now, while there is a click, to announce its results.
+    if (!navigator.onLine) requestNotificationPermission();
+    runAnalysis(imageFiles);
+  };
+
+  // Analyses the same photos again, giving the model the landmark measurements taken on them.
+  const handleReanalyze = () => {
+    if (!analyzedCaptures || !analysisResults) return;
+    const measurements: Partial<Record<FootSide, FootMeasurements>> = {};
+    (Object.keys(analysisResults) as FootSide[]).forEach(foot => {
+      measurements[foot] = pickMeasurements(analysisResults[foot]!);
+    });
+    runAnalysis(analyzedCaptures, measurements);
+  };
+
+  // Footprint indices are computed in the browser; a print that cannot be measured is still sent as a photo.
+  const withFootprintIndices = async (images: FootImages, measurements: FootMeasurements = {}): Promise<FootMeasurements> => {
+    if (!images.footprint || measurements.footprintIndices) return measurements;
+    try {
+      return { ...measurements, footprintIndices: await analyzeFootprint(images.footprint) };
+    } catch (e) {
+      console.warn("Footprint could not be measured:", e);
+      return measurements;
+    }
+  };
+
+  // The feet with at least one captured view; each is analysed on its own.
+  const feetToAnalyze = (captures: BilateralCaptures) => (Object.keys(captures) as FootSide[])
+    .map(foot => ({
+      foot,
+      images: Object.fromEntries(
+        Object.entries(captures[foot]).filter(([_, value]) => value !== null)
+      ) as FootImages,
+    }))
+    .filter(({ images }) => Object.keys(images).length > 0);
+
+  const analyzeCaptures = async (
+    captures: BilateralCaptures,
+    measurements: Partial<Record<FootSide, FootMeasurements>>,
+    language: string,
+    onProgress?: (foot: FootSide, progress: AnalysisProgress) => void,
+  ): Promise<BilateralAnalysis> => {
+    const feet = feetToAnalyze(captures);
+    const footMeasurements = await Promise.all(
+      feet.map(({ foot, images }) => withFootprintIndices(images, measurements[foot]))
+    );
+    const results = await Promise.all(
+      feet.map(({ foot, images }, i) => provider.analyze(images, foot, {
+        measurements: footMeasurements[i],
+        onProgress: onProgress && ((progress) => onProgress(foot, progress)),
+        language,
+      }))
     );
+    // Measurements stay attached to the new results so they are not lost on re-analysis.
+    return Object.fromEntries(
+      results.map((result, i) => [result.foot, { ...result, ...footMeasurements[i] }])
+    );
+  };
 
-    if (Object.keys(imagesToAnalyze).length === 0) return;
+  // Keeps photos that could not be sent, to be analysed once the server can be reached.
+  const queueAnalysis = async (captures: BilateralCaptures, measurements: Partial<Record<FootSide, FootMeasurements>>): Promise<boolean> => {
+    try {
+      await saveOutboxEntry({ id: crypto.randomUUID(), createdAt: new Date().toISOString(), captures, measurements, language: locale });
+      await refreshOutbox();
+      return true;
+    } catch (e) {
+      console.error("Could not queue the analysis:", e);
+      return false;
+    }
+  };
+
+  const runAnalysis = async (captures: BilateralCaptures, measurements: Partial<Record<FootSide, FootMeasurements>> = {}) => {
+    if (feetToAnalyze(captures).length === 0) return;
 
     setIsLoading(true);
     setError(null);
-    setAnalysisResult(null);
+    setWasQueued(false);
+    setAnalysisProgress({});
+    setAnalysisResults(null);
+    setActiveRecordId(null);
+    setResultThumbnails({});
+    setShowAiDraft(false);
 
     try {
-      const result = await analyzeFootImage(imagesToAnalyze);
-      setAnalysisResult(result);
+      const bilateralResults = await analyzeCaptures(captures, measurements, locale, (foot, progress) =>
+        setAnalysisProgress(current => ({ ...current, [foot]: progress }))
+      );
+      const analysisDate = new Date();
+      setAnalysisResults(bilateralResults);
+      setResultDate(analysisDate);
+      setAnalyzedCaptures(captures);
+      recordAnalysis(bilateralResults, captures, analysisDate);
     } catch (e) {
-      if (e instanceof Error) {
+      if (e instanceof NetworkError && await queueAnalysis(captures, measurements)) {
+        setWasQueued(true);
+      } else if (e instanceof Error) {
         setError(e.message);
       } else {
-        setError("An unknown error occurred.");
+        setError(t.app.unknownError);
       }
     } finally {
       setIsLoading(false);
     }
   };
-  
+
+  // Analyses queued photos one at a time, oldest first, and stores the results in the
+  // history. Stops at the first network failure, as the server is still unreachable;
+  // other failures are kept with their error until the user retries or removes them.
+  const processOutbox = async () => {
+    if (isProcessingOutbox.current) return;
+    isProcessingOutbox.current = true;
+    try {
+      for (const entry of await listOutbox()) {
+        if (entry.lastError) continue;
+        setSendingOutboxId(entry.id);
+        try {
+          const results = await analyzeCaptures(entry.captures, entry.measurements, entry.language);
+          // Dated when the photos were taken, so progress comparisons line up.
+          const record = createRecord(results, await createCaptureThumbnails(entry.captures), new Date(entry.createdAt));
+          await saveAnalysis(record);
+          await deleteOutboxEntry(entry.id);
+          setReadyRecord(record);
+          showNotification(t.outbox.readyTitle, interpolate(t.outbox.ready, { date: formatDateTime(new Date(entry.createdAt)) }));
+        } catch (e) {
+          if (e instanceof NetworkError) break;
+          console.error("A queued analysis failed:", e);
+          await saveOutboxEntry({ ...entry, lastError: e instanceof Error ? e.message : t.app.unknownError });
+        }
+      }
+    } catch (e) {
+      console.error("Could not process queued analyses:", e);
+    } finally {
+      isProcessingOutbox.current = false;
+      setSendingOutboxId(null);
+      await refreshOutbox();
+      await refreshHistory();
+    }
+  };
+
+  const hasWaitingEntries = outbox.some(entry => !entry.lastError);
+
+  // Sends queued analyses when the connection returns, and keeps retrying while the
+  // device is online but the server cannot be reached yet.
+  useEffect(() => {
+    if (!isOnline || !hasWaitingEntries) return;
+    processOutbox();
+    const timer = window.setInterval(processOutbox, OUTBOX_RETRY_MS);
+    return () => window.clearInterval(timer);
+  }, [isOnline, hasWaitingEntries]);
+
+  const handleRetryOutboxEntry = async (entry: OutboxEntry) => {
+    try {
+      await saveOutboxEntry({ ...entry, lastError: undefined });
+      await refreshOutbox();
+      processOutbox();
+    } catch (e) {
+      console.error("Could not retry the queued analysis:", e);
+    }
+  };
+
+  const handleRemoveOutboxEntry = async (entry: OutboxEntry) => {
+    try {
+      await deleteOutboxEntry(entry.id);
+      await refreshOutbox();
+    } catch (e) {
+      console.error("Could not remove the queued analysis:", e);
+    }
+  };
+
+  const handleOpenReadyRecord = () => {
+    if (readyRecord) handleOpenRecord(readyRecord);
+    setReadyRecord(null);
+  };
+
+  const handleToggleRecordSelection = (id: string) => {
+    setSelectedRecordIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+  };
+
+  const handleCompareRecords = () => {
+    const [before, after] = history
+      .filter(record => selectedRecordIds.includes(record.id))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    if (before && after) setComparison({ before, after });
+  };
+
+  // Follow-up questions are grounded in the result and photos currently on screen.
+  const handleAskFollowUp = (foot: FootSide, messages: ChatMessage[]): Promise<ChatMessage> => {
+    const result = displayedResults?.[foot];
+    if (!result) return Promise.reject(new Error(t.app.noAnalysisToAsk));
+    return askFollowUp(provider, { result, thumbnails: resultThumbnails[foot] ?? {}, language: locale }, messages, t.chat.guardrails);
+  };
+
   const openTelemedicineModal = () => setIsTelemedicineModalOpen(true);
   const closeTelemedicineModal = () => setIsTelemedicineModalOpen(false);
 
-  const atLeastOneImageProvided = Object.values(imageFiles).some(f => f !== null);
+  // Sends the original captures when they are still in memory; results reopened from
+  // history only have their thumbnails.
+  const handleTelemedicineSubmit = async ({ name, email }: { name: string; email: string }): Promise<TelemedicineCase> => {
+    if (!displayedResults) throw new Error(t.app.noAnalysisToSend);
+    const images = analyzedCaptures ? await readCaptureDataUrls(analyzedCaptures) : resultThumbnails;
+    return submitTelemedicineRequest({ name, email, language: locale, results: displayedResults, review: displayedReview, images });
+  };
+
+  const handleGenerateReport = (patient: PatientDetails) => {
+    if (!displayedResults) return;
+    downloadReport({ patient, results: displayedResults, review: showsReview ? review : undefined, thumbnails: resultThumbnails, analysisDate: resultDate, locale, messages: t });
+    setIsReportModalOpen(false);
+  };
+
+  const handleExportFhir = () => {
+    if (!displayedResults) return;
+    try {
+      downloadFhirBundle({ results: displayedResults, review: showsReview ? review : undefined, thumbnails: resultThumbnails, analysisDate: resultDate });
+    } catch (e) {
+      console.error("FHIR export failed:", e);
+      window.alert(e instanceof Error ? e.message : t.app.fhirExportFailed);
+    }
+  };
+
+  const attachedPhotoCount = Object.values(resultThumbnails).reduce<number>((count, views) => count + Object.keys(views ?? {}).length, 0);
+  const atLeastOneImageProvided = Object.values(imageFiles).some(views => Object.values(views).some(f => f !== null));
+  // Warnings from an earlier set of photos no longer apply; Analyze waits for the new check.
+  const isCheckingQuality = qualityCheck?.files !== imageFiles;
+  const qualityWarnings = isCheckingQuality ? [] : qualityCheck!.warnings;
 
   const ModeButton: React.FC<{
     active: boolean;
@@ -86,10 +507,70 @@ const App: React.FC = () => {
              <h1 className="text-3xl sm:text-4xl font-bold tracking-tight text-slate-800 dark:text-white">SmartStep AI</h1>
           </div>
           <p className="mt-2 text-lg text-slate-600 dark:text-slate-400">
-            Get AI-powered insights into your foot health.
+            {t.app.tagline}
           </p>
+          <label className="mt-3 inline-flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+            {t.app.language}
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as Locale)}
+              className="px-2 py-1 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-md text-sm focus:outline-none focus:ring-sky-500 focus:border-sky-500"
+            >
+              {(Object.keys(LOCALES) as Locale[]).map(code => (
+                <option key={code} value={code} lang={code}>{LOCALES[code]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="mt-3 ml-4 inline-flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+            <input
+              type="checkbox"
+              checked={clinicianMode}
+              onChange={(e) => handleToggleClinicianMode(e.target.checked)}
+              className="w-4 h-4 accent-sky-600"
+            />
+            {t.review.clinicianMode}
+          </label>
+          {!isOnline && (
+            <div className="mt-3">
+              <p className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-amber-100 dark:bg-amber-900/30 text-sm text-amber-800 dark:text-amber-300" role="status">
+                <WarningIcon className="w-4 h-4" />
+                {t.app.offline}
+              </p>
+            </div>
+          )}
+          {isStorageBlocked && (
+            <div className="mt-3">
+              <p className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-red-100 dark:bg-red-900/30 text-sm text-red-800 dark:text-red-300" role="alert">
+                <WarningIcon className="w-4 h-4" />
+                {t.app.storageBlocked}
+              </p>
+            </div>
+          )}
         </header>
 
+        {readyRecord && (
+          <div className="mb-8 flex flex-wrap items-center justify-between gap-3 p-4 rounded-xl bg-green-50 dark:bg-green-900/20 border border-green-300 dark:border-green-700" role="status">
+            <p className="flex items-center gap-2 text-sm font-medium text-green-800 dark:text-green-300">
+              <CheckCircleIcon className="w-5 h-5 flex-shrink-0" />
+              {interpolate(t.outbox.ready, { date: formatDateTime(new Date(readyRecord.createdAt)) })}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleOpenReadyRecord}
+                className="px-3 py-1.5 text-sm font-semibold rounded-md bg-green-600 text-white hover:bg-green-700 transition-colors"
+              >
+                {t.outbox.view}
+              </button>
+              <button
+                onClick={() => setReadyRecord(null)}
+                className="px-3 py-1.5 text-sm font-medium rounded-md text-green-800 dark:text-green-300 hover:bg-green-100 dark:hover:bg-green-900/40 transition-colors"
+              >
+                {t.outbox.dismiss}
+              </button>
+            </div>
+          </div>
+        )}
+
         <main className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           <div className="flex flex-col gap-0">
             <div className="flex">
@@ -97,63 +578,154 @@ const App: React.FC = () => {
                     active={mode === 'upload'}
                     onClick={() => setMode('upload')}
                     Icon={UploadIcon}
-                    label="Upload Photos"
+                    label={t.app.uploadMode}
                 />
                 <ModeButton 
                     active={mode === 'scan'}
                     onClick={() => setMode('scan')}
                     Icon={CameraIcon}
-                    label="Live Scan"
+                    label={t.app.scanMode}
                 />
             </div>
             
             <div className="flex-grow">
               {mode === 'upload' ? (
-                <ImageUploader onImagesChange={handleImagesChange} isAnalyzing={isLoading} />
+                <ImageUploader onImagesChange={handleImagesChange} isAnalyzing={isLoading} classifyView={provider.classifyView} />
               ) : (
                 <LiveScanner onImagesChange={handleImagesChange} isAnalyzing={isLoading} />
               )}
             </div>
 
+            {showQualityGate && qualityWarnings.length > 0 && (
+              <div className="mt-8 p-4 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700">
+                <h3 className="flex items-center gap-2 font-semibold text-amber-800 dark:text-amber-300">
+                  <WarningIcon className="w-5 h-5" />
+                  {t.app.qualityTitle}
+                </h3>
+                <ul className="mt-2 space-y-1 text-sm text-amber-700 dark:text-amber-400 list-disc list-inside">
+                  {qualityWarnings.map(({ foot, view, report }) => (
+                    <li key={`${foot}-${view}`}>
+                      {interpolate(t.app.qualityWarning, { foot: t.common.footShort[foot], view: t.common.views[view], warnings: describeQualityIssues(report, t.quality.issues).join(' ') })}
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-2 text-sm text-amber-700 dark:text-amber-400">
+                  {t.app.qualityHint}
+                </p>
+              </div>
+            )}
+
             <button
               onClick={handleAnalyzeClick}
-              disabled={!atLeastOneImageProvided || isLoading}
+              disabled={!atLeastOneImageProvided || isLoading || isCheckingQuality}
               className="flex items-center justify-center w-full px-6 py-4 mt-8 text-lg font-semibold text-white bg-sky-600 rounded-xl shadow-md hover:bg-sky-700 disabled:bg-slate-400 disabled:dark:bg-slate-600 disabled:cursor-not-allowed transition-all duration-300 focus:outline-none focus:ring-4 focus:ring-sky-300 dark:focus:ring-sky-800"
             >
               {isLoading ? (
                 <>
                   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-3"></div>
-                  Analyzing...
+                  {t.app.analyzing}
+                </>
+              ) : atLeastOneImageProvided && isCheckingQuality ? (
+                <>
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-3"></div>
+                  {t.app.checkingQuality}
                 </>
               ) : (
                 <>
                   <SparklesIcon className="w-6 h-6 mr-2" />
-                  Analyze Foot
+                  {showQualityGate && qualityWarnings.length > 0 ? t.app.analyzeAnyway : t.app.analyze}
                 </>
               )}
             </button>
+
+            {wasQueued && (
+              <div className="mt-4 flex items-start gap-2 p-3 rounded-lg bg-sky-50 dark:bg-sky-900/20 border border-sky-200 dark:border-sky-800 text-sm text-sky-800 dark:text-sky-300" role="status">
+                <InformationCircleIcon className="w-5 h-5 flex-shrink-0" />
+                {t.outbox.queued}
+              </div>
+            )}
+
+            <OutboxPanel
+              entries={outbox}
+              sendingId={sendingOutboxId}
+              onRetry={handleRetryOutboxEntry}
+              onRemove={handleRemoveOutboxEntry}
+            />
           </div>
           <div>
             <AnalysisDashboard 
-              result={analysisResult} 
+              results={displayedResults} 
+              thumbnails={resultThumbnails}
+              analysisDate={resultDate}
               isLoading={isLoading} 
+              progress={analysisProgress}
               error={error} 
               onOpenTelemedicine={openTelemedicineModal} 
+              onDownloadReport={() => setIsReportModalOpen(true)}
+              onExportFhir={handleExportFhir}
+              onUpdateResult={handleUpdateResult}
+              onReanalyze={analyzedCaptures ? handleReanalyze : undefined}
+              onAskFollowUp={handleAskFollowUp}
+              review={review}
+              showAiDraft={showAiDraft}
+              onToggleAiDraft={() => setShowAiDraft(current => !current)}
+              onOpenReview={clinicianMode && activeRecord ? () => setIsReviewModalOpen(true) : undefined}
             />
           </div>
         </main>
+
+        {comparison && (
+          <div className="mt-8">
+            <ProgressComparison
+              before={comparison.before}
+              after={comparison.after}
+              onClose={() => setComparison(null)}
+            />
+          </div>
+        )}
+
+        <div className="mt-8">
+          <HistoryPanel
+            records={history}
+            activeRecordId={activeRecordId}
+            onOpen={handleOpenRecord}
+            onDelete={handleDeleteRecord}
+            selectedIds={selectedRecordIds}
+            onToggleSelect={handleToggleRecordSelection}
+            onCompare={handleCompareRecords}
+          />
+        </div>
       </div>
       
       <footer className="mt-12 py-6 text-center border-t border-slate-200 dark:border-slate-800">
           <p className="text-sm text-slate-500 dark:text-slate-400">
-              Innovated by <span className="font-semibold text-sky-600 dark:text-sky-400">Vishnu P</span>
+              {t.app.innovatedBy} <span className="font-semibold text-sky-600 dark:text-sky-400">Vishnu P</span>
           </p>
       </footer>
 
       <TelemedicineModal
         isOpen={isTelemedicineModalOpen}
         onClose={closeTelemedicineModal}
-        analysisResult={analysisResult}
+        analysisResults={displayedResults}
+        review={displayedReview}
+        photoCount={attachedPhotoCount}
+        onSubmit={handleTelemedicineSubmit}
+      />
+
+      {activeRecord && (
+        <ClinicianReviewModal
+          isOpen={isReviewModalOpen}
+          onClose={() => setIsReviewModalOpen(false)}
+          results={activeRecord.results}
+          review={review}
+          onSave={handleSaveReview}
+        />
+      )}
+
+      <ReportModal
+        isOpen={isReportModalOpen}
+        onClose={() => setIsReportModalOpen(false)}
+        onGenerate={handleGenerateReport}
       />
     </div>
   );
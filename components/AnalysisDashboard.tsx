@@ -1,39 +1,87 @@
-import React from 'react';
-import { AnalysisResult } from '../types';
-import { CheckCircleIcon, WarningIcon, FootIcon, ClipboardIcon, VideoCameraIcon, InformationCircleIcon, ShoeIcon } from './IconComponents';
+import React, { useState, useEffect } from 'react';
+import { AnalysisProgress, AnalysisResult, AnalysisStage, BilateralAnalysis, CaptureThumbnails, ChatMessage, ClinicianReview, FootSide, FootView, HalluxValgusGrade, PotentialIssue, RearfootAlignment } from '../types';
+import { compareFeet } from '../services/bilateralComparison';
+import { hasMeasurements, isHalluxValgusIssue } from '../services/footMeasurements';
+import { describeConditionCodes } from '../services/footConditions';
+import { countPending, ReviewNote, reviewNotes } from '../services/clinicianReview';
+import { interpolate, plural } from '../services/i18n';
+import ArchMeasurementTool from './ArchMeasurementTool';
+import HalluxMeasurementTool from './HalluxMeasurementTool';
+import RearfootMeasurementTool from './RearfootMeasurementTool';
+import FootDimensionsTool from './FootDimensionsTool';
+import ShoeSizeCard from './ShoeSizeCard';
+import FollowUpChat from './FollowUpChat';
+import { useI18n } from './I18nProvider';
+import { CheckCircleIcon, WarningIcon, FootIcon, ClipboardIcon, VideoCameraIcon, InformationCircleIcon, ShoeIcon, DocumentDownloadIcon, SparklesIcon } from './IconComponents';
+
+type DashboardView = 'compare' | FootSide;
 
 interface AnalysisDashboardProps {
-  result: AnalysisResult | null;
+  results: BilateralAnalysis | null;
+  thumbnails: CaptureThumbnails;
+  // When the results were produced; a new date means a different analysis.
+  analysisDate: Date;
   isLoading: boolean;
+  // Partial results streamed so far while loading, per foot.
+  progress: Partial<Record<FootSide, AnalysisProgress>>;
   error: string | null;
   onOpenTelemedicine: () => void;
+  onDownloadReport: () => void;
+  onExportFhir: () => void;
+  onUpdateResult: (foot: FootSide, changes: Partial<AnalysisResult>) => void;
+  // Re-runs the analysis with the saved measurements; absent when the photos are no longer available.
+  onReanalyze?: () => void;
+  // Answers a follow-up question about one foot's result.
+  onAskFollowUp: (foot: FootSide, messages: ChatMessage[]) => Promise<ChatMessage>;
+  // The clinician review of the results, if one has been started.
+  review?: ClinicianReview;
+  // Whether the AI draft is shown although a signed-off review exists.
+  showAiDraft: boolean;
+  onToggleAiDraft: () => void;
+  // Opens the review; absent outside clinician mode or when the results are not saved.
+  onOpenReview?: () => void;
 }
 
-const LoadingState: React.FC = () => (
-    <div className="flex flex-col items-center justify-center h-full text-center p-6">
-        <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-sky-500 mb-4"></div>
-        <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300">Analyzing Image...</h3>
-        <p className="text-slate-500 dark:text-slate-400 mt-1">Our AI is examining your foot. This may take a moment.</p>
-    </div>
-);
+const ErrorState: React.FC<{ error: string }> = ({ error }) => {
+    const { t } = useI18n();
+    return (
+        <div className="flex flex-col items-center justify-center h-full text-center bg-red-50 dark:bg-red-900/20 rounded-2xl p-6">
+            <WarningIcon className="w-16 h-16 text-red-500 mb-4" />
+            <h3 className="text-lg font-semibold text-red-800 dark:text-red-300">{t.dashboard.errorTitle}</h3>
+            <p className="text-red-600 dark:text-red-400 mt-1 max-w-md">{error}</p>
+        </div>
+    );
+};
 
-const ErrorState: React.FC<{ error: string }> = ({ error }) => (
-    <div className="flex flex-col items-center justify-center h-full text-center bg-red-50 dark:bg-red-900/20 rounded-2xl p-6">
-        <WarningIcon className="w-16 h-16 text-red-500 mb-4" />
-        <h3 className="text-lg font-semibold text-red-800 dark:text-red-300">Analysis Failed</h3>
-        <p className="text-red-600 dark:text-red-400 mt-1 max-w-md">{error}</p>
-    </div>
-);
+const InitialState: React.FC = () => {
+    const { t } = useI18n();
+    return (
+        <div className="flex flex-col items-center justify-center h-full text-center p-6">
+            <FootIcon className="w-20 h-20 text-slate-300 dark:text-slate-600 mb-4" />
+            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300">{t.dashboard.awaitingTitle}</h3>
+            <p className="text-slate-500 dark:text-slate-400 mt-1">{t.dashboard.awaitingDetail}</p>
+        </div>
+    );
+};
 
-const InitialState: React.FC = () => (
-    <div className="flex flex-col items-center justify-center h-full text-center p-6">
-        <FootIcon className="w-20 h-20 text-slate-300 dark:text-slate-600 mb-4" />
-        <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300">Awaiting Analysis</h3>
-        <p className="text-slate-500 dark:text-slate-400 mt-1">Upload an image and click "Analyze" to see the results here.</p>
-    </div>
-);
+const FEET: FootSide[] = ['left', 'right'];
+
+const ARCH_TYPE_STYLES: Record<AnalysisResult['archType'], string> = {
+    'Normal': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+    'Flat': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+    'High': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+    'Unknown': 'bg-slate-100 text-slate-800 dark:bg-slate-700 dark:text-slate-300',
+};
+
+// The terminology codes of a coded finding; nothing for an 'other' finding.
+const ConditionCodes: React.FC<{ condition: PotentialIssue['condition'] }> = ({ condition }) => {
+    const codes = describeConditionCodes(condition);
+    if (!codes) return null;
+    return <p className="text-xs font-mono text-slate-400 dark:text-slate-500 mt-0.5">{codes}</p>;
+};
 
 const SeverityBadge: React.FC<{ severity: 'Mild' | 'Moderate' | 'Severe' | 'Unknown' }> = ({ severity }) => {
+    const { t } = useI18n();
     const severityStyles = {
         'Mild': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
         'Moderate': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
@@ -42,134 +90,724 @@ const SeverityBadge: React.FC<{ severity: 'Mild' | 'Moderate' | 'Severe' | 'Unkn
     };
     return (
         <span className={`px-2.5 py-0.5 text-xs font-medium rounded-full ${severityStyles[severity]}`}>
-            {severity}
+            {t.common.severities[severity]}
         </span>
     );
 };
 
-const ResultDisplay: React.FC<{ result: AnalysisResult; onOpenTelemedicine: () => void; }> = ({ result, onOpenTelemedicine }) => {
-    const archTypeColor = {
-        'Normal': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
-        'Flat': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
-        'High': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
-        'Unknown': 'bg-slate-100 text-slate-800 dark:bg-slate-700 dark:text-slate-300',
-    }[result.archType];
+// The stages of a streamed analysis, in the order the response is written.
+const STAGES: AnalysisStage[] = ['sending', 'archType', 'potentialIssues', 'summary', 'recommendations', 'validating'];
+
+const StreamingResult: React.FC<{ foot: FootSide; progress: AnalysisProgress }> = ({ foot, progress }) => {
+    const { t } = useI18n();
+    const current = STAGES.indexOf(progress.stage);
+    const { archType, potentialIssues, summary } = progress.partial;
 
     return (
-        <div className="flex flex-col h-full">
-            <div className="p-6 flex-grow overflow-y-auto">
-                <div className="flex justify-between items-center mb-6">
-                    <h2 className="text-xl font-bold text-slate-800 dark:text-white">Analysis Results</h2>
-                    <div className="flex items-center gap-2">
-                        <span className="text-sm font-medium text-slate-500 dark:text-slate-400">Confidence:</span>
-                        <div className="w-20 bg-slate-200 dark:bg-slate-700 rounded-full h-2">
-                            <div 
-                                className="bg-sky-500 h-2 rounded-full" 
-                                style={{ width: `${result.confidenceScore}%` }}
-                            ></div>
-                        </div>
-                        <span className="text-sm font-bold text-slate-700 dark:text-slate-200">{result.confidenceScore}%</span>
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-md font-bold text-slate-800 dark:text-white">{t.common.feet[foot]}</h3>
+                <span className="flex items-center gap-2 text-xs font-medium text-sky-600 dark:text-sky-400">
+                    <span className="animate-spin rounded-full h-3 w-3 border-b-2 border-sky-500"></span>
+                    {t.dashboard.stages[progress.stage]}…
+                </span>
+            </div>
+            <ol className="flex gap-1" aria-label={t.dashboard.progressLabel}>
+                {STAGES.map((stage, index) => (
+                    <li
+                        key={stage}
+                        title={t.dashboard.stages[stage]}
+                        aria-current={index === current ? 'step' : undefined}
+                        className={`h-1.5 flex-1 rounded-full ${
+                            index < current ? 'bg-sky-500' : index === current ? 'bg-sky-300 animate-pulse' : 'bg-slate-200 dark:bg-slate-700'
+                        }`}
+                    />
+                ))}
+            </ol>
+            {archType && (
+                <div>
+                    <p className="text-sm font-medium text-slate-500 dark:text-slate-400">{t.dashboard.archType}</p>
+                    <p className={`text-lg font-bold px-3 py-1 mt-1 rounded-full inline-block ${ARCH_TYPE_STYLES[archType]}`}>{t.common.archTypes[archType]}</p>
+                </div>
+            )}
+            {potentialIssues && potentialIssues.length > 0 && (
+                <ul className="space-y-2">
+                    {potentialIssues.map((issue, index) => (
+                        <li key={index} className="p-3 rounded-lg border bg-slate-50 dark:bg-slate-800/50 border-slate-200 dark:border-slate-700">
+                            <div className="flex justify-between items-center">
+                                <span className="font-semibold text-slate-700 dark:text-slate-200">{issue.issue}</span>
+                                <SeverityBadge severity={issue.severity} />
+                            </div>
+                            <ConditionCodes condition={issue.condition} />
+                            {issue.description && <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">{issue.description}</p>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {summary && (
+                <p className="text-slate-600 dark:text-slate-400 text-sm leading-relaxed bg-slate-100 dark:bg-slate-700/50 p-4 rounded-lg">
+                    {summary}
+                </p>
+            )}
+        </div>
+    );
+};
+
+const LoadingState: React.FC<{ progress: Partial<Record<FootSide, AnalysisProgress>> }> = ({ progress }) => {
+    const { t } = useI18n();
+    const feet = FEET.filter(foot => progress[foot]);
+
+    // Providers that do not stream leave only the spinner.
+    if (feet.length === 0) {
+        return (
+            <div className="flex flex-col items-center justify-center h-full text-center p-6">
+                <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-sky-500 mb-4"></div>
+                <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300">{t.dashboard.loadingTitle}</h3>
+                <p className="text-slate-500 dark:text-slate-400 mt-1">{t.dashboard.loadingDetail}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-6 flex-grow overflow-y-auto space-y-8">
+            <p className="text-sm text-slate-500 dark:text-slate-400">{t.dashboard.streamingHint}</p>
+            {feet.map(foot => <StreamingResult key={foot} foot={foot} progress={progress[foot]!} />)}
+        </div>
+    );
+};
+
+const MeasurementSection: React.FC<{
+    title: string;
+    actionLabel: string;
+    // What is measured and on which view, for the prompt text.
+    subject: string;
+    view: 'top' | 'side' | 'back';
+    hasImage: boolean;
+    summary: React.ReactNode | null;
+    renderTool: (close: () => void) => React.ReactNode;
+}> = ({ title, actionLabel, subject, view, hasImage, summary, renderTool }) => {
+    const { t } = useI18n();
+    const [isMeasuring, setIsMeasuring] = useState(false);
+
+    if (isMeasuring && hasImage) {
+        return <>{renderTool(() => setIsMeasuring(false))}</>;
+    }
+
+    return (
+        <div className="flex items-center justify-between gap-3">
+            {summary ? (
+                <div>
+                    <p className="text-sm font-medium text-slate-500 dark:text-slate-400">{title}</p>
+                    {summary}
+                </div>
+            ) : (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {interpolate(hasImage ? t.dashboard.measure.markLandmarks : t.dashboard.measure.captureView, { view: t.dashboard.measure.viewNames[view], subject })}
+                </p>
+            )}
+            {hasImage && (
+                <button
+                    onClick={() => setIsMeasuring(true)}
+                    className="flex-shrink-0 px-3 py-1.5 text-xs font-semibold text-sky-700 dark:text-sky-300 bg-sky-50 dark:bg-sky-900/30 rounded-md hover:bg-sky-100 dark:hover:bg-sky-900/50"
+                >
+                    {summary ? t.dashboard.measure.edit : actionLabel}
+                </button>
+            )}
+        </div>
+    );
+};
+
+const ALIGNMENT_STYLES: Record<RearfootAlignment, string> = {
+    'Neutral': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+    'Pronated': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+    'Supinated': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+};
+
+const GradeBadge: React.FC<{ grade: HalluxValgusGrade }> = ({ grade }) => {
+    const { t } = useI18n();
+    return grade === 'Normal' ? (
+        <span className="px-2.5 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
+            {t.common.grades.Normal}
+        </span>
+    ) : (
+        <SeverityBadge severity={grade} />
+    );
+};
+
+const ResultDisplay: React.FC<{
+    result: AnalysisResult;
+    thumbnails?: Partial<Record<FootView, string>>;
+    onUpdate: (changes: Partial<AnalysisResult>) => void;
+    // The clinician's notes, when the reviewed version is shown.
+    notes?: ReviewNote[];
+    // Rendered below the results, e.g. the follow-up chat.
+    children?: React.ReactNode;
+}> = ({ result, thumbnails, onUpdate, notes, children }) => {
+    const { t, formatNumber, formatPercent } = useI18n();
+    const archTypeColor = ARCH_TYPE_STYLES[result.archType];
+    const { archMeasurement, halluxMeasurement, rearfootMeasurement, footDimensions, footprintIndices } = result;
+    const reportsHalluxValgus = result.potentialIssues.some(isHalluxValgusIssue);
+    const degrees = (angle: number) => formatNumber(angle, { maximumFractionDigits: 1 });
+    const millimetres = (length: number) => formatNumber(length, { style: 'unit', unit: 'millimeter' });
+    const rearfootAngle = (angle: number) =>
+        angle === 0 ? '0°' : interpolate(angle > 0 ? t.dashboard.rearfoot.valgus : t.dashboard.rearfoot.varus, { angle: degrees(Math.abs(angle)) });
+
+    return (
+        <div className="p-6 flex-grow overflow-y-auto">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-xl font-bold text-slate-800 dark:text-white">{interpolate(t.dashboard.results, { foot: t.common.feet[result.foot] })}</h2>
+                <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-slate-500 dark:text-slate-400">{t.dashboard.confidence}</span>
+                    <div className="w-20 bg-slate-200 dark:bg-slate-700 rounded-full h-2">
+                        <div 
+                            className="bg-sky-500 h-2 rounded-full" 
+                            style={{ width: `${result.confidenceScore}%` }}
+                        ></div>
                     </div>
+                    <span className="text-sm font-bold text-slate-700 dark:text-slate-200">{formatPercent(result.confidenceScore / 100)}</span>
                 </div>
-                
-                <div className="space-y-6">
+            </div>
+            
+            <div className="space-y-6">
+                <div>
+                    <p className="text-sm font-medium text-slate-500 dark:text-slate-400">{t.dashboard.archType}</p>
+                    <p className={`text-lg font-bold px-3 py-1 mt-1 rounded-full inline-block ${archTypeColor}`}>{t.common.archTypes[result.archType]}</p>
+                </div>
+
+                <MeasurementSection
+                    key={`${result.foot}-arch`}
+                    title={t.dashboard.arch.title}
+                    actionLabel={t.dashboard.arch.action}
+                    subject={t.dashboard.arch.subject}
+                    view="side"
+                    hasImage={!!thumbnails?.side}
+                    summary={archMeasurement && (
+                        <p className="text-sm text-slate-700 dark:text-slate-200">
+                            <span className={`font-bold px-2 py-0.5 rounded-full ${ARCH_TYPE_STYLES[archMeasurement.archType]}`}>{t.common.archTypes[archMeasurement.archType]}</span>
+                            <span className="ml-2">
+                                {interpolate(t.dashboard.arch.summary, {
+                                    angle: degrees(archMeasurement.archAngle),
+                                    ratio: formatNumber(archMeasurement.navicularHeightRatio, { minimumFractionDigits: 3, maximumFractionDigits: 3 }),
+                                })}
+                            </span>
+                        </p>
+                    )}
+                    renderTool={(close) => (
+                        <ArchMeasurementTool
+                            sideViewSrc={thumbnails!.side!}
+                            measurement={archMeasurement}
+                            onSave={(measurement) => {
+                                onUpdate({ archMeasurement: measurement });
+                                close();
+                            }}
+                            onCancel={close}
+                        />
+                    )}
+                />
+
+                <MeasurementSection
+                    key={`${result.foot}-hallux`}
+                    title={t.dashboard.hallux.title}
+                    actionLabel={t.dashboard.hallux.action}
+                    subject={t.dashboard.hallux.subject}
+                    view="top"
+                    hasImage={!!thumbnails?.top}
+                    summary={halluxMeasurement && (
+                        <div className="text-sm text-slate-700 dark:text-slate-200">
+                            <GradeBadge grade={halluxMeasurement.grade} />
+                            <span className="ml-2">{interpolate(t.dashboard.hallux.summary, { hv: degrees(halluxMeasurement.halluxValgusAngle), im: degrees(halluxMeasurement.intermetatarsalAngle) })}</span>
+                            {!reportsHalluxValgus && halluxMeasurement.grade !== 'Normal' && (
+                                <p className="flex items-center gap-1 mt-1 text-xs text-amber-700 dark:text-amber-400">
+                                    <WarningIcon className="w-4 h-4" />
+                                    {t.dashboard.hallux.notReported}
+                                </p>
+                            )}
+                        </div>
+                    )}
+                    renderTool={(close) => (
+                        <HalluxMeasurementTool
+                            topViewSrc={thumbnails!.top!}
+                            measurement={halluxMeasurement}
+                            onSave={(measurement) => {
+                                onUpdate({ halluxMeasurement: measurement });
+                                close();
+                            }}
+                            onCancel={close}
+                        />
+                    )}
+                />
+
+                <MeasurementSection
+                    key={`${result.foot}-rearfoot`}
+                    title={t.dashboard.rearfoot.title}
+                    actionLabel={t.dashboard.rearfoot.action}
+                    subject={t.dashboard.rearfoot.subject}
+                    view="back"
+                    hasImage={!!thumbnails?.back}
+                    summary={rearfootMeasurement && (
+                        <p className="text-sm text-slate-700 dark:text-slate-200">
+                            <span className={`font-bold px-2 py-0.5 rounded-full ${ALIGNMENT_STYLES[rearfootMeasurement.alignment]}`}>{t.common.alignments[rearfootMeasurement.alignment]}</span>
+                            <span className="ml-2">{interpolate(t.dashboard.rearfoot.summary, { angle: rearfootAngle(rearfootMeasurement.rearfootAngle) })}</span>
+                        </p>
+                    )}
+                    renderTool={(close) => (
+                        <RearfootMeasurementTool
+                            backViewSrc={thumbnails!.back!}
+                            foot={result.foot}
+                            measurement={rearfootMeasurement}
+                            onSave={(measurement) => {
+                                onUpdate({ rearfootMeasurement: measurement });
+                                close();
+                            }}
+                            onCancel={close}
+                        />
+                    )}
+                />
+
+                <MeasurementSection
+                    key={`${result.foot}-dimensions`}
+                    title={t.dashboard.dimensions.title}
+                    actionLabel={t.dashboard.dimensions.action}
+                    subject={t.dashboard.dimensions.subject}
+                    view="top"
+                    hasImage={!!thumbnails?.top}
+                    summary={footDimensions && (
+                        <p className="text-sm text-slate-700 dark:text-slate-200">
+                            {t.dashboard.dimensions.length} <span className="font-bold">{millimetres(footDimensions.footLengthMm)}</span>
+                            {' · '}{t.dashboard.dimensions.forefoot} <span className="font-bold">{millimetres(footDimensions.forefootWidthMm)}</span>
+                            {' · '}{t.dashboard.dimensions.heel} <span className="font-bold">{millimetres(footDimensions.heelWidthMm)}</span>
+                        </p>
+                    )}
+                    renderTool={(close) => (
+                        <FootDimensionsTool
+                            topViewSrc={thumbnails!.top!}
+                            dimensions={footDimensions}
+                            onSave={(dimensions) => {
+                                onUpdate({ footDimensions: dimensions });
+                                close();
+                            }}
+                            onCancel={close}
+                        />
+                    )}
+                />
+
+                {(footprintIndices || thumbnails?.footprint) && (
                     <div>
-                        <p className="text-sm font-medium text-slate-500 dark:text-slate-400">Arch Type</p>
-                        <p className={`text-lg font-bold px-3 py-1 mt-1 rounded-full inline-block ${archTypeColor}`}>{result.archType}</p>
+                        <p className="text-sm font-medium text-slate-500 dark:text-slate-400">{t.dashboard.footprint.title}</p>
+                        {footprintIndices ? (
+                            <div className="mt-1 flex items-center gap-3 flex-wrap">
+                                <span className={`text-sm font-bold px-3 py-1 rounded-full ${ARCH_TYPE_STYLES[footprintIndices.archType]}`}>{t.common.archTypes[footprintIndices.archType]}</span>
+                                <span className="text-sm text-slate-700 dark:text-slate-200">
+                                    {t.dashboard.footprint.staheli} <span className="font-bold">{formatNumber(footprintIndices.staheliIndex, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                                    {' · '}{t.dashboard.footprint.chippauxSmirak} <span className="font-bold">{formatPercent(footprintIndices.chippauxSmirakIndex / 100)}</span>
+                                    {' · '}{t.dashboard.footprint.cavanagh} <span className="font-bold">{formatNumber(footprintIndices.cavanaghArchIndex, { minimumFractionDigits: 3, maximumFractionDigits: 3 })}</span>
+                                </span>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                                {t.dashboard.footprint.unmeasured}
+                            </p>
+                        )}
                     </div>
+                )}
 
-                    <hr className="border-slate-200 dark:border-slate-700" />
+                <hr className="border-slate-200 dark:border-slate-700" />
 
-                    <div>
-                        <h3 className="text-md font-semibold text-slate-700 dark:text-slate-300 mb-3 flex items-center">
-                            <InformationCircleIcon className="w-5 h-5 mr-2 text-sky-500" />
-                            Potential Issues
-                        </h3>
-                        {result.potentialIssues.length > 0 ? (
-                            <ul className="space-y-3">
-                                {result.potentialIssues.map((issue, index) => (
-                                    <li key={index} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700">
+                <div>
+                    <h3 className="text-md font-semibold text-slate-700 dark:text-slate-300 mb-3 flex items-center">
+                        <InformationCircleIcon className="w-5 h-5 mr-2 text-sky-500" />
+                        {t.dashboard.potentialIssues}
+                    </h3>
+                    {result.potentialIssues.length > 0 ? (
+                        <ul className="space-y-3">
+                            {result.potentialIssues.map((issue, index) => {
+                                const measuredGrade = halluxMeasurement && isHalluxValgusIssue(issue) ? halluxMeasurement.grade : null;
+                                const disagrees = measuredGrade !== null && measuredGrade !== issue.severity;
+                                return (
+                                    <li key={index} className={`p-3 rounded-lg border ${disagrees ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-300 dark:border-amber-700' : 'bg-slate-50 dark:bg-slate-800/50 border-slate-200 dark:border-slate-700'}`}>
                                         <div className="flex justify-between items-center">
                                             <span className="font-semibold text-slate-700 dark:text-slate-200">{issue.issue}</span>
-                                            <SeverityBadge severity={issue.severity} />
+                                            <span className="flex items-center gap-2">
+                                                {measuredGrade && (
+                                                    <span className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+                                                        {disagrees && <WarningIcon className="w-4 h-4 text-amber-500" />}
+                                                        {t.dashboard.measured} <GradeBadge grade={measuredGrade} />
+                                                        <span className="ml-1">{t.dashboard.ai}</span>
+                                                    </span>
+                                                )}
+                                                <SeverityBadge severity={issue.severity} />
+                                            </span>
                                         </div>
+                                        <ConditionCodes condition={issue.condition} />
                                         <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">{issue.description}</p>
                                     </li>
-                                ))}
-                            </ul>
-                        ) : (
-                            <div className="flex items-center">
-                               <CheckCircleIcon className="w-5 h-5 text-green-500 mr-3 flex-shrink-0" />
-                               <p className="text-slate-600 dark:text-slate-300">No major issues detected.</p>
-                            </div>
-                        )}
-                    </div>
-
-                    <div>
-                        <h3 className="text-md font-semibold text-slate-700 dark:text-slate-300 mb-2">AI Summary</h3>
-                        <p className="text-slate-600 dark:text-slate-400 text-sm leading-relaxed bg-slate-100 dark:bg-slate-700/50 p-4 rounded-lg">
-                            {result.summary}
-                        </p>
-                    </div>
-                    
-                    <div>
-                        <h3 className="text-md font-semibold text-slate-700 dark:text-slate-300 mb-3 flex items-center">
-                            <ShoeIcon className="w-5 h-5 mr-2" />
-                            Footwear Suggestions
-                        </h3>
-                         <ul className="space-y-2">
-                            {result.footwearSuggestions.map((rec, index) => (
-                                <li key={index} className="flex items-start">
-                                    <CheckCircleIcon className="w-5 h-5 text-green-500 mr-3 mt-0.5 flex-shrink-0" />
-                                    <span className="text-slate-700 dark:text-slate-300 text-sm">{rec}</span>
-                                </li>
-                            ))}
+                                );
+                            })}
                         </ul>
-                    </div>
+                    ) : (
+                        <div className="flex items-center">
+                           <CheckCircleIcon className="w-5 h-5 text-green-500 mr-3 flex-shrink-0" />
+                           <p className="text-slate-600 dark:text-slate-300">{t.dashboard.noIssues}</p>
+                        </div>
+                    )}
+                </div>
 
-                    <div className="bg-sky-50 dark:bg-sky-900/30 p-4 rounded-lg border border-sky-200 dark:border-sky-800">
-                        <h3 className="text-md font-semibold text-sky-800 dark:text-sky-200 mb-3 flex items-center">
-                            <ClipboardIcon className="w-5 h-5 mr-2" />
-                            AI Clinical Insights
-                        </h3>
-                         <ul className="space-y-2">
-                            {result.clinicalRecommendations.map((rec, index) => (
-                                <li key={index} className="flex items-start">
-                                    <CheckCircleIcon className="w-5 h-5 text-sky-500 mr-3 mt-0.5 flex-shrink-0" />
-                                    <span className="text-slate-700 dark:text-slate-300 text-sm">{rec}</span>
-                                </li>
-                            ))}
-                        </ul>
-                    </div>
+                <div>
+                    <h3 className="text-md font-semibold text-slate-700 dark:text-slate-300 mb-2">{t.dashboard.aiSummary}</h3>
+                    <p className="text-slate-600 dark:text-slate-400 text-sm leading-relaxed bg-slate-100 dark:bg-slate-700/50 p-4 rounded-lg">
+                        {result.summary}
+                    </p>
                 </div>
+                
+                <div>
+                    <h3 className="text-md font-semibold text-slate-700 dark:text-slate-300 mb-3 flex items-center">
+                        <ShoeIcon className="w-5 h-5 mr-2" />
+                        {t.dashboard.footwear}
+                    </h3>
+                     <ul className="space-y-2">
+                        {result.footwearSuggestions.map((rec, index) => (
+                            <li key={index} className="flex items-start">
+                                <CheckCircleIcon className="w-5 h-5 text-green-500 mr-3 mt-0.5 flex-shrink-0" />
+                                <span className="text-slate-700 dark:text-slate-300 text-sm">{rec}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+
+                <ShoeSizeCard key={result.foot} result={result} onSaveManualSize={(manualFootSize) => onUpdate({ manualFootSize })} />
+
+                {notes && notes.length > 0 && <ClinicianNotes notes={notes} />}
+
+                <div className="bg-sky-50 dark:bg-sky-900/30 p-4 rounded-lg border border-sky-200 dark:border-sky-800">
+                    <h3 className="text-md font-semibold text-sky-800 dark:text-sky-200 mb-3 flex items-center">
+                        <ClipboardIcon className="w-5 h-5 mr-2" />
+                        {t.dashboard.insights}
+                    </h3>
+                     <ul className="space-y-2">
+                        {result.clinicalRecommendations.map((rec, index) => (
+                            <li key={index} className="flex items-start">
+                                <CheckCircleIcon className="w-5 h-5 text-sky-500 mr-3 mt-0.5 flex-shrink-0" />
+                                <span className="text-slate-700 dark:text-slate-300 text-sm">{rec}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+
+                {children}
             </div>
-            
-            <div className="p-6 border-t border-slate-200 dark:border-slate-700">
-                <p className="text-xs text-slate-400 dark:text-slate-500 text-center mb-4">
-                    Disclaimer: This AI analysis is not a substitute for professional medical advice.
+        </div>
+    );
+};
+
+const ClinicianNotes: React.FC<{ notes: ReviewNote[] }> = ({ notes }) => {
+    const { t } = useI18n();
+    return (
+        <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded-lg border border-green-200 dark:border-green-800">
+            <h3 className="text-md font-semibold text-green-800 dark:text-green-200 mb-3 flex items-center">
+                <ClipboardIcon className="w-5 h-5 mr-2" />
+                {t.review.notes}
+            </h3>
+            <ul className="space-y-2">
+                {notes.map((note, index) => (
+                    <li key={index} className="text-sm text-slate-700 dark:text-slate-300">
+                        <span className="font-semibold">{t.review.noteSubjects[note.subject]}{note.finding ? ` (${note.finding})` : ''}:</span> {note.note}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+// Whether the results on screen are the AI draft or the clinician-reviewed version.
+const ReviewStatusBanner: React.FC<{
+    review?: ClinicianReview;
+    showAiDraft: boolean;
+    onToggleAiDraft: () => void;
+    onOpenReview?: () => void;
+}> = ({ review, showAiDraft, onToggleAiDraft, onOpenReview }) => {
+    const { t, locale, formatDateTime } = useI18n();
+    const signOff = review?.signOff;
+    const isReviewed = signOff && !showAiDraft;
+    const reviewLabel = signOff ? t.review.revise : review ? t.review.continue : t.review.start;
+
+    return (
+        <div className={`mx-6 mt-6 p-3 flex flex-wrap items-center justify-between gap-3 rounded-lg border ${
+            isReviewed
+                ? 'bg-green-50 dark:bg-green-900/20 border-green-300 dark:border-green-700'
+                : 'bg-amber-50 dark:bg-amber-900/20 border-amber-300 dark:border-amber-700'
+        }`} role="status">
+            <div className="text-sm">
+                <p className={`flex items-center gap-2 font-semibold ${isReviewed ? 'text-green-800 dark:text-green-300' : 'text-amber-800 dark:text-amber-300'}`}>
+                    {isReviewed ? <CheckCircleIcon className="w-5 h-5" /> : <SparklesIcon className="w-5 h-5" />}
+                    {isReviewed ? t.review.reviewed : t.review.aiDraft}
+                </p>
+                <p className="text-xs text-slate-600 dark:text-slate-400 mt-0.5">
+                    {isReviewed
+                        ? interpolate(t.review.reviewedBy, { reviewer: signOff.reviewer, date: formatDateTime(new Date(signOff.signedAt)) })
+                        : signOff
+                            ? t.review.showingDraft
+                            : review
+                                ? plural(locale, t.review.inProgress, countPending(review))
+                                : t.review.aiDraftDetail}
                 </p>
+            </div>
+            <div className="flex gap-2">
+                {signOff && (
+                    <button
+                        onClick={onToggleAiDraft}
+                        className="px-3 py-1.5 text-xs font-semibold text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600"
+                    >
+                        {showAiDraft ? t.review.showReviewed : t.review.showDraft}
+                    </button>
+                )}
+                {onOpenReview && (
+                    <button
+                        onClick={onOpenReview}
+                        className="flex items-center gap-1 px-3 py-1.5 text-xs font-semibold text-white bg-sky-600 rounded-md hover:bg-sky-700"
+                    >
+                        <ClipboardIcon className="w-4 h-4" />
+                        {reviewLabel}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const ComparisonDisplay: React.FC<{ left: AnalysisResult; right: AnalysisResult }> = ({ left, right }) => {
+    const { locale, t, formatPercent } = useI18n();
+    const comparison = compareFeet(left, right);
+    const asymmetricRow = 'bg-amber-50 dark:bg-amber-900/20 border-amber-300 dark:border-amber-700';
+    const symmetricRow = 'bg-slate-50 dark:bg-slate-800/50 border-slate-200 dark:border-slate-700';
+
+    return (
+        <div className="p-6 flex-grow overflow-y-auto">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-xl font-bold text-slate-800 dark:text-white">{t.dashboard.compare.title}</h2>
+                {comparison.asymmetryCount > 0 ? (
+                    <span className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-semibold rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300">
+                        <WarningIcon className="w-4 h-4" />
+                        {plural(locale, t.dashboard.compare.asymmetries, comparison.asymmetryCount)}
+                    </span>
+                ) : (
+                    <span className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
+                        <CheckCircleIcon className="w-4 h-4" />
+                        {t.dashboard.compare.symmetric}
+                    </span>
+                )}
+            </div>
+
+            <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-3">
+                    {[left, right].map(result => (
+                        <div key={result.foot} className={`p-3 rounded-lg border ${comparison.archType.asymmetric ? asymmetricRow : symmetricRow}`}>
+                            <p className="text-sm font-medium text-slate-500 dark:text-slate-400">{t.common.feet[result.foot]}</p>
+                            <p className={`text-base font-bold px-3 py-0.5 mt-1 rounded-full inline-block ${ARCH_TYPE_STYLES[result.archType]}`}>
+                                {interpolate(t.dashboard.compare.arch, { archType: t.common.archTypes[result.archType] })}
+                            </p>
+                            <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                                {t.dashboard.confidence} <span className="font-bold text-slate-700 dark:text-slate-200">{formatPercent(result.confidenceScore / 100)}</span>
+                            </p>
+                        </div>
+                    ))}
+                </div>
+
+                <hr className="border-slate-200 dark:border-slate-700" />
+
+                <div>
+                    <h3 className="text-md font-semibold text-slate-700 dark:text-slate-300 mb-3 flex items-center">
+                        <InformationCircleIcon className="w-5 h-5 mr-2 text-sky-500" />
+                        {t.dashboard.compare.issuesByFoot}
+                    </h3>
+                    {comparison.issues.length > 0 ? (
+                        <div className="space-y-2">
+                            <div className="grid grid-cols-[1fr_5rem_5rem] gap-3 px-3 text-xs font-semibold text-slate-500 dark:text-slate-400">
+                                <span>{t.dashboard.compare.issue}</span>
+                                <span className="text-center">{t.common.footShort.left}</span>
+                                <span className="text-center">{t.common.footShort.right}</span>
+                            </div>
+                            {comparison.issues.map((row, index) => (
+                                <div key={index} className={`grid grid-cols-[1fr_5rem_5rem] gap-3 items-center p-3 rounded-lg border ${row.asymmetric ? asymmetricRow : symmetricRow}`}>
+                                    <span className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+                                        {row.asymmetric && <WarningIcon className="w-4 h-4 text-amber-500 flex-shrink-0" />}
+                                        {row.issue}
+                                    </span>
+                                    <span className="text-center">
+                                        {row.left ? <SeverityBadge severity={row.left.severity} /> : <span className="text-slate-400">—</span>}
+                                    </span>
+                                    <span className="text-center">
+                                        {row.right ? <SeverityBadge severity={row.right.severity} /> : <span className="text-slate-400">—</span>}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="flex items-center">
+                           <CheckCircleIcon className="w-5 h-5 text-green-500 mr-3 flex-shrink-0" />
+                           <p className="text-slate-600 dark:text-slate-300">{t.dashboard.compare.noIssues}</p>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ResultFooter: React.FC<{
+    onOpenTelemedicine: () => void;
+    onDownloadReport: () => void;
+    onExportFhir: () => void;
+}> = ({ onOpenTelemedicine, onDownloadReport, onExportFhir }) => {
+    const { t } = useI18n();
+    return (
+        <div className="p-6 border-t border-slate-200 dark:border-slate-700">
+            <p className="text-xs text-slate-400 dark:text-slate-500 text-center mb-4">
+                {t.dashboard.disclaimer}
+            </p>
+            <div className="flex gap-3 mb-3">
+                <button
+                    onClick={onDownloadReport}
+                    className="flex-1 flex items-center justify-center px-4 py-3 text-sm font-semibold text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 rounded-lg shadow-sm hover:bg-slate-200 dark:hover:bg-slate-600 transition-all duration-300 focus:outline-none focus:ring-4 focus:ring-slate-300 dark:focus:ring-slate-600"
+                >
+                    <DocumentDownloadIcon className="w-5 h-5 mr-2" />
+                    {t.dashboard.downloadReport}
+                </button>
                 <button
-                    onClick={onOpenTelemedicine}
-                    className="flex items-center justify-center w-full px-5 py-3 text-base font-semibold text-white bg-indigo-600 rounded-lg shadow-sm hover:bg-indigo-700 disabled:bg-slate-400 disabled:dark:bg-slate-600 disabled:cursor-not-allowed transition-all duration-300 focus:outline-none focus:ring-4 focus:ring-indigo-300 dark:focus:ring-indigo-800"
+                    onClick={onExportFhir}
+                    className="flex-1 flex items-center justify-center px-4 py-3 text-sm font-semibold text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 rounded-lg shadow-sm hover:bg-slate-200 dark:hover:bg-slate-600 transition-all duration-300 focus:outline-none focus:ring-4 focus:ring-slate-300 dark:focus:ring-slate-600"
                 >
-                    <VideoCameraIcon className="w-6 h-6 mr-2" />
-                    Connect with a Specialist
+                    <DocumentDownloadIcon className="w-5 h-5 mr-2" />
+                    {t.dashboard.exportFhir}
                 </button>
             </div>
+            <button
+                onClick={onOpenTelemedicine}
+                className="flex items-center justify-center w-full px-5 py-3 text-base font-semibold text-white bg-indigo-600 rounded-lg shadow-sm hover:bg-indigo-700 disabled:bg-slate-400 disabled:dark:bg-slate-600 disabled:cursor-not-allowed transition-all duration-300 focus:outline-none focus:ring-4 focus:ring-indigo-300 dark:focus:ring-indigo-800"
+            >
+                <VideoCameraIcon className="w-6 h-6 mr-2" />
+                {t.dashboard.connectSpecialist}
+            </button>
+        </div>
+    );
+};
+
+const ViewTab: React.FC<{ active: boolean; onClick: () => void; label: string; }> = ({ active, onClick, label }) => (
+    <button
+        onClick={onClick}
+        className={`flex-1 px-3 py-2 text-sm font-semibold rounded-lg transition-colors ${
+            active
+                ? 'bg-sky-600 text-white'
+                : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+        }`}
+        aria-pressed={active}
+    >
+        {label}
+    </button>
+);
+
+const ResultsView: React.FC<{
+    results: BilateralAnalysis;
+    thumbnails: CaptureThumbnails;
+    analysisDate: Date;
+    onOpenTelemedicine: () => void;
+    onDownloadReport: () => void;
+    onExportFhir: () => void;
+    onUpdateResult: (foot: FootSide, changes: Partial<AnalysisResult>) => void;
+    onReanalyze?: () => void;
+    onAskFollowUp: (foot: FootSide, messages: ChatMessage[]) => Promise<ChatMessage>;
+    review?: ClinicianReview;
+    showAiDraft: boolean;
+    onToggleAiDraft: () => void;
+    onOpenReview?: () => void;
+}> = ({ results, thumbnails, analysisDate, onOpenTelemedicine, onDownloadReport, onExportFhir, onUpdateResult, onReanalyze, onAskFollowUp, review, showAiDraft, onToggleAiDraft, onOpenReview }) => {
+    const { t } = useI18n();
+    const [view, setView] = useState<DashboardView>('compare');
+    // One follow-up conversation per foot, kept while switching tabs.
+    const [conversations, setConversations] = useState<Partial<Record<FootSide, ChatMessage[]>>>({});
+    const feet = FEET.filter(foot => results[foot]);
+
+    // Start on the comparison whenever a different analysis is shown; edits keep the tab.
+    useEffect(() => {
+        setView('compare');
+        setConversations({});
+    }, [analysisDate]);
+
+    // With a single foot there is nothing to compare.
+    const activeView: DashboardView = feet.length > 1 ? view : feet[0];
+    const anyMeasurements = feet.some(foot => hasMeasurements(results[foot]!));
+    // Notes belong to the reviewed version, so they are hidden with the AI draft.
+    const footReview = review?.signOff && !showAiDraft && activeView !== 'compare' ? review.feet[activeView] : undefined;
+
+    return (
+        <div className="flex flex-col h-full">
+            <ReviewStatusBanner review={review} showAiDraft={showAiDraft} onToggleAiDraft={onToggleAiDraft} onOpenReview={onOpenReview} />
+            {feet.length > 1 && (
+                <div className="flex gap-2 px-6 pt-6">
+                    <ViewTab active={activeView === 'compare'} onClick={() => setView('compare')} label={t.dashboard.compare.tab} />
+                    {feet.map(foot => (
+                        <ViewTab key={foot} active={activeView === foot} onClick={() => setView(foot)} label={t.common.feet[foot]} />
+                    ))}
+                </div>
+            )}
+            {activeView === 'compare' ? (
+                <ComparisonDisplay left={results.left!} right={results.right!} />
+            ) : (
+                <ResultDisplay
+                    result={results[activeView]!}
+                    thumbnails={thumbnails[activeView]}
+                    onUpdate={(changes) => onUpdateResult(activeView, changes)}
+                    notes={footReview && reviewNotes(footReview)}
+                >
+                    <FollowUpChat
+                        key={activeView}
+                        messages={conversations[activeView] ?? []}
+                        onMessagesChange={(messages) => setConversations(current => ({ ...current, [activeView]: messages }))}
+                        onAsk={(messages) => onAskFollowUp(activeView, messages)}
+                        onOpenTelemedicine={onOpenTelemedicine}
+                    />
+                </ResultDisplay>
+            )}
+            {onReanalyze && anyMeasurements && (
+                <div className="mx-6 mb-4 p-3 flex items-center justify-between gap-3 rounded-lg bg-sky-50 dark:bg-sky-900/30 border border-sky-200 dark:border-sky-800">
+                    <p className="text-xs text-sky-800 dark:text-sky-200">{t.dashboard.reanalyzeHint}</p>
+                    <button
+                        onClick={onReanalyze}
+                        className="flex-shrink-0 flex items-center gap-1 px-3 py-1.5 text-xs font-semibold text-white bg-sky-600 rounded-md hover:bg-sky-700"
+                    >
+                        <SparklesIcon className="w-4 h-4" />
+                        {t.dashboard.reanalyze}
+                    </button>
+                </div>
+            )}
+            <ResultFooter onOpenTelemedicine={onOpenTelemedicine} onDownloadReport={onDownloadReport} onExportFhir={onExportFhir} />
         </div>
     );
 };
 
 
-const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({ result, isLoading, error, onOpenTelemedicine }) => {
+const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({ results, thumbnails, analysisDate, isLoading, progress, error, onOpenTelemedicine, onDownloadReport, onExportFhir, onUpdateResult, onReanalyze, onAskFollowUp, review, showAiDraft, onToggleAiDraft, onOpenReview }) => {
   return (
     <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg w-full h-full flex flex-col">
       {isLoading ? (
-        <LoadingState />
+        <LoadingState progress={progress} />
       ) : error ? (
         <ErrorState error={error} />
-      ) : result ? (
-        <ResultDisplay result={result} onOpenTelemedicine={onOpenTelemedicine} />
+      ) : results && (results.left || results.right) ? (
+        <ResultsView
+          results={results}
+          thumbnails={thumbnails}
+          analysisDate={analysisDate}
+          onOpenTelemedicine={onOpenTelemedicine}
+          onDownloadReport={onDownloadReport}
+          onExportFhir={onExportFhir}
+          onUpdateResult={onUpdateResult}
+          onReanalyze={onReanalyze}
+          onAskFollowUp={onAskFollowUp}
+          review={review}
+          showAiDraft={showAiDraft}
+          onToggleAiDraft={onToggleAiDraft}
+          onOpenReview={onOpenReview}
+        />
       ) : (
         <InitialState />
       )}
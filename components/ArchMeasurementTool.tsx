@@ -0,0 +1,45 @@
+import React from 'react';
+import { ArchLandmarks, ArchMeasurement } from '../types';
+import { computeArchMeasurement } from '../services/footMeasurements';
+import MeasurementTool from './MeasurementTool';
+import { useI18n } from './I18nProvider';
+
+interface ArchMeasurementToolProps {
+  sideViewSrc: string;
+  measurement?: ArchMeasurement;
+  onSave: (measurement: ArchMeasurement) => void;
+  onCancel: () => void;
+}
+
+const ARCH_LANDMARKS: (keyof ArchLandmarks)[] = ['heel', 'metatarsalHead', 'navicular', 'floorStart', 'floorEnd'];
+
+const ARCH_SEGMENTS: [keyof ArchLandmarks, keyof ArchLandmarks][] = [
+    ['heel', 'navicular'],
+    ['navicular', 'metatarsalHead'],
+    ['floorStart', 'floorEnd'],
+];
+
+const ArchMeasurementTool: React.FC<ArchMeasurementToolProps> = ({ sideViewSrc, measurement, onSave, onCancel }) => {
+    const { t, formatNumber } = useI18n();
+    const messages = t.measurement.arch;
+
+    return (
+        <MeasurementTool
+            src={sideViewSrc}
+            alt={messages.alt}
+            landmarks={ARCH_LANDMARKS.map(key => ({ key, label: messages.landmarks[key] }))}
+            segments={ARCH_SEGMENTS}
+            initialPoints={measurement?.landmarks}
+            compute={computeArchMeasurement}
+            describe={(preview) => [
+                { label: messages.angle, value: `${formatNumber(preview.archAngle, { maximumFractionDigits: 1 })}°` },
+                { label: messages.ratio, value: formatNumber(preview.navicularHeightRatio, { minimumFractionDigits: 3, maximumFractionDigits: 3 }) },
+                { label: messages.archType, value: t.common.archTypes[preview.archType] },
+            ]}
+            onSave={onSave}
+            onCancel={onCancel}
+        />
+    );
+};
+
+export default ArchMeasurementTool;
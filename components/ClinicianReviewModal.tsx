@@ -0,0 +1,480 @@
+import React, { useState, useEffect } from 'react';
+import { AnalysisResult, BilateralAnalysis, ClinicianReview, FootConditionCode, FootReview, FootSide, PotentialIssue, ReviewDecision, ReviewedFinding } from '../types';
+import { acceptPendingFindings, countPending, createClinicianReview, signOffReview } from '../services/clinicianReview';
+import { FOOT_CONDITIONS, findCondition } from '../services/footConditions';
+import { interpolate, plural } from '../services/i18n';
+import { ClipboardIcon, TrashIcon, WarningIcon, XIcon } from './IconComponents';
+import { useI18n } from './I18nProvider';
+
+interface ClinicianReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The AI results under review.
+  results: BilateralAnalysis;
+  // The saved review, if the results have been reviewed before.
+  review?: ClinicianReview;
+  onSave: (review: ClinicianReview) => Promise<void>;
+}
+
+const FEET: FootSide[] = ['left', 'right'];
+const ARCH_TYPES: AnalysisResult['archType'][] = ['Normal', 'Flat', 'High', 'Unknown'];
+const SEVERITIES: PotentialIssue['severity'][] = ['Mild', 'Moderate', 'Severe', 'Unknown'];
+const DECISIONS: Exclude<ReviewDecision, 'pending'>[] = ['accepted', 'edited', 'rejected'];
+
+const DECISION_STYLES: Record<Exclude<ReviewDecision, 'pending'>, string> = {
+  accepted: 'bg-green-600 text-white border-green-600',
+  edited: 'bg-sky-600 text-white border-sky-600',
+  rejected: 'bg-red-600 text-white border-red-600',
+};
+
+const inputClassName = "block w-full px-2 py-1.5 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md text-sm placeholder-slate-400 focus:outline-none focus:ring-sky-500 focus:border-sky-500";
+
+const isBlankIssue = (issue: PotentialIssue) => !issue.issue.trim();
+
+// Edited findings must still say something.
+const hasBlankEdit = (review: ClinicianReview) => Object.values(review.feet).some(footReview =>
+  footReview!.potentialIssues.some(finding => finding.decision === 'edited' && isBlankIssue(finding.value))
+  || [...footReview!.clinicalRecommendations, ...footReview!.footwearSuggestions].some(finding => finding.decision === 'edited' && !finding.value.trim())
+);
+
+// Drops added items that were left empty.
+const withoutBlankAdditions = (review: ClinicianReview): ClinicianReview => ({
+  ...review,
+  feet: Object.fromEntries(Object.entries(review.feet).map(([foot, footReview]) => [foot, {
+    ...footReview!,
+    addedIssues: footReview!.addedIssues.filter(issue => !isBlankIssue(issue)),
+    addedRecommendations: footReview!.addedRecommendations.filter(text => text.trim()),
+    addedFootwearSuggestions: footReview!.addedFootwearSuggestions.filter(text => text.trim()),
+  }])),
+});
+
+// Accepting or rejecting a finding discards an earlier edit.
+const decide = <T,>(finding: ReviewedFinding<T>, decision: ReviewDecision, original: T): ReviewedFinding<T> =>
+  ({ ...finding, decision, value: decision === 'edited' ? finding.value : original });
+
+// One AI finding with its decision buttons, an editor while edited, and a note.
+const FindingRow: React.FC<{
+  decision: ReviewDecision;
+  note?: string;
+  onDecide: (decision: ReviewDecision) => void;
+  onNoteChange: (note: string) => void;
+  // Shown while the decision is 'edited'.
+  editor: React.ReactNode;
+  // The AI's finding, as the reviewer sees it.
+  children: React.ReactNode;
+}> = ({ decision, note, onDecide, onNoteChange, editor, children }) => {
+  const { t } = useI18n();
+  return (
+    <li className={`p-3 rounded-lg border ${decision === 'pending' ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-300 dark:border-amber-700' : 'bg-slate-50 dark:bg-slate-800/50 border-slate-200 dark:border-slate-700'}`}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className={`flex-grow min-w-0 text-sm text-slate-700 dark:text-slate-200 ${decision === 'rejected' ? 'line-through opacity-60' : ''}`}>
+          {children}
+        </div>
+        <div className="flex gap-1 flex-shrink-0" role="group" aria-label={t.review.decisionLabel}>
+          {DECISIONS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onDecide(option)}
+              aria-pressed={decision === option}
+              className={`px-2 py-1 text-xs font-semibold rounded-md border transition-colors ${
+                decision === option
+                  ? DECISION_STYLES[option]
+                  : 'bg-white dark:bg-slate-700 text-slate-600 dark:text-slate-300 border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-600'
+              }`}
+            >
+              {t.review.decisions[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+      {decision === 'edited' && <div className="mt-2">{editor}</div>}
+      <input
+        type="text"
+        value={note ?? ''}
+        onChange={(e) => onNoteChange(e.target.value)}
+        placeholder={t.review.notePlaceholder}
+        aria-label={t.review.notePlaceholder}
+        className={`mt-2 ${inputClassName}`}
+      />
+    </li>
+  );
+};
+
+const IssueEditor: React.FC<{ issue: PotentialIssue; onChange: (issue: PotentialIssue) => void }> = ({ issue, onChange }) => {
+  const { t } = useI18n();
+  // Coded conditions take the taxonomy's name; only 'other' findings are named by hand.
+  const changeCondition = (condition: FootConditionCode) =>
+    onChange({ ...issue, condition, issue: findCondition(condition)?.name ?? '' });
+
+  return (
+    <div className="grid grid-cols-[1fr_8rem] gap-2">
+      <select
+        value={issue.condition}
+        onChange={(e) => changeCondition(e.target.value as FootConditionCode)}
+        aria-label={t.review.condition}
+        className={inputClassName}
+      >
+        {FOOT_CONDITIONS.map(condition => <option key={condition.code} value={condition.code}>{condition.name}</option>)}
+        <option value="other">{t.review.otherCondition}</option>
+      </select>
+      <select
+        value={issue.severity}
+        onChange={(e) => onChange({ ...issue, severity: e.target.value as PotentialIssue['severity'] })}
+        aria-label={t.review.severity}
+        className={inputClassName}
+      >
+        {SEVERITIES.map(severity => <option key={severity} value={severity}>{t.common.severities[severity]}</option>)}
+      </select>
+      {issue.condition === 'other' && (
+        <input
+          type="text"
+          value={issue.issue}
+          onChange={(e) => onChange({ ...issue, issue: e.target.value })}
+          placeholder={t.review.issueName}
+          aria-label={t.review.issueName}
+          className={`col-span-2 ${inputClassName}`}
+        />
+      )}
+      <textarea
+        rows={2}
+        value={issue.description}
+        onChange={(e) => onChange({ ...issue, description: e.target.value })}
+        placeholder={t.review.description}
+        aria-label={t.review.description}
+        className={`col-span-2 ${inputClassName}`}
+      />
+    </div>
+  );
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section>
+    <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">{title}</h3>
+    {children}
+  </section>
+);
+
+// Items the clinician added, each editable and removable, with a button to add another.
+const AddedItems = <T,>({ items, onChange, create, addLabel, renderEditor }: {
+  items: T[];
+  onChange: (items: T[]) => void;
+  create: () => T;
+  addLabel: string;
+  renderEditor: (item: T, setItem: (item: T) => void) => React.ReactNode;
+}) => {
+  const { t } = useI18n();
+  return (
+    <>
+      {items.length > 0 && (
+        <ul className="mt-2 space-y-2">
+          {items.map((item, index) => (
+            <li key={index} className="flex items-start gap-2 p-3 rounded-lg border bg-sky-50 dark:bg-sky-900/20 border-sky-200 dark:border-sky-800">
+              <div className="flex-grow min-w-0">
+                <p className="text-xs font-semibold text-sky-700 dark:text-sky-300 mb-1">{t.review.added}</p>
+                {renderEditor(item, next => onChange(items.map((current, i) => i === index ? next : current)))}
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+                className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900/30 transition-colors"
+                aria-label={t.review.removeAdded}
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button
+        type="button"
+        onClick={() => onChange([...items, create()])}
+        className="mt-2 px-3 py-1.5 text-xs font-semibold text-sky-700 dark:text-sky-300 bg-sky-50 dark:bg-sky-900/30 rounded-md hover:bg-sky-100 dark:hover:bg-sky-900/50"
+      >
+        + {addLabel}
+      </button>
+    </>
+  );
+};
+
+const TextEditor: React.FC<{ value: string; onChange: (value: string) => void; label: string }> = ({ value, onChange, label }) => (
+  <input type="text" value={value} onChange={(e) => onChange(e.target.value)} aria-label={label} className={inputClassName} />
+);
+
+const FootReviewForm: React.FC<{
+  result: AnalysisResult;
+  review: FootReview;
+  onChange: (review: FootReview) => void;
+}> = ({ result, review, onChange }) => {
+  const { t } = useI18n();
+  const update = (changes: Partial<FootReview>) => onChange({ ...review, ...changes });
+  const replaceAt = <T,>(list: T[], index: number, item: T) => list.map((current, i) => i === index ? item : current);
+  // Decision and note handlers for one finding.
+  const rowProps = <T,>(finding: ReviewedFinding<T>, original: T, onChange: (finding: ReviewedFinding<T>) => void) => ({
+    decision: finding.decision,
+    note: finding.note,
+    onDecide: (decision: ReviewDecision) => onChange(decide(finding, decision, original)),
+    onNoteChange: (note: string) => onChange({ ...finding, note }),
+  });
+
+  return (
+    <div className="space-y-6">
+      <Section title={t.review.archType}>
+        <ul>
+          <FindingRow
+            {...rowProps(review.archType, result.archType, archType => update({ archType }))}
+            editor={
+              <select
+                value={review.archType.value}
+                onChange={(e) => update({ archType: { ...review.archType, value: e.target.value as AnalysisResult['archType'] } })}
+                aria-label={t.review.archType}
+                className={inputClassName}
+              >
+                {ARCH_TYPES.map(archType => <option key={archType} value={archType}>{t.common.archTypes[archType]}</option>)}
+              </select>
+            }
+          >
+            <span className="font-semibold">{t.common.archTypes[result.archType]}</span>
+          </FindingRow>
+        </ul>
+      </Section>
+
+      <Section title={t.review.issues}>
+        {result.potentialIssues.length === 0 && (
+          <p className="text-sm text-slate-500 dark:text-slate-400">{t.review.noIssues}</p>
+        )}
+        <ul className="space-y-2">
+          {result.potentialIssues.map((issue, index) => {
+            const finding = review.potentialIssues[index];
+            const setFinding = (next: ReviewedFinding<PotentialIssue>) => update({ potentialIssues: replaceAt(review.potentialIssues, index, next) });
+            return (
+              <FindingRow
+                key={index}
+                {...rowProps(finding, issue, setFinding)}
+                editor={<IssueEditor issue={finding.value} onChange={value => setFinding({ ...finding, value })} />}
+              >
+                <span className="font-semibold">{issue.issue}</span>
+                <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">{t.common.severities[issue.severity]}</span>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">{issue.description}</p>
+              </FindingRow>
+            );
+          })}
+        </ul>
+        <AddedItems
+          items={review.addedIssues}
+          onChange={addedIssues => update({ addedIssues })}
+          create={(): PotentialIssue => ({ condition: 'other', issue: '', severity: 'Unknown', description: '', foot: result.foot })}
+          addLabel={t.review.addIssue}
+          renderEditor={(issue, setIssue) => <IssueEditor issue={issue} onChange={setIssue} />}
+        />
+      </Section>
+
+      {([
+        ['clinicalRecommendations', 'addedRecommendations', t.review.recommendations, t.review.addRecommendation],
+        ['footwearSuggestions', 'addedFootwearSuggestions', t.review.footwear, t.review.addFootwear],
+      ] as const).map(([listKey, addedKey, title, addLabel]) => (
+        <Section key={listKey} title={title}>
+          <ul className="space-y-2">
+            {result[listKey].map((text, index) => {
+              const finding = review[listKey][index];
+              const setFinding = (next: ReviewedFinding<string>) => update({ [listKey]: replaceAt(review[listKey], index, next) });
+              return (
+                <FindingRow
+                  key={index}
+                  {...rowProps(finding, text, setFinding)}
+                  editor={<TextEditor value={finding.value} onChange={value => setFinding({ ...finding, value })} label={title} />}
+                >
+                  {text}
+                </FindingRow>
+              );
+            })}
+          </ul>
+          <AddedItems
+            items={review[addedKey]}
+            onChange={items => update({ [addedKey]: items })}
+            create={() => ''}
+            addLabel={addLabel}
+            renderEditor={(text, setText) => <TextEditor value={text} onChange={setText} label={title} />}
+          />
+        </Section>
+      ))}
+
+      <Section title={t.review.generalNote}>
+        <textarea
+          rows={3}
+          value={review.note ?? ''}
+          onChange={(e) => update({ note: e.target.value })}
+          aria-label={t.review.generalNote}
+          className={inputClassName}
+        />
+      </Section>
+    </div>
+  );
+};
+
+const ClinicianReviewModal: React.FC<ClinicianReviewModalProps> = ({ isOpen, onClose, results, review, onSave }) => {
+  const { t, locale } = useI18n();
+  const [draft, setDraft] = useState<ClinicianReview>({ feet: {} });
+  const [foot, setFoot] = useState<FootSide>('left');
+  const [reviewer, setReviewer] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const feet = FEET.filter(side => results[side]);
+
+  useEffect(() => {
+    if (isOpen) {
+      // A signed-off review is revised as a draft; saving it withdraws the sign-off.
+      setDraft({ feet: { ...createClinicianReview(results).feet, ...review?.feet } });
+      setReviewer(review?.signOff?.reviewer ?? '');
+      setFoot(feet[0]);
+      setIsSaving(false);
+      setSaveError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen || !draft.feet[foot]) return null;
+
+  const pendingCount = countPending(draft);
+  const canSignOff = pendingCount === 0 && reviewer.trim() !== '' && !hasBlankEdit(draft);
+
+  const updateFoot = (side: FootSide, footReview: FootReview) =>
+    setDraft({ ...draft, feet: { ...draft.feet, [side]: footReview } });
+
+  const acceptRemaining = () => setDraft(acceptPendingFindings(draft));
+
+  const save = async (signOff: boolean) => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const cleaned = withoutBlankAdditions(draft);
+      await onSave(signOff ? signOffReview(cleaned, reviewer) : cleaned);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : String(err));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="review-modal-title">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-start justify-between">
+            <div className="flex items-center gap-3">
+              <div className="bg-sky-100 dark:bg-sky-900/50 p-2 rounded-full">
+                <ClipboardIcon className="w-6 h-6 text-sky-600 dark:text-sky-400" />
+              </div>
+              <div>
+                <h2 id="review-modal-title" className="text-lg font-bold text-slate-800 dark:text-white">
+                  {t.review.title}
+                </h2>
+                <p className="text-sm text-slate-500 dark:text-slate-400">{t.review.subtitle}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 rounded-full text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-sky-500"
+              aria-label={t.review.close}
+            >
+              <XIcon className="w-6 h-6" />
+            </button>
+          </div>
+          {feet.length > 1 && (
+            <div className="flex gap-2 mt-4">
+              {feet.map(side => (
+                <button
+                  key={side}
+                  onClick={() => setFoot(side)}
+                  aria-pressed={foot === side}
+                  className={`flex-1 px-3 py-2 text-sm font-semibold rounded-lg transition-colors ${
+                    foot === side
+                      ? 'bg-sky-600 text-white'
+                      : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+                  }`}
+                >
+                  {t.common.feet[side]}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-grow">
+          <FootReviewForm
+            key={foot}
+            result={results[foot]!}
+            review={draft.feet[foot]!}
+            onChange={footReview => updateFoot(foot, footReview)}
+          />
+        </div>
+
+        <div className="p-6 border-t border-slate-200 dark:border-slate-700 space-y-3">
+          {review?.signOff && (
+            <p className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+              <WarningIcon className="w-4 h-4 flex-shrink-0" />
+              {interpolate(t.review.revisingSignedOff, { reviewer: review.signOff.reviewer })}
+            </p>
+          )}
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className={`text-sm ${pendingCount > 0 ? 'text-amber-700 dark:text-amber-400' : 'text-green-700 dark:text-green-400'}`}>
+              {pendingCount > 0 ? plural(locale, t.review.pending, pendingCount) : t.review.allDecided}
+            </p>
+            {pendingCount > 0 && (
+              <button
+                type="button"
+                onClick={acceptRemaining}
+                className="px-3 py-1.5 text-xs font-semibold text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/30 rounded-md hover:bg-green-100 dark:hover:bg-green-900/50"
+              >
+                {t.review.acceptRemaining}
+              </button>
+            )}
+          </div>
+          <div>
+            <label htmlFor="review-reviewer" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              {t.review.reviewer}
+            </label>
+            <input
+              type="text"
+              id="review-reviewer"
+              value={reviewer}
+              onChange={(e) => setReviewer(e.target.value)}
+              placeholder={t.review.reviewerPlaceholder}
+              className={`mt-1 ${inputClassName}`}
+            />
+          </div>
+          {saveError && (
+            <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+              {interpolate(t.review.saveFailed, { error: saveError })}
+            </p>
+          )}
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-500 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500"
+            >
+              {t.common.cancel}
+            </button>
+            <button
+              type="button"
+              onClick={() => save(false)}
+              disabled={isSaving || hasBlankEdit(draft)}
+              className="px-4 py-2 text-sm font-medium text-sky-700 dark:text-sky-300 bg-sky-50 dark:bg-sky-900/30 border border-sky-200 dark:border-sky-800 rounded-md shadow-sm hover:bg-sky-100 dark:hover:bg-sky-900/50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t.review.saveDraft}
+            </button>
+            <button
+              type="button"
+              onClick={() => save(true)}
+              disabled={isSaving || !canSignOff}
+              className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-sky-600 border border-transparent rounded-md shadow-sm hover:bg-sky-700 disabled:bg-slate-400 disabled:dark:bg-slate-600 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500"
+            >
+              {t.review.signOff}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClinicianReviewModal;
@@ -0,0 +1,129 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ChatMessage } from '../types';
+import { ChatBubbleIcon, VideoCameraIcon, WarningIcon } from './IconComponents';
+import { useI18n } from './I18nProvider';
+
+interface FollowUpChatProps {
+  messages: ChatMessage[];
+  onMessagesChange: (messages: ChatMessage[]) => void;
+  // Answers the last user message of the conversation.
+  onAsk: (messages: ChatMessage[]) => Promise<ChatMessage>;
+  onOpenTelemedicine: () => void;
+}
+
+const FollowUpChat: React.FC<FollowUpChatProps> = ({ messages, onMessagesChange, onAsk, onOpenTelemedicine }) => {
+    const { t } = useI18n();
+    const [draft, setDraft] = useState('');
+    const [isPending, setIsPending] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const listRef = useRef<HTMLUListElement>(null);
+
+    // Keep the latest message in view without scrolling the page.
+    useEffect(() => {
+        if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+    }, [messages, isPending]);
+
+    const ask = async (text: string) => {
+        const question = text.trim();
+        if (!question || isPending) return;
+        const conversation: ChatMessage[] = [...messages, { role: 'user', text: question }];
+        onMessagesChange(conversation);
+        setDraft('');
+        setError(null);
+        setIsPending(true);
+        try {
+            onMessagesChange([...conversation, await onAsk(conversation)]);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : t.chat.failed);
+        } finally {
+            setIsPending(false);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        ask(draft);
+    };
+
+    return (
+        <div className="p-4 rounded-lg border border-slate-200 dark:border-slate-700">
+            <h3 className="text-md font-semibold text-slate-700 dark:text-slate-300 mb-1 flex items-center">
+                <ChatBubbleIcon className="w-5 h-5 mr-2 text-sky-500" />
+                {t.chat.title}
+            </h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                {t.chat.intro}
+            </p>
+
+            {messages.length > 0 && (
+                <ul ref={listRef} className="space-y-2 mb-3 max-h-80 overflow-y-auto" aria-live="polite">
+                    {messages.map((message, index) => (
+                        <li key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                            <div className={`max-w-[85%] px-3 py-2 rounded-lg text-sm whitespace-pre-line ${
+                                message.role === 'user'
+                                ? 'bg-sky-600 text-white'
+                                : message.referToClinician
+                                ? 'bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 text-slate-700 dark:text-slate-200'
+                                : 'bg-slate-100 dark:bg-slate-700/50 text-slate-700 dark:text-slate-200'
+                            }`}>
+                                {message.referToClinician && <WarningIcon className="w-4 h-4 text-amber-500 inline mr-1 align-text-bottom" />}
+                                {message.text}
+                                {message.referToClinician && (
+                                    <button
+                                        onClick={onOpenTelemedicine}
+                                        className="mt-2 flex items-center gap-1 px-3 py-1.5 text-xs font-semibold text-white bg-sky-600 rounded-md hover:bg-sky-700"
+                                    >
+                                        <VideoCameraIcon className="w-4 h-4" />
+                                        {t.chat.book}
+                                    </button>
+                                )}
+                            </div>
+                        </li>
+                    ))}
+                    {isPending && (
+                        <li className="flex justify-start">
+                            <div className="px-3 py-2 rounded-lg text-sm bg-slate-100 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 animate-pulse">{t.chat.thinking}</div>
+                        </li>
+                    )}
+                </ul>
+            )}
+
+            {messages.length === 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                    {t.chat.suggestions.map(question => (
+                        <button
+                            key={question}
+                            onClick={() => ask(question)}
+                            disabled={isPending}
+                            className="px-2 py-1 text-xs font-medium text-sky-700 dark:text-sky-300 bg-sky-50 dark:bg-sky-900/30 border border-sky-200 dark:border-sky-800 rounded-full hover:bg-sky-100 dark:hover:bg-sky-900/50 disabled:opacity-50"
+                        >
+                            {question}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {error && <p className="text-xs text-red-600 dark:text-red-400 mb-2" role="alert">{error}</p>}
+
+            <form onSubmit={handleSubmit} className="flex gap-2">
+                <input
+                    type="text"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder={t.chat.placeholder}
+                    aria-label={t.chat.inputLabel}
+                    className="flex-grow px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md text-sm focus:outline-none focus:ring-sky-500 focus:border-sky-500"
+                />
+                <button
+                    type="submit"
+                    disabled={isPending || draft.trim() === ''}
+                    className="px-4 py-2 text-sm font-semibold text-white bg-sky-600 rounded-md hover:bg-sky-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+                >
+                    {t.chat.send}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default FollowUpChat;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { FootDimensionLandmarks, FootDimensions, ReferenceObject } from '../types';
+import { computeFootDimensions, REFERENCE_OBJECTS } from '../services/scaleCalibration';
+import MeasurementTool from './MeasurementTool';
+import { useI18n } from './I18nProvider';
+
+interface FootDimensionsToolProps {
+  topViewSrc: string;
+  dimensions?: FootDimensions;
+  onSave: (dimensions: FootDimensions) => void;
+  onCancel: () => void;
+}
+
+const DIMENSION_LANDMARKS: (keyof FootDimensionLandmarks)[] = [
+    'referenceCorner1',
+    'referenceCorner2',
+    'referenceCorner3',
+    'referenceCorner4',
+    'heel',
+    'toe',
+    'forefootMedial',
+    'forefootLateral',
+    'heelMedial',
+    'heelLateral',
+];
+
+const DIMENSION_SEGMENTS: [keyof FootDimensionLandmarks, keyof FootDimensionLandmarks][] = [
+    ['referenceCorner1', 'referenceCorner2'],
+    ['referenceCorner2', 'referenceCorner3'],
+    ['referenceCorner3', 'referenceCorner4'],
+    ['referenceCorner4', 'referenceCorner1'],
+    ['heel', 'toe'],
+    ['forefootMedial', 'forefootLateral'],
+    ['heelMedial', 'heelLateral'],
+];
+
+const FootDimensionsTool: React.FC<FootDimensionsToolProps> = ({ topViewSrc, dimensions, onSave, onCancel }) => {
+    const { t, formatNumber } = useI18n();
+    const messages = t.measurement.dimensions;
+    const millimetres = (length: number) => formatNumber(length, { style: 'unit', unit: 'millimeter' });
+    const [referenceObject, setReferenceObject] = useState<ReferenceObject>(dimensions?.referenceObject ?? 'card');
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center gap-2" role="radiogroup" aria-label={messages.referenceObject}>
+                <span className="text-xs font-semibold text-slate-500 dark:text-slate-400">{messages.reference}</span>
+                {(Object.keys(REFERENCE_OBJECTS) as ReferenceObject[]).map(key => (
+                    <button
+                        key={key}
+                        onClick={() => setReferenceObject(key)}
+                        role="radio"
+                        aria-checked={referenceObject === key}
+                        className={`px-2 py-1 text-xs font-semibold rounded-md transition-colors ${
+                            referenceObject === key
+                            ? 'bg-sky-600 text-white'
+                            : 'bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-600'
+                        }`}
+                    >
+                        {messages.referenceObjects[key]}
+                    </button>
+                ))}
+            </div>
+            <MeasurementTool
+                src={topViewSrc}
+                alt={messages.alt}
+                landmarks={DIMENSION_LANDMARKS.map(key => ({ key, label: messages.landmarks[key] }))}
+                segments={DIMENSION_SEGMENTS}
+                initialPoints={dimensions?.landmarks}
+                compute={(points) => computeFootDimensions(points, referenceObject)}
+                describe={(preview) => [
+                    { label: messages.length, value: millimetres(preview.footLengthMm) },
+                    { label: messages.forefoot, value: millimetres(preview.forefootWidthMm) },
+                    { label: messages.heel, value: millimetres(preview.heelWidthMm) },
+                ]}
+                onSave={onSave}
+                onCancel={onCancel}
+            />
+        </div>
+    );
+};
+
+export default FootDimensionsTool;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { HalluxLandmarks, HalluxValgusMeasurement } from '../types';
+import { computeHalluxValgusMeasurement } from '../services/footMeasurements';
+import MeasurementTool from './MeasurementTool';
+import { useI18n } from './I18nProvider';
+
+interface HalluxMeasurementToolProps {
+  topViewSrc: string;
+  measurement?: HalluxValgusMeasurement;
+  onSave: (measurement: HalluxValgusMeasurement) => void;
+  onCancel: () => void;
+}
+
+const HALLUX_LANDMARKS: (keyof HalluxLandmarks)[] = [
+    'firstMetatarsalBase',
+    'firstMetatarsalHead',
+    'halluxTip',
+    'secondMetatarsalBase',
+    'secondMetatarsalHead',
+];
+
+const HALLUX_SEGMENTS: [keyof HalluxLandmarks, keyof HalluxLandmarks][] = [
+    ['firstMetatarsalBase', 'firstMetatarsalHead'],
+    ['firstMetatarsalHead', 'halluxTip'],
+    ['secondMetatarsalBase', 'secondMetatarsalHead'],
+];
+
+const HalluxMeasurementTool: React.FC<HalluxMeasurementToolProps> = ({ topViewSrc, measurement, onSave, onCancel }) => {
+    const { t, formatNumber } = useI18n();
+    const messages = t.measurement.hallux;
+    const degrees = (angle: number) => `${formatNumber(angle, { maximumFractionDigits: 1 })}°`;
+
+    return (
+        <MeasurementTool
+            src={topViewSrc}
+            alt={messages.alt}
+            landmarks={HALLUX_LANDMARKS.map(key => ({ key, label: messages.landmarks[key] }))}
+            segments={HALLUX_SEGMENTS}
+            initialPoints={measurement?.landmarks}
+            compute={computeHalluxValgusMeasurement}
+            describe={(preview) => [
+                { label: messages.hv, value: degrees(preview.halluxValgusAngle) },
+                { label: messages.im, value: degrees(preview.intermetatarsalAngle) },
+                { label: messages.grade, value: t.common.grades[preview.grade] },
+            ]}
+            onSave={onSave}
+            onCancel={onCancel}
+        />
+    );
+};
+
+export default HalluxMeasurementTool;
@@ -0,0 +1,157 @@
+import React from 'react';
+import { AnalysisRecord, FootSide, FootView } from '../types';
+import { ClockIcon, TrashIcon, PhotoIcon } from './IconComponents';
+import { interpolate, plural } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface HistoryPanelProps {
+  records: AnalysisRecord[];
+  activeRecordId: string | null;
+  onOpen: (record: AnalysisRecord) => void;
+  onDelete: (id: string) => void;
+  selectedIds: string[];
+  onToggleSelect: (id: string) => void;
+  onCompare: () => void;
+}
+
+// Two sessions are needed for a progress comparison.
+const COMPARE_COUNT = 2;
+
+const FOOT_SIDES: FootSide[] = ['left', 'right'];
+const VIEWS: FootView[] = ['top', 'side', 'back', 'footprint'];
+
+const REVIEW_STATUS_STYLES = {
+    draft: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+    inProgress: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300',
+    reviewed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+};
+
+const HistoryEntry: React.FC<{
+  record: AnalysisRecord;
+  isActive: boolean;
+  isSelected: boolean;
+  canSelect: boolean;
+  onOpen: () => void;
+  onDelete: () => void;
+  onToggleSelect: () => void;
+}> = ({ record, isActive, isSelected, canSelect, onOpen, onDelete, onToggleSelect }) => {
+    const { t, locale, formatDateTime } = useI18n();
+    const reviewStatus = record.review?.signOff ? 'reviewed' : record.review ? 'inProgress' : 'draft';
+    const thumbnails = FOOT_SIDES.flatMap(foot =>
+        VIEWS.map(view => record.thumbnails[foot]?.[view]).filter((src): src is string => !!src)
+    ).slice(0, 3);
+    const feet = FOOT_SIDES.filter(foot => record.results[foot]);
+    const issueCount = feet.reduce((count, foot) => count + record.results[foot]!.potentialIssues.length, 0);
+
+    return (
+        <li className={`flex items-center gap-4 p-3 rounded-lg border transition-colors ${
+            isActive
+                ? 'bg-sky-50 dark:bg-sky-900/30 border-sky-300 dark:border-sky-700'
+                : 'bg-slate-50 dark:bg-slate-800/50 border-slate-200 dark:border-slate-700'
+        }`}>
+            <input
+                type="checkbox"
+                checked={isSelected}
+                disabled={!isSelected && !canSelect}
+                onChange={onToggleSelect}
+                className="w-4 h-4 flex-shrink-0 accent-sky-600"
+                aria-label={t.history.select}
+            />
+            <div className="flex gap-1 flex-shrink-0">
+                {thumbnails.length > 0 ? thumbnails.map((src, index) => (
+                    <img key={index} src={src} alt="" className="w-12 h-12 object-cover rounded-md bg-slate-200 dark:bg-slate-700" />
+                )) : (
+                    <div className="w-12 h-12 rounded-md bg-slate-200 dark:bg-slate-700 flex items-center justify-center">
+                        <PhotoIcon className="w-6 h-6 text-slate-400" />
+                    </div>
+                )}
+            </div>
+            <div className="flex-grow min-w-0">
+                <p className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+                    {formatDateTime(new Date(record.createdAt))}
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${REVIEW_STATUS_STYLES[reviewStatus]}`}>
+                        {t.review.status[reviewStatus]}
+                    </span>
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                    {feet.map(foot => interpolate(t.history.footSummary, {
+                        foot: t.common.footShort[foot],
+                        archType: t.common.archTypes[record.results[foot]!.archType],
+                    })).join(' · ')}
+                    {' · '}{plural(locale, t.history.issues, issueCount)}
+                </p>
+                <p className="text-xs text-slate-400 dark:text-slate-500 truncate">
+                    {interpolate(t.history.provider, { provider: record.provider, version: record.promptVersion })}
+                </p>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+                <button
+                    onClick={onOpen}
+                    disabled={isActive}
+                    className="px-3 py-1.5 text-xs font-semibold rounded-md bg-sky-600 text-white hover:bg-sky-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors"
+                >
+                    {isActive ? t.history.viewing : t.history.open}
+                </button>
+                <button
+                    onClick={onDelete}
+                    className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900/30 transition-colors"
+                    aria-label={t.history.remove}
+                >
+                    <TrashIcon className="w-4 h-4" />
+                </button>
+            </div>
+        </li>
+    );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ records, activeRecordId, onOpen, onDelete, selectedIds, onToggleSelect, onCompare }) => {
+    const { t, formatDateTime } = useI18n();
+    const handleDelete = (record: AnalysisRecord) => {
+        if (window.confirm(interpolate(t.history.confirmRemove, { date: formatDateTime(new Date(record.createdAt)) }))) {
+            onDelete(record.id);
+        }
+    };
+
+    return (
+        <section className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg p-6">
+            <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                    <h2 className="text-xl font-bold text-slate-800 dark:text-white mb-1 flex items-center">
+                        <ClockIcon className="w-5 h-5 mr-2 text-sky-500" />
+                        {t.history.title}
+                    </h2>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">
+                        {t.history.intro}
+                    </p>
+                </div>
+                <button
+                    onClick={onCompare}
+                    disabled={selectedIds.length !== COMPARE_COUNT}
+                    className="flex-shrink-0 px-4 py-2 text-sm font-semibold rounded-lg bg-sky-600 text-white hover:bg-sky-700 disabled:bg-slate-400 disabled:dark:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+                >
+                    {interpolate(t.history.compare, { selected: selectedIds.length, total: COMPARE_COUNT })}
+                </button>
+            </div>
+            {records.length > 0 ? (
+                <ul className="space-y-2">
+                    {records.map(record => (
+                        <HistoryEntry
+                            key={record.id}
+                            record={record}
+                            isActive={record.id === activeRecordId}
+                            isSelected={selectedIds.includes(record.id)}
+                            canSelect={selectedIds.length < COMPARE_COUNT}
+                            onOpen={() => onOpen(record)}
+                            onDelete={() => handleDelete(record)}
+                            onToggleSelect={() => onToggleSelect(record.id)}
+                        />
+                    ))}
+                </ul>
+            ) : (
+                <p className="text-sm text-slate-500 dark:text-slate-400">{t.history.empty}</p>
+            )}
+        </section>
+    );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,56 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale, detectLocale, saveLocale } from '../services/i18n';
+import en, { Messages } from '../locales/en';
+import es from '../locales/es';
+import fr from '../locales/fr';
+
+const MESSAGES: Record<Locale, Messages> = { en, es, fr };
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Messages;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  // A 0–1 score as a whole percentage, e.g. 0.87 gives "87 %" in French.
+  formatPercent: (score: number) => string;
+  formatDate: (date: Date | number) => string;
+  formatDateTime: (date: Date | number) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    const value = useMemo<I18nContextValue>(() => {
+        const dateFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'medium' });
+        const dateTimeFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' });
+        const percentFormat = new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 0 });
+        return {
+            locale,
+            setLocale: (next: Locale) => {
+                saveLocale(next);
+                setLocaleState(next);
+            },
+            t: MESSAGES[locale],
+            formatNumber: (number, options) => new Intl.NumberFormat(locale, options).format(number),
+            formatPercent: score => percentFormat.format(score),
+            formatDate: date => dateFormat.format(date),
+            formatDateTime: date => dateTimeFormat.format(date),
+        };
+    }, [locale]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+    const context = useContext(I18nContext);
+    if (!context) {
+        throw new Error("useI18n must be used inside an I18nProvider");
+    }
+    return context;
+};
@@ -1,93 +1,148 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 // FIX: Imported `CheckCircleIcon` to resolve the "Cannot find name" error.
-import { UploadIcon, XIcon, TagIcon, CheckCircleIcon } from './IconComponents';
+import { UploadIcon, XIcon, TagIcon, CheckCircleIcon, WarningIcon } from './IconComponents';
+import { BilateralCaptures, FootSide, FootView, ViewClassification } from '../types';
+import QualityBadge from './QualityBadge';
+import { preprocessImage, formatBytes } from '../services/imageUtils';
+import { interpolate } from '../services/i18n';
+import { useI18n } from './I18nProvider';
 
-type ViewKey = 'top' | 'side' | 'back';
+type ViewKey = FootView;
 type ImageFile = {
     id: string;
     file: File;
     preview: string;
+    // Size of the photo as selected, before preprocessing.
+    originalBytes: number;
 }
-type Tags = Record<ViewKey, string | null>; // Maps viewKey to image ID
+type Tags = Record<FootSide, Record<ViewKey, string | null>>; // Maps foot and viewKey to image ID
+type Suggestion =
+    | { status: 'pending' }
+    | { status: 'failed' }
+    | { status: 'done'; result: ViewClassification };
 
 interface ImageUploaderProps {
-  onImagesChange: (files: { top: File | null; side: File | null; back: File | null; }) => void;
+  onImagesChange: (files: BilateralCaptures) => void;
   isAnalyzing: boolean;
+  classifyView: (file: File) => Promise<ViewClassification>;
 }
 
-const VIEW_CONFIG: Record<ViewKey, { label: string; description: string }> = {
-    top: { label: "Top", description: "From directly above your foot." },
-    side: { label: "Side (Arch)", description: "Inside of your foot, showing the arch." },
-    back: { label: "Back (Heel)", description: "From directly behind your heel." },
-};
+// Three views and an optional footprint for each foot.
+const MAX_IMAGES = 8;
+// Below this confidence a suggestion is shown but never used to flag a mis-tag.
+const MISTAG_CONFIDENCE = 60;
+
+const FEET: FootSide[] = ['left', 'right'];
+const VIEWS: ViewKey[] = ['top', 'side', 'back', 'footprint'];
+
+const emptyTags = (): Tags => ({
+    left: { top: null, side: null, back: null, footprint: null },
+    right: { top: null, side: null, back: null, footprint: null },
+});
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImagesChange, isAnalyzing }) => {
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onImagesChange, isAnalyzing, classifyView }) => {
+    const { t, formatPercent } = useI18n();
     const [imageFiles, setImageFiles] = useState<ImageFile[]>([]);
-    const [tags, setTags] = useState<Tags>({ top: null, side: null, back: null });
+    const [tags, setTags] = useState<Tags>(emptyTags);
+    const [suggestions, setSuggestions] = useState<Record<string, Suggestion>>({});
     const [dragActive, setDragActive] = useState(false);
+    const [isProcessing, setIsProcessing] = useState(false);
+    // Names of the photos in the last selection that could not be read.
+    const [failedFiles, setFailedFiles] = useState<string[]>([]);
     const inputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
-        const taggedFiles: { top: File | null; side: File | null; back: File | null; } = {
-            top: null,
-            side: null,
-            back: null,
+        const taggedFiles: BilateralCaptures = {
+            left: { top: null, side: null, back: null, footprint: null },
+            right: { top: null, side: null, back: null, footprint: null },
         };
-        (Object.keys(tags) as ViewKey[]).forEach(viewKey => {
-            const imageId = tags[viewKey];
-            if (imageId) {
-                const imageFile = imageFiles.find(img => img.id === imageId);
-                if (imageFile) {
-                    taggedFiles[viewKey] = imageFile.file;
+        (Object.keys(tags) as FootSide[]).forEach(foot => {
+            (Object.keys(tags[foot]) as ViewKey[]).forEach(viewKey => {
+                const imageId = tags[foot][viewKey];
+                if (imageId) {
+                    const imageFile = imageFiles.find(img => img.id === imageId);
+                    if (imageFile) {
+                        taggedFiles[foot][viewKey] = imageFile.file;
+                    }
                 }
-            }
+            });
         });
         onImagesChange(taggedFiles);
     }, [tags, imageFiles, onImagesChange]);
 
-    const handleFiles = useCallback((files: FileList | null) => {
+    const handleFiles = useCallback(async (files: FileList | null) => {
         if (!files) return;
-        const newFiles: ImageFile[] = Array.from(files)
+        const accepted = Array.from(files)
             .filter(file => file.type.startsWith('image/'))
-            .slice(0, 3 - imageFiles.length) // Limit to 3 total images
-            .map(file => ({
-                id: `${file.name}-${file.lastModified}-${Math.random()}`,
-                file,
-                preview: URL.createObjectURL(file),
-            }));
-
-        setImageFiles(prev => [...prev, ...newFiles]);
-    }, [imageFiles.length]);
+            .slice(0, MAX_IMAGES - imageFiles.length); // Limit to 8 total images
+        if (accepted.length === 0) return;
+
+        // Orient, downscale and strip metadata before anything else sees the photos. A photo
+        // that cannot be decoded is reported without losing the rest of the selection.
+        setIsProcessing(true);
+        setFailedFiles([]);
+        const outcomes = await Promise.allSettled(accepted.map(file => preprocessImage(file)));
+        const newFiles: ImageFile[] = [];
+        const failed: string[] = [];
+        outcomes.forEach((outcome, index) => {
+            const original = accepted[index];
+            if (outcome.status === 'rejected') {
+                console.error(`Error preprocessing ${original.name}:`, outcome.reason);
+                failed.push(original.name);
+                return;
+            }
+            newFiles.push({
+                id: `${original.name}-${original.lastModified}-${Math.random()}`,
+                file: outcome.value.file,
+                preview: URL.createObjectURL(outcome.value.file),
+                originalBytes: outcome.value.originalBytes,
+            });
+        });
+        setImageFiles(prev => [...prev, ...newFiles].slice(0, MAX_IMAGES));
+        newFiles.forEach(image => suggestTags(image));
+        setFailedFiles(failed);
+        setIsProcessing(false);
+    }, [imageFiles.length, classifyView]);
+
+    // Ask the provider which foot and view the photo shows; the result is only a suggestion.
+    const suggestTags = (image: ImageFile) => {
+        setSuggestions(prev => ({ ...prev, [image.id]: { status: 'pending' } }));
+        classifyView(image.file)
+            .then(result => setSuggestions(prev => ({ ...prev, [image.id]: { status: 'done', result } })))
+            .catch(err => {
+                console.error("Error classifying image:", err);
+                setSuggestions(prev => ({ ...prev, [image.id]: { status: 'failed' } }));
+            });
+    };
     
     const removeImage = (idToRemove: string) => {
         setImageFiles(prev => prev.filter(img => img.id !== idToRemove));
-        setTags(prevTags => {
-            const newTags = { ...prevTags };
-            (Object.keys(newTags) as ViewKey[]).forEach(key => {
-                if (newTags[key] === idToRemove) {
-                    newTags[key] = null;
+        setTags(prevTags => clearImageTags(prevTags, idToRemove));
+        setSuggestions(({ [idToRemove]: _removed, ...rest }) => rest);
+    };
+
+    // Returns a copy of the tags with the given image no longer assigned to any slot.
+    const clearImageTags = (prevTags: Tags, imageId: string): Tags => {
+        const newTags: Tags = { left: { ...prevTags.left }, right: { ...prevTags.right } };
+        (Object.keys(newTags) as FootSide[]).forEach(foot => {
+            (Object.keys(newTags[foot]) as ViewKey[]).forEach(key => {
+                if (newTags[foot][key] === imageId) {
+                    newTags[foot][key] = null;
                 }
             });
-            return newTags;
         });
+        return newTags;
     };
     
-    const handleTag = (imageId: string, viewKey: ViewKey) => {
+    const handleTag = (imageId: string, foot: FootSide, viewKey: ViewKey) => {
         setTags(prev => {
-            const newTags = { ...prev };
-            // Untag if it's already tagged with this view
-            if (newTags[viewKey] === imageId) {
-                newTags[viewKey] = null;
-            } else {
-                // Clear this tag from any other image
-                (Object.keys(newTags) as ViewKey[]).forEach(key => {
-                    if (newTags[key] === imageId) {
-                        newTags[key] = null;
-                    }
-                });
-                // Assign the new tag
-                newTags[viewKey] = imageId;
+            // Untag if it's already tagged with this foot and view
+            if (prev[foot][viewKey] === imageId) {
+                return { ...prev, [foot]: { ...prev[foot], [viewKey]: null } };
             }
+            // Clear this image from any other slot, then assign the new tag
+            const newTags = clearImageTags(prev, imageId);
+            newTags[foot][viewKey] = imageId;
             return newTags;
         });
     };
@@ -108,53 +163,136 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImagesChange, isAnalyzi
         if (e.dataTransfer.files) handleFiles(e.dataTransfer.files);
     };
 
+    // Returns the foot and view this image is currently tagged with, if any.
+    const findTag = (imageId: string): { foot: FootSide; view: ViewKey } | null => {
+        for (const foot of Object.keys(tags) as FootSide[]) {
+            for (const view of Object.keys(tags[foot]) as ViewKey[]) {
+                if (tags[foot][view] === imageId) return { foot, view };
+            }
+        }
+        return null;
+    };
+
+    const SuggestionNotice: React.FC<{ image: ImageFile }> = ({ image }) => {
+        const suggestion = suggestions[image.id];
+        if (!suggestion || suggestion.status === 'failed') return null;
+        if (suggestion.status === 'pending') {
+            return <p className="text-xs text-slate-500 dark:text-slate-400">{t.uploader.detecting}</p>;
+        }
+
+        const { result } = suggestion;
+        if (!result.isFoot) {
+            return (
+                <p className="text-xs font-semibold text-red-600 dark:text-red-400">
+                    {t.uploader.notAFoot} {result.reason}
+                </p>
+            );
+        }
+        if (result.view === 'unknown' || result.foot === 'unknown') {
+            return <p className="text-xs text-slate-500 dark:text-slate-400">{t.uploader.undetected}</p>;
+        }
+
+        const { foot, view } = result;
+        const current = findTag(image.id);
+        const label = `${t.common.footShort[foot]} · ${t.uploader.views[view].label}`;
+        if (current?.foot === foot && current.view === view) {
+            return (
+                <p className="text-xs text-green-700 dark:text-green-400 flex items-center gap-1">
+                    <CheckCircleIcon className="w-3.5 h-3.5" /> {t.uploader.tagMatches}
+                </p>
+            );
+        }
+
+        const slotTaken = tags[foot][view] !== null;
+        const isMistag = current !== null && result.confidence >= MISTAG_CONFIDENCE;
+        return (
+            <div className={`flex items-center justify-between gap-2 px-2 py-1.5 rounded-md text-xs ${
+                isMistag
+                ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300'
+                : 'bg-sky-50 dark:bg-sky-900/20 text-sky-800 dark:text-sky-300'
+            }`}>
+                <span title={result.reason}>
+                    {isMistag ? t.uploader.possibleMistag : t.uploader.looksLike}{' '}
+                    <span className="font-semibold">{label}</span> ({formatPercent(result.confidence / 100)})
+                </span>
+                <button
+                    onClick={() => handleTag(image.id, foot, view)}
+                    disabled={slotTaken || isAnalyzing}
+                    title={slotTaken ? t.uploader.slotTaken : undefined}
+                    className="px-2 py-0.5 font-semibold rounded bg-white dark:bg-slate-700 hover:bg-slate-100 dark:hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {t.uploader.accept}
+                </button>
+            </div>
+        );
+    };
+
     const ImageThumbnail: React.FC<{ image: ImageFile }> = ({ image }) => {
-        const claimedView = (Object.keys(tags) as ViewKey[]).find(key => tags[key] === image.id);
+        const isClaimed = (foot: FootSide, key: ViewKey) => tags[foot][key] === image.id;
         
         return (
             <div className="flex flex-col gap-3">
                 <div className="relative aspect-square bg-slate-100 dark:bg-slate-700/50 rounded-lg">
-                    <img src={image.preview} alt="Foot preview" className="w-full h-full object-contain rounded-lg"/>
+                    <img src={image.preview} alt={t.uploader.previewAlt} className="w-full h-full object-contain rounded-lg"/>
                     <button 
                         onClick={() => removeImage(image.id)} 
                         disabled={isAnalyzing}
                         className="absolute top-2 right-2 p-1.5 bg-black/50 text-white rounded-full hover:bg-black/70 transition-colors"
-                        aria-label="Remove image"
+                        aria-label={t.uploader.removeImage}
                     >
                         <XIcon className="w-4 h-4" />
                     </button>
                 </div>
-                <div className="flex justify-center gap-2">
-                    {(Object.keys(VIEW_CONFIG) as ViewKey[]).map(key => {
-                        const isTagged = claimedView === key;
-                        const isDisabled = tags[key] !== null && tags[key] !== image.id;
-                        return (
-                            <button
-                                key={key}
-                                onClick={() => handleTag(image.id, key)}
-                                disabled={isDisabled || isAnalyzing}
-                                className={`px-3 py-1.5 text-xs font-semibold rounded-md flex items-center gap-1.5 transition-colors ${
-                                    isTagged 
-                                    ? 'bg-sky-600 text-white' 
-                                    : 'bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-600'
-                                } ${isDisabled ? 'opacity-50 cursor-not-allowed' : ''}`}
-                            >
-                                {isTagged && <CheckCircleIcon className="w-4 h-4" />}
-                                {VIEW_CONFIG[key].label}
-                            </button>
-                        )
-                    })}
-                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {interpolate(t.uploader.optimized, { from: formatBytes(image.originalBytes), to: formatBytes(image.file.size) })}
+                    {image.originalBytes > image.file.size && ` ${interpolate(t.uploader.saving, { percent: formatPercent(1 - image.file.size / image.originalBytes) })}`}
+                </p>
+                <QualityBadge file={image.file} />
+                <SuggestionNotice image={image} />
+                {FEET.map(foot => (
+                    <div key={foot} className="flex items-center justify-center gap-2">
+                        <span className="w-10 text-xs font-semibold text-slate-500 dark:text-slate-400">{t.common.footShort[foot]}</span>
+                        {VIEWS.map(key => {
+                            const isTagged = isClaimed(foot, key);
+                            const isDisabled = tags[foot][key] !== null && !isTagged;
+                            return (
+                                <button
+                                    key={key}
+                                    onClick={() => handleTag(image.id, foot, key)}
+                                    disabled={isDisabled || isAnalyzing}
+                                    aria-label={interpolate(t.uploader.tagLabel, { foot: t.common.footShort[foot], view: t.uploader.views[key].label })}
+                                    className={`px-2 py-1 text-xs font-semibold rounded-md flex items-center gap-1 transition-colors ${
+                                        isTagged 
+                                        ? 'bg-sky-600 text-white' 
+                                        : 'bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-600'
+                                    } ${isDisabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+                                >
+                                    {isTagged && <CheckCircleIcon className="w-3.5 h-3.5" />}
+                                    {t.uploader.views[key].label}
+                                </button>
+                            )
+                        })}
+                    </div>
+                ))}
             </div>
         )
     };
     
     return (
         <div className="bg-white dark:bg-slate-800 p-6 rounded-b-2xl shadow-lg w-full h-full flex flex-col min-h-[450px]">
-            <h2 className="text-xl font-bold text-slate-800 dark:text-white mb-2">Upload Foot Images</h2>
+            <h2 className="text-xl font-bold text-slate-800 dark:text-white mb-2">{t.uploader.title}</h2>
             <p className="text-slate-600 dark:text-slate-400 mb-4 text-sm">
-                Upload 1-3 photos of your foot. For best results, tag each photo with its view.
+                {t.uploader.intro}
             </p>
+            {failedFiles.length > 0 && (
+                <div className="mb-4 flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300" role="alert">
+                    <WarningIcon className="w-5 h-5 flex-shrink-0" />
+                    <span className="flex-grow">{interpolate(t.uploader.unreadable, { files: failedFiles.join(', ') })}</span>
+                    <button onClick={() => setFailedFiles([])} className="flex-shrink-0" aria-label={t.uploader.dismiss}>
+                        <XIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
             {imageFiles.length === 0 ? (
                 <div
                     className={`flex-grow border-2 border-dashed rounded-lg text-center transition-all duration-300 flex flex-col items-center justify-center ${dragActive ? 'border-sky-500 bg-sky-50 dark:bg-sky-900/50' : 'border-slate-300 dark:border-slate-600'} ${isAnalyzing ? 'cursor-not-allowed' : 'cursor-pointer'}`}
@@ -173,9 +311,12 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImagesChange, isAnalyzi
                     <div className="flex flex-col items-center justify-center space-y-3 p-4">
                         <UploadIcon className="w-10 h-10 text-slate-400 dark:text-slate-500" />
                         <p className="text-slate-600 dark:text-slate-400">
-                            <span className="font-semibold text-sky-600 dark:text-sky-400">Click to upload</span> or drag and drop
+                            <span className="font-semibold text-sky-600 dark:text-sky-400">{t.uploader.clickToUpload}</span> {t.uploader.orDragAndDrop}
                         </p>
-                        <p className="text-xs text-slate-500 dark:text-slate-400">PNG, JPG or WEBP (max 3 images)</p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">{interpolate(t.uploader.fileTypes, { count: MAX_IMAGES })}</p>
+                        {isProcessing && (
+                            <p className="text-xs font-semibold text-sky-600 dark:text-sky-400">{t.uploader.processing}</p>
+                        )}
                     </div>
                 </div>
             ) : (
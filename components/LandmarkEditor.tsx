@@ -0,0 +1,109 @@
+import React, { useState, useRef } from 'react';
+import { Point } from '../types';
+
+export interface LandmarkDefinition<K extends string> {
+  key: K;
+  label: string;
+}
+
+interface LandmarkEditorProps<K extends string> {
+  src: string;
+  alt: string;
+  landmarks: LandmarkDefinition<K>[];
+  points: Partial<Record<K, Point>>;
+  onChange: (points: Partial<Record<K, Point>>) => void;
+  // Pairs of landmarks joined by a line once both are placed.
+  segments?: [K, K][];
+  disabled?: boolean;
+}
+
+// Places landmarks on an image in order with clicks; placed landmarks can be dragged.
+// Points are stored in the image's own pixel space.
+const LandmarkEditor = <K extends string,>({ src, alt, landmarks, points, onChange, segments = [], disabled }: LandmarkEditorProps<K>) => {
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    const [dragging, setDragging] = useState<K | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+
+    const nextLandmark = landmarks.find(landmark => !points[landmark.key]);
+
+    const toImagePoint = (e: React.PointerEvent): Point | null => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!rect || !size) return null;
+        return {
+            x: Math.round(((e.clientX - rect.left) / rect.width) * size.width),
+            y: Math.round(((e.clientY - rect.top) / rect.height) * size.height),
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (disabled || dragging || !nextLandmark) return;
+        const point = toImagePoint(e);
+        if (point) onChange({ ...points, [nextLandmark.key]: point });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!dragging) return;
+        const point = toImagePoint(e);
+        if (point) onChange({ ...points, [dragging]: point });
+    };
+
+    const startDrag = (e: React.PointerEvent, key: K) => {
+        if (disabled) return;
+        e.stopPropagation();
+        svgRef.current?.setPointerCapture(e.pointerId);
+        setDragging(key);
+    };
+
+    const radius = size ? Math.max(size.width, size.height) * 0.012 : 0;
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="relative bg-slate-100 dark:bg-slate-700/50 rounded-lg overflow-hidden select-none touch-none">
+                <img
+                    src={src}
+                    alt={alt}
+                    className="w-full h-auto block"
+                    onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                />
+                {size && (
+                    <svg
+                        ref={svgRef}
+                        viewBox={`0 0 ${size.width} ${size.height}`}
+                        className={`absolute inset-0 w-full h-full ${nextLandmark && !disabled ? 'cursor-crosshair' : ''}`}
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={() => setDragging(null)}
+                    >
+                        {segments.map(([from, to]) => {
+                            const a = points[from];
+                            const b = points[to];
+                            if (!a || !b) return null;
+                            return <line key={`${from}-${to}`} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#0ea5e9" strokeWidth={radius / 3} />;
+                        })}
+                        {landmarks.map((landmark, index) => {
+                            const point = points[landmark.key];
+                            if (!point) return null;
+                            return (
+                                <g key={landmark.key} onPointerDown={(e) => startDrag(e, landmark.key)} className={disabled ? '' : 'cursor-move'}>
+                                    <circle cx={point.x} cy={point.y} r={radius} fill="#f59e0b" stroke="white" strokeWidth={radius / 4} />
+                                    <text x={point.x + radius * 1.4} y={point.y - radius * 1.4} fontSize={radius * 2} fill="white" stroke="black" strokeWidth={radius / 8}>
+                                        {index + 1}
+                                    </text>
+                                </g>
+                            );
+                        })}
+                    </svg>
+                )}
+            </div>
+            <ol className="text-xs text-slate-600 dark:text-slate-400 grid grid-cols-2 gap-x-3 gap-y-1">
+                {landmarks.map((landmark, index) => (
+                    <li key={landmark.key} className={landmark.key === nextLandmark?.key ? 'font-semibold text-sky-600 dark:text-sky-400' : points[landmark.key] ? '' : 'opacity-60'}>
+                        {index + 1}. {landmark.label}
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+export default LandmarkEditor;
@@ -1,34 +1,56 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { CameraIcon, PhotoIcon, RefreshIcon, WarningIcon, FootTopIcon, FootSideIcon, FootBackIcon } from './IconComponents';
+import { CameraIcon, PhotoIcon, RefreshIcon, WarningIcon, FootTopIcon, FootSideIcon, FootBackIcon, FootprintIcon } from './IconComponents';
+import { BilateralCaptures, FootSide, FootView } from '../types';
+import QualityBadge from './QualityBadge';
+import { preprocessFrame } from '../services/imageUtils';
+import { sampleFrame, FrameState, SAMPLE_WIDTH, SAMPLE_HEIGHT, SAMPLE_INTERVAL_MS } from '../services/autoCapture';
+import { interpolate } from '../services/i18n';
+import { useI18n } from './I18nProvider';
 
-type ViewKey = 'top' | 'side' | 'back';
-type Step = 'idle' | ViewKey | 'done' | 'error';
+type ViewKey = FootView;
+type ScanStep = `${FootSide}-${ViewKey}`;
+type Step = 'idle' | ScanStep | 'done' | 'error';
 
 interface LiveScannerProps {
-  onImagesChange: (files: { top: File | null; side: File | null; back: File | null; }) => void;
+  onImagesChange: (files: BilateralCaptures) => void;
   isAnalyzing: boolean;
 }
 
-const blobToFile = (theBlob: Blob, fileName: string): File => {
-  return new File([theBlob], fileName, {
-    lastModified: new Date().getTime(),
-    type: theBlob.type,
-  });
-};
+// Both feet are scanned in turn, left first. The footprint is optional and is only
+// captured on its own from the summary.
+const SCAN_ORDER: ScanStep[] = ['left-top', 'left-side', 'left-back', 'right-top', 'right-side', 'right-back'];
+
+const isScanStep = (step: Step): step is ScanStep => step !== 'idle' && step !== 'done' && step !== 'error';
+
+const FEET: FootSide[] = ['left', 'right'];
+const VIEWS: ViewKey[] = ['top', 'side', 'back', 'footprint'];
 
-const STEPS_CONFIG: Record<ViewKey, { title: string; description: string; }> = {
-    top: { title: 'Top View', description: 'Position your foot to match the outline from above.' },
-    side: { title: 'Side View (Arch)', description: 'Show the inside arch of your foot.' },
-    back: { title: 'Back View (Heel)', description: 'Show the back of your heel.' },
+const parseStep = (step: ScanStep): { foot: FootSide; view: ViewKey } => {
+    const [foot, view] = step.split('-') as [FootSide, ViewKey];
+    return { foot, view };
 };
 
-const SCAN_GUIDES: Record<ViewKey, { title: string; Icon: React.FC<{ className?: string }> }> = {
-  top: { title: 'Top View', Icon: FootTopIcon },
-  side: { title: 'Side View (Arch)', Icon: FootSideIcon },
-  back: { title: 'Back View (Heel)', Icon: FootBackIcon },
+const emptyCaptures = (): BilateralCaptures => ({
+    left: { top: null, side: null, back: null, footprint: null },
+    right: { top: null, side: null, back: null, footprint: null },
+});
+
+type Previews = Record<FootSide, Record<ViewKey, string | null>>;
+
+// Auto-capture: time to reposition after each step, then how long the frame must stay
+// steady and sharp (shown as a countdown) before the photo is taken.
+const AUTO_SETTLE_MS = 2500;
+const AUTO_COUNTDOWN_SECONDS = 3;
+
+const SCAN_ICONS: Record<ViewKey, React.FC<{ className?: string }>> = {
+  top: FootTopIcon,
+  side: FootSideIcon,
+  back: FootBackIcon,
+  footprint: FootprintIcon,
 };
 
 const ScanAnimation: React.FC = () => {
+    const { t } = useI18n();
     const [currentView, setCurrentView] = useState<ViewKey>('top');
     const [isFading, setIsFading] = useState(false);
     const views: ViewKey[] = ['top', 'side', 'back'];
@@ -48,7 +70,8 @@ const ScanAnimation: React.FC = () => {
         return () => clearInterval(interval);
     }, []);
 
-    const { title, Icon } = SCAN_GUIDES[currentView];
+    const Icon = SCAN_ICONS[currentView];
+    const { title } = t.scanner.steps[currentView];
 
     return (
         <div className="flex flex-col items-center justify-center h-48 w-48 rounded-full bg-slate-100 dark:bg-slate-700/50 transition-colors duration-300">
@@ -60,23 +83,57 @@ const ScanAnimation: React.FC = () => {
     );
 };
 
-const PreviewThumbnail: React.FC<{ view: ViewKey; src: string | null }> = ({ view, src }) => (
-    <div className="flex-1 text-center">
-        <div className="aspect-square bg-slate-100 dark:bg-slate-700/50 rounded-lg flex items-center justify-center">
-            {src ? <img src={src} alt={`${view} preview`} className="w-full h-full object-contain rounded-lg" /> : <PhotoIcon className="w-8 h-8 text-slate-400" />}
+const PreviewThumbnail: React.FC<{
+    view: ViewKey;
+    src: string | null;
+    file: File | null;
+    onRetake: () => void;
+    disabled: boolean;
+}> = ({ view, src, file, onRetake, disabled }) => {
+    const { t } = useI18n();
+    return (
+        <div className="flex-1 text-center">
+            <div className="aspect-square bg-slate-100 dark:bg-slate-700/50 rounded-lg flex items-center justify-center">
+                {src ? <img src={src} alt={interpolate(t.scanner.previewAlt, { view: t.scanner.steps[view].title })} className="w-full h-full object-contain rounded-lg" /> : <PhotoIcon className="w-8 h-8 text-slate-400" />}
+            </div>
+            <p className="mt-2 text-sm font-semibold text-slate-600 dark:text-slate-300">{t.scanner.steps[view].title}</p>
+            {file && (
+                <div className="mt-1 flex flex-col items-center gap-1 text-left">
+                    <QualityBadge file={file} />
+                    <button onClick={onRetake} disabled={disabled} className="text-xs font-semibold text-sky-600 hover:underline disabled:text-slate-400">
+                        {t.scanner.retake}
+                    </button>
+                </div>
+            )}
+            {!file && view === 'footprint' && (
+                <button onClick={onRetake} disabled={disabled} className="mt-1 text-xs font-semibold text-sky-600 hover:underline disabled:text-slate-400">
+                    {t.scanner.captureOptional}
+                </button>
+            )}
         </div>
-        <p className="mt-2 text-sm font-semibold text-slate-600 dark:text-slate-300">{STEPS_CONFIG[view].title}</p>
-    </div>
-);
+    );
+};
 
 const LiveScanner: React.FC<LiveScannerProps> = ({ onImagesChange, isAnalyzing }) => {
+    const { t } = useI18n();
     const [step, setStep] = useState<Step>('idle');
     const [stream, setStream] = useState<MediaStream | null>(null);
-    const [previews, setPreviews] = useState<Record<ViewKey, string | null>>({ top: null, side: null, back: null });
+    // When retaking a single view, return to the summary after the capture.
+    const [isRetake, setIsRetake] = useState(false);
+    const [autoCapture, setAutoCapture] = useState(false);
+    const [autoStatus, setAutoStatus] = useState<FrameState | 'settling'>('settling');
+    const [countdown, setCountdown] = useState<number | null>(null);
+    // Set while a frame is being encoded, and when encoding it failed.
+    const [isCapturing, setIsCapturing] = useState(false);
+    const [captureError, setCaptureError] = useState<string | null>(null);
+    const [previews, setPreviews] = useState<Previews>({
+        left: { top: null, side: null, back: null, footprint: null },
+        right: { top: null, side: null, back: null, footprint: null },
+    });
     
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const filesRef = useRef<Record<ViewKey, File | null>>({ top: null, side: null, back: null });
+    const filesRef = useRef<BilateralCaptures>(emptyCaptures());
 
     const stopStream = useCallback(() => {
         if (stream) {
@@ -85,7 +142,7 @@ const LiveScanner: React.FC<LiveScannerProps> = ({ onImagesChange, isAnalyzing }
         }
     }, [stream]);
 
-    const startScan = async () => {
+    const startScan = async (firstStep: ScanStep = SCAN_ORDER[0]) => {
         try {
             const mediaStream = await navigator.mediaDevices.getUserMedia({ 
                 video: { 
@@ -95,7 +152,7 @@ const LiveScanner: React.FC<LiveScannerProps> = ({ onImagesChange, isAnalyzing }
                 } 
             });
             setStream(mediaStream);
-            setStep('top');
+            setStep(firstStep);
         } catch (err) {
             console.error("Error accessing camera:", err);
             setStep('error');
@@ -127,71 +184,158 @@ const LiveScanner: React.FC<LiveScannerProps> = ({ onImagesChange, isAnalyzing }
         };
     }, []);
 
-    const handleCapture = useCallback(() => {
-        if (!videoRef.current || !canvasRef.current || step === 'idle' || step === 'done' || step === 'error') return;
+    // Resolves to whether a photo was taken.
+    const handleCapture = useCallback(async (): Promise<boolean> => {
+        if (!videoRef.current || !canvasRef.current || !isScanStep(step) || isCapturing) return false;
 
         const video = videoRef.current;
         const canvas = canvasRef.current;
 
         // Safety check to ensure video is ready
-        if (video.videoWidth === 0 || video.videoHeight === 0) return;
+        if (video.videoWidth === 0 || video.videoHeight === 0) return false;
 
         canvas.width = video.videoWidth;
         canvas.height = video.videoHeight;
         canvas.getContext('2d')?.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
         
-        canvas.toBlob(blob => {
-            if (blob) {
-                const currentStep = step as ViewKey;
-                const file = blobToFile(blob, `${currentStep}_capture.jpg`);
-                
-                // Update previews
-                setPreviews(prev => ({ ...prev, [currentStep]: URL.createObjectURL(blob) }));
-                
-                // Update files ref and notify parent
-                filesRef.current[currentStep] = file;
-                onImagesChange({ ...filesRef.current });
-                
-                // Advance step
-                const nextStepOrder: ViewKey[] = ['top', 'side', 'back'];
-                const currentIndex = nextStepOrder.indexOf(currentStep);
-                
-                if (currentIndex < nextStepOrder.length - 1) {
-                    setStep(nextStepOrder[currentIndex + 1]);
-                } else {
-                    setStep('done');
-                    stopStream();
-                }
+        const { foot, view } = parseStep(step);
+        setIsCapturing(true);
+        setCaptureError(null);
+        let file: File;
+        try {
+            // Frames go through the same downscale and encode as uploaded photos.
+            file = await preprocessFrame(canvas, `${foot}_${view}_capture`);
+        } catch (err) {
+            console.error("Error capturing frame:", err);
+            setCaptureError(t.scanner.captureFailed);
+            return false;
+        } finally {
+            setIsCapturing(false);
+        }
+
+        // Update previews
+        setPreviews(prev => ({ ...prev, [foot]: { ...prev[foot], [view]: URL.createObjectURL(file) } }));
+
+        // Update files ref and notify parent
+        filesRef.current[foot][view] = file;
+        onImagesChange({ left: { ...filesRef.current.left }, right: { ...filesRef.current.right } });
+
+        // Advance step
+        const currentIndex = SCAN_ORDER.indexOf(step);
+
+        if (!isRetake && currentIndex < SCAN_ORDER.length - 1) {
+            setStep(SCAN_ORDER[currentIndex + 1]);
+        } else {
+            setIsRetake(false);
+            setStep('done');
+            stopStream();
+        }
+        return true;
+    }, [step, isRetake, isCapturing, onImagesChange, stopStream, t]);
+
+    // Keep the latest capture handler reachable from the sampling timer.
+    const captureRef = useRef(handleCapture);
+    captureRef.current = handleCapture;
+
+    // Hands-free mode: watch the video for a steady, sharp frame, count down, then capture.
+    useEffect(() => {
+        setCountdown(null);
+        if (!autoCapture || !isScanStep(step)) return;
+
+        const sampleCanvas = document.createElement('canvas');
+        sampleCanvas.width = SAMPLE_WIDTH;
+        sampleCanvas.height = SAMPLE_HEIGHT;
+        const context = sampleCanvas.getContext('2d', { willReadFrequently: true });
+        if (!context) return;
+
+        const startedAt = performance.now();
+        let previous: Float32Array | null = null;
+        let steadySince: number | null = null;
+        let isTakingPhoto = false;
+        setAutoStatus('settling');
+
+        const timer = setInterval(() => {
+            if (isTakingPhoto) return;
+            const video = videoRef.current;
+            if (!video || video.videoWidth === 0) return;
+            const now = performance.now();
+            if (now - startedAt < AUTO_SETTLE_MS) return;
+
+            const sample = sampleFrame(video, context, previous);
+            previous = sample.gray;
+            setAutoStatus(sample.state);
+
+            if (sample.state !== 'steady') {
+                steadySince = null;
+                setCountdown(null);
+                return;
             }
-        }, 'image/jpeg', 0.9);
-    }, [step, onImagesChange, stopStream]);
+
+            steadySince ??= now;
+            const remaining = AUTO_COUNTDOWN_SECONDS - (now - steadySince) / 1000;
+            if (remaining <= 0) {
+                // Sampling pauses during the capture; if it fails, the count starts again.
+                isTakingPhoto = true;
+                setCountdown(null);
+                captureRef.current().then(captured => {
+                    if (captured) return;
+                    isTakingPhoto = false;
+                    steadySince = null;
+                });
+            } else {
+                setCountdown(Math.ceil(remaining));
+            }
+        }, SAMPLE_INTERVAL_MS);
+
+        return () => clearInterval(timer);
+    }, [autoCapture, step]);
+
+    const handleRetake = (foot: FootSide, view: ViewKey) => {
+        setIsRetake(true);
+        startScan(`${foot}-${view}`);
+    };
 
     const handleReset = () => {
         stopStream();
+        setIsRetake(false);
+        setCaptureError(null);
         setStep('idle');
-        setPreviews({ top: null, side: null, back: null });
-        filesRef.current = { top: null, side: null, back: null };
-        onImagesChange({ top: null, side: null, back: null });
+        setPreviews({
+            left: { top: null, side: null, back: null, footprint: null },
+            right: { top: null, side: null, back: null, footprint: null },
+        });
+        filesRef.current = emptyCaptures();
+        onImagesChange(emptyCaptures());
     };
 
-    const isScanning = ['top', 'side', 'back'].includes(step);
+    const currentScan = isScanStep(step) ? parseStep(step) : null;
+    const stepIndex = isScanStep(step) ? SCAN_ORDER.indexOf(step) : -1;
 
     return (
         <div className="bg-white dark:bg-slate-800 rounded-b-2xl shadow-lg w-full h-full flex flex-col min-h-[450px]">
             {step === 'idle' && (
                 <div className="flex flex-col items-center justify-center text-center h-full p-6">
                     <ScanAnimation />
-                    <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mt-6">Live Foot Scan</h3>
-                    <p className="text-slate-500 dark:text-slate-400 mt-1 mb-6 max-w-xs">
-                        Follow the animated guide to capture three views of your foot using your camera.
+                    <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mt-6">{t.scanner.title}</h3>
+                    <p className="text-slate-500 dark:text-slate-400 mt-1 mb-4 max-w-xs">
+                        {t.scanner.intro}
                     </p>
+                    <label className="flex items-center gap-2 mb-6 text-sm text-slate-600 dark:text-slate-300">
+                        <input
+                            type="checkbox"
+                            checked={autoCapture}
+                            onChange={(e) => setAutoCapture(e.target.checked)}
+                            className="w-4 h-4 accent-sky-600"
+                        />
+                        {t.scanner.handsFree}
+                    </label>
                     <button
-                        onClick={startScan}
+                        onClick={() => startScan()}
                         disabled={isAnalyzing}
                         className="flex items-center justify-center px-6 py-3 text-base font-semibold text-white bg-sky-600 rounded-lg shadow-md hover:bg-sky-700 disabled:bg-slate-400 transition-all"
                     >
                         <CameraIcon className="w-5 h-5 mr-2" />
-                        Start Scan
+                        {t.scanner.start}
                     </button>
                 </div>
             )}
@@ -199,13 +343,13 @@ const LiveScanner: React.FC<LiveScannerProps> = ({ onImagesChange, isAnalyzing }
             {step === 'error' && (
                 <div className="flex flex-col items-center justify-center h-full text-center bg-red-50 dark:bg-red-900/20 rounded-b-2xl p-6">
                     <WarningIcon className="w-16 h-16 text-red-500 mb-4" />
-                    <h3 className="text-lg font-semibold text-red-800 dark:text-red-300">Camera Error</h3>
-                    <p className="text-red-600 dark:text-red-400 mt-1 max-w-md">Could not access camera. Please check your browser permissions and try again.</p>
-                    <button onClick={handleReset} className="mt-4 text-sm font-semibold text-sky-600 hover:underline">Try Again</button>
+                    <h3 className="text-lg font-semibold text-red-800 dark:text-red-300">{t.scanner.cameraError}</h3>
+                    <p className="text-red-600 dark:text-red-400 mt-1 max-w-md">{t.scanner.cameraErrorDetail}</p>
+                    <button onClick={handleReset} className="mt-4 text-sm font-semibold text-sky-600 hover:underline">{t.scanner.tryAgain}</button>
                 </div>
             )}
 
-            {isScanning && (
+            {currentScan && (
                 <div className="p-4 flex flex-col h-full">
                     <div className="flex-grow relative flex items-center justify-center bg-black rounded-lg overflow-hidden">
                         <video 
@@ -217,33 +361,64 @@ const LiveScanner: React.FC<LiveScannerProps> = ({ onImagesChange, isAnalyzing }
                         />
                         <canvas ref={canvasRef} className="hidden" />
                         <div className="absolute inset-0 flex items-center justify-center p-4 pointer-events-none">
-                            <div className="border-2 border-white/40 w-3/4 h-3/4 rounded-2xl opacity-70"></div>
+                            <div className={`border-2 w-3/4 h-3/4 rounded-2xl opacity-70 ${countdown !== null ? 'border-green-400' : 'border-white/40'}`}></div>
                         </div>
+                        {autoCapture && (
+                            <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none" aria-live="polite">
+                                {countdown !== null && (
+                                    <span className="text-7xl font-bold text-white drop-shadow-lg">{countdown}</span>
+                                )}
+                                <span className="absolute bottom-3 px-3 py-1 text-xs font-semibold rounded-full bg-black/60 text-white">
+                                    {t.scanner.autoStatus[autoStatus]}
+                                </span>
+                            </div>
+                        )}
                     </div>
                     <div className="text-center mt-4">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-sky-600 dark:text-sky-400">
+                            {t.common.feet[currentScan.foot]} · {stepIndex >= 0 ? interpolate(t.scanner.stepOf, { step: stepIndex + 1, total: SCAN_ORDER.length }) : t.scanner.optional}
+                        </p>
                         <h3 className="font-semibold text-slate-700 dark:text-slate-300">
-                            {STEPS_CONFIG[step as ViewKey].title}
+                            {t.scanner.steps[currentScan.view].title}
                         </h3>
                         <p className="text-sm text-slate-500 dark:text-slate-400">
-                            {STEPS_CONFIG[step as ViewKey].description}
+                            {t.scanner.steps[currentScan.view].description}
                         </p>
+                        {captureError && (
+                            <p className="mt-2 flex items-center justify-center gap-1 text-sm text-red-600 dark:text-red-400" role="alert">
+                                <WarningIcon className="w-4 h-4" />
+                                {captureError}
+                            </p>
+                        )}
                     </div>
                     <div className="mt-4 flex gap-4">
                         <button
                             onClick={handleReset}
                             disabled={isAnalyzing}
                             className="flex-shrink-0 flex items-center justify-center p-3 text-slate-600 dark:text-slate-300 bg-slate-200 dark:bg-slate-700 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 transition"
-                            aria-label="Reset Scan"
+                            aria-label={t.scanner.reset}
                         >
                             <RefreshIcon className="w-5 h-5" />
                         </button>
                         <button
-                            onClick={handleCapture}
+                            onClick={() => setAutoCapture(prev => !prev)}
                             disabled={isAnalyzing}
+                            className={`flex-shrink-0 px-4 py-3 text-sm font-semibold rounded-lg transition ${
+                                autoCapture
+                                    ? 'bg-green-600 text-white hover:bg-green-700'
+                                    : 'text-slate-600 dark:text-slate-300 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600'
+                            }`}
+                            aria-pressed={autoCapture}
+                        >
+                            {autoCapture ? t.scanner.autoOn : t.scanner.autoOff}
+                        </button>
+                        <button
+                            onClick={handleCapture}
+                            disabled={isAnalyzing || isCapturing}
                             className="flex-grow flex items-center justify-center px-6 py-3 font-semibold text-white bg-sky-600 rounded-lg shadow-md hover:bg-sky-700 disabled:bg-slate-400 transition"
                         >
                             <CameraIcon className="w-5 h-5 mr-2" />
-                            Capture
+                            {t.scanner.capture}
                         </button>
                     </div>
                 </div>
@@ -251,20 +426,32 @@ const LiveScanner: React.FC<LiveScannerProps> = ({ onImagesChange, isAnalyzing }
 
             {step === 'done' && (
                 <div className="p-6 flex flex-col justify-center items-center h-full">
-                    <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-4">Captures Complete!</h3>
-                    <div className="w-full flex gap-4 mb-6">
-                        <PreviewThumbnail view="top" src={previews.top} />
-                        <PreviewThumbnail view="side" src={previews.side} />
-                        <PreviewThumbnail view="back" src={previews.back} />
-                    </div>
-                    <p className="text-slate-500 dark:text-slate-400 text-sm text-center mb-6">Click "Analyze Foot" below to process the images, or retake them.</p>
+                    <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-4">{t.scanner.complete}</h3>
+                    {FEET.map(foot => (
+                        <div key={foot} className="w-full mb-4">
+                            <p className="text-sm font-semibold text-slate-600 dark:text-slate-300 mb-2">{t.common.feet[foot]}</p>
+                            <div className="w-full flex gap-4">
+                                {VIEWS.map(view => (
+                                    <PreviewThumbnail
+                                        key={view}
+                                        view={view}
+                                        src={previews[foot][view]}
+                                        file={filesRef.current[foot][view]}
+                                        onRetake={() => handleRetake(foot, view)}
+                                        disabled={isAnalyzing}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                    <p className="text-slate-500 dark:text-slate-400 text-sm text-center mt-2 mb-6">{t.scanner.completeHint}</p>
                     <button
                         onClick={handleReset}
                         disabled={isAnalyzing}
                         className="flex items-center justify-center px-6 py-3 font-semibold text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 rounded-lg shadow-sm hover:bg-slate-200 dark:hover:bg-slate-600 disabled:bg-slate-400 transition"
                     >
                         <RefreshIcon className="w-5 h-5 mr-2" />
-                        Retake Scans
+                        {t.scanner.retakeAll}
                     </button>
                 </div>
             )}
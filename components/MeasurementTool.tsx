@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Point } from '../types';
+import LandmarkEditor, { LandmarkDefinition } from './LandmarkEditor';
+import { useI18n } from './I18nProvider';
+import { RefreshIcon } from './IconComponents';
+
+export interface MeasurementStat {
+  label: string;
+  value: string;
+}
+
+interface MeasurementToolProps<K extends string, M> {
+  src: string;
+  alt: string;
+  landmarks: LandmarkDefinition<K>[];
+  segments: [K, K][];
+  initialPoints?: Record<K, Point>;
+  compute: (points: Record<K, Point>) => M;
+  // The figures shown under the photo once every landmark is placed.
+  describe: (measurement: M) => MeasurementStat[];
+  onSave: (measurement: M) => void;
+  onCancel: () => void;
+}
+
+// Landmark placement with a live preview of the computed measurement.
+const MeasurementTool = <K extends string, M,>({ src, alt, landmarks, segments, initialPoints, compute, describe, onSave, onCancel }: MeasurementToolProps<K, M>) => {
+    const { t } = useI18n();
+    const [points, setPoints] = useState<Partial<Record<K, Point>>>(initialPoints ?? {});
+    const isComplete = (value: Partial<Record<K, Point>>): value is Record<K, Point> =>
+        landmarks.every(landmark => value[landmark.key]);
+    let preview: M | null = null;
+    let computeFailed = false;
+    if (isComplete(points)) {
+        try {
+            preview = compute(points);
+        } catch {
+            computeFailed = true;
+        }
+    }
+
+    return (
+        <div className="space-y-3">
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+                {t.measurement.instructions}
+            </p>
+            <LandmarkEditor
+                src={src}
+                alt={alt}
+                landmarks={landmarks}
+                points={points}
+                onChange={setPoints}
+                segments={segments}
+            />
+            {computeFailed && <p className="text-xs font-semibold text-red-600 dark:text-red-400">{t.measurement.failed}</p>}
+            {preview && (
+                <div className="grid grid-cols-3 gap-2 text-center">
+                    {describe(preview).map(stat => (
+                        <div key={stat.label} className="p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700">
+                            <p className="text-xs text-slate-500 dark:text-slate-400">{stat.label}</p>
+                            <p className="font-bold text-slate-700 dark:text-slate-200">{stat.value}</p>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={() => setPoints({})}
+                    className="mr-auto flex items-center gap-1 px-3 py-1.5 text-xs font-semibold text-slate-600 dark:text-slate-300 rounded-md hover:bg-slate-100 dark:hover:bg-slate-700"
+                >
+                    <RefreshIcon className="w-4 h-4" />
+                    {t.measurement.reset}
+                </button>
+                <button
+                    onClick={onCancel}
+                    className="px-3 py-1.5 text-xs font-semibold text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 rounded-md hover:bg-slate-200 dark:hover:bg-slate-600"
+                >
+                    {t.common.cancel}
+                </button>
+                <button
+                    onClick={() => preview && onSave(preview)}
+                    disabled={!preview}
+                    className="px-3 py-1.5 text-xs font-semibold text-white bg-sky-600 rounded-md hover:bg-sky-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+                >
+                    {t.measurement.save}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default MeasurementTool;
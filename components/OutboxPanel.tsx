@@ -0,0 +1,84 @@
+import React from 'react';
+import { FootSide, OutboxEntry } from '../types';
+import { ClockIcon, RefreshIcon, TrashIcon } from './IconComponents';
+import { interpolate, plural } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface OutboxPanelProps {
+  entries: OutboxEntry[];
+  // The entry being analysed right now, if any.
+  sendingId: string | null;
+  onRetry: (entry: OutboxEntry) => void;
+  onRemove: (entry: OutboxEntry) => void;
+}
+
+const FOOT_SIDES: FootSide[] = ['left', 'right'];
+
+const OutboxPanel: React.FC<OutboxPanelProps> = ({ entries, sendingId, onRetry, onRemove }) => {
+    const { t, locale, formatDateTime } = useI18n();
+
+    const handleRemove = (entry: OutboxEntry) => {
+        if (window.confirm(interpolate(t.outbox.confirmRemove, { date: formatDateTime(new Date(entry.createdAt)) }))) {
+            onRemove(entry);
+        }
+    };
+
+    if (entries.length === 0) return null;
+
+    return (
+        <section className="mt-8 p-4 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-sm">
+            <h3 className="flex items-center gap-2 font-semibold text-slate-800 dark:text-white">
+                <ClockIcon className="w-5 h-5 text-sky-500" />
+                {t.outbox.title}
+            </h3>
+            <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">{t.outbox.intro}</p>
+            <ul className="mt-3 space-y-2">
+                {entries.map(entry => {
+                    const feet = FOOT_SIDES.filter(foot => Object.values(entry.captures[foot]).some(file => file));
+                    const photoCount = FOOT_SIDES.reduce((count, foot) => count + Object.values(entry.captures[foot]).filter(file => file).length, 0);
+                    const isSending = entry.id === sendingId;
+                    return (
+                        <li key={entry.id} className="flex items-center gap-3 p-3 rounded-lg bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700">
+                            <div className="flex-grow min-w-0">
+                                <p className="text-sm font-semibold text-slate-700 dark:text-slate-200">
+                                    {formatDateTime(new Date(entry.createdAt))}
+                                </p>
+                                <p className="text-xs text-slate-500 dark:text-slate-400">
+                                    {feet.map(foot => t.common.footShort[foot]).join(' · ')} · {plural(locale, t.outbox.photos, photoCount)}
+                                </p>
+                                <p className={`text-xs mt-0.5 ${entry.lastError ? 'text-red-600 dark:text-red-400' : 'text-slate-400 dark:text-slate-500'}`}>
+                                    {isSending
+                                        ? t.outbox.sending
+                                        : entry.lastError
+                                            ? interpolate(t.outbox.failed, { error: entry.lastError })
+                                            : t.outbox.waiting}
+                                </p>
+                            </div>
+                            <div className="flex gap-2 flex-shrink-0">
+                                {entry.lastError && !isSending && (
+                                    <button
+                                        onClick={() => onRetry(entry)}
+                                        className="flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md bg-sky-600 text-white hover:bg-sky-700 transition-colors"
+                                    >
+                                        <RefreshIcon className="w-4 h-4" />
+                                        {t.outbox.retry}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => handleRemove(entry)}
+                                    disabled={isSending}
+                                    className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                    aria-label={t.outbox.remove}
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </section>
+    );
+};
+
+export default OutboxPanel;
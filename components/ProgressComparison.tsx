@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { AnalysisRecord, FootView } from '../types';
+import { compareAnalyses, IssueProgress, ProgressTrend } from '../services/progressComparison';
+import { interpolate } from '../services/i18n';
+import { Messages } from '../locales/en';
+import { XIcon, InformationCircleIcon, PhotoIcon } from './IconComponents';
+import { useI18n } from './I18nProvider';
+
+interface ProgressComparisonProps {
+  before: AnalysisRecord;
+  after: AnalysisRecord;
+  onClose: () => void;
+}
+
+const VIEWS: FootView[] = ['top', 'side', 'back', 'footprint'];
+
+const TREND_STYLES: Record<ProgressTrend, string> = {
+    'improved': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+    'worsened': 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+    'unchanged': 'bg-slate-100 text-slate-800 dark:bg-slate-700 dark:text-slate-300',
+    'unknown': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+};
+
+const statusLabel = (progress: IssueProgress, statuses: Messages['progress']['statuses']): string => {
+    switch (progress.status) {
+        case 'added': return statuses.added;
+        case 'resolved': return statuses.resolved;
+        case 'unchanged': return statuses.unchanged;
+        case 'changed': return progress.trend === 'improved' ? statuses.improved : progress.trend === 'worsened' ? statuses.worsened : statuses.changed;
+    }
+};
+
+const BeforeAfterSlider: React.FC<{ beforeSrc: string; afterSrc: string; label: string }> = ({ beforeSrc, afterSrc, label }) => {
+    const { t } = useI18n();
+    const [position, setPosition] = useState(50);
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="relative aspect-square bg-slate-100 dark:bg-slate-700/50 rounded-lg overflow-hidden select-none">
+                <img src={beforeSrc} alt={interpolate(t.progress.beforeAlt, { view: label })} className="absolute inset-0 w-full h-full object-contain" />
+                <img
+                    src={afterSrc}
+                    alt={interpolate(t.progress.afterAlt, { view: label })}
+                    className="absolute inset-0 w-full h-full object-contain"
+                    style={{ clipPath: `inset(0 0 0 ${position}%)` }}
+                />
+                <div className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }}></div>
+                <span className="absolute top-2 left-2 px-2 py-0.5 text-xs font-semibold rounded bg-black/50 text-white">{t.progress.before}</span>
+                <span className="absolute top-2 right-2 px-2 py-0.5 text-xs font-semibold rounded bg-black/50 text-white">{t.progress.after}</span>
+            </div>
+            <input
+                type="range"
+                min={0}
+                max={100}
+                value={position}
+                onChange={(e) => setPosition(Number(e.target.value))}
+                className="w-full accent-sky-600"
+                aria-label={interpolate(t.progress.slider, { view: label })}
+            />
+            <p className="text-xs font-semibold text-center text-slate-600 dark:text-slate-300">{label}</p>
+        </div>
+    );
+};
+
+const ProgressComparison: React.FC<ProgressComparisonProps> = ({ before, after, onClose }) => {
+    const { t, formatDate, formatPercent } = useI18n();
+    const feet = compareAnalyses(before.results, after.results);
+
+    return (
+        <section className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg p-6">
+            <div className="flex items-start justify-between mb-6">
+                <div>
+                    <h2 className="text-xl font-bold text-slate-800 dark:text-white">{t.progress.title}</h2>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">
+                        {formatDate(new Date(before.createdAt))} → {formatDate(new Date(after.createdAt))}
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="p-1 rounded-full text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-sky-500"
+                    aria-label={t.progress.close}
+                >
+                    <XIcon className="w-6 h-6" />
+                </button>
+            </div>
+
+            {feet.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">{t.progress.noSharedFoot}</p>
+            ) : (
+                <div className="space-y-8">
+                    {feet.map(progress => {
+                        const views = VIEWS.filter(view =>
+                            before.thumbnails[progress.foot]?.[view] && after.thumbnails[progress.foot]?.[view]
+                        );
+                        const { delta } = progress.confidence;
+
+                        return (
+                            <div key={progress.foot}>
+                                <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 mb-3">{t.common.feet[progress.foot]}</h3>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                                    <div className={`p-3 rounded-lg border ${progress.archType.changed ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-300 dark:border-amber-700' : 'bg-slate-50 dark:bg-slate-800/50 border-slate-200 dark:border-slate-700'}`}>
+                                        <p className="text-sm font-medium text-slate-500 dark:text-slate-400">{t.progress.archType}</p>
+                                        <p className="font-bold text-slate-700 dark:text-slate-200">
+                                            {t.common.archTypes[progress.archType.before]} → {t.common.archTypes[progress.archType.after]}
+                                        </p>
+                                    </div>
+                                    <div className="p-3 rounded-lg border bg-slate-50 dark:bg-slate-800/50 border-slate-200 dark:border-slate-700">
+                                        <p className="text-sm font-medium text-slate-500 dark:text-slate-400">{t.progress.confidence}</p>
+                                        <p className="font-bold text-slate-700 dark:text-slate-200">
+                                            {formatPercent(progress.confidence.before / 100)} → {formatPercent(progress.confidence.after / 100)}
+                                            <span className={`ml-2 text-sm ${delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-600' : 'text-slate-500'}`}>
+                                                ({delta > 0 ? '+' : ''}{delta})
+                                            </span>
+                                        </p>
+                                    </div>
+                                </div>
+
+                                <h4 className="text-md font-semibold text-slate-700 dark:text-slate-300 mb-2 flex items-center">
+                                    <InformationCircleIcon className="w-5 h-5 mr-2 text-sky-500" />
+                                    {t.progress.issues}
+                                </h4>
+                                {progress.issues.length > 0 ? (
+                                    <ul className="space-y-2 mb-4">
+                                        {progress.issues.map((issue, index) => (
+                                            <li key={index} className="flex items-center justify-between gap-3 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700">
+                                                <span className="text-sm font-semibold text-slate-700 dark:text-slate-200">{issue.issue}</span>
+                                                <span className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+                                                    {issue.before ? t.common.severities[issue.before.severity] : '—'} → {issue.after ? t.common.severities[issue.after.severity] : '—'}
+                                                    <span className={`px-2.5 py-0.5 font-medium rounded-full ${TREND_STYLES[issue.trend]}`}>
+                                                        {statusLabel(issue, t.progress.statuses)}
+                                                    </span>
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                ) : (
+                                    <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">{t.progress.noIssues}</p>
+                                )}
+
+                                {views.length > 0 ? (
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+                                        {views.map(view => (
+                                            <BeforeAfterSlider
+                                                key={view}
+                                                beforeSrc={before.thumbnails[progress.foot]![view]!}
+                                                afterSrc={after.thumbnails[progress.foot]![view]!}
+                                                label={t.uploader.views[view].label}
+                                            />
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <p className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+                                        <PhotoIcon className="w-5 h-5" />
+                                        {t.progress.noViews}
+                                    </p>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </section>
+    );
+};
+
+export default ProgressComparison;
@@ -0,0 +1,51 @@
+import React, { useState, useEffect } from 'react';
+import { assessImageQuality, describeQualityIssues, ImageQualityReport } from '../services/imageQuality';
+import { interpolate } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { CheckCircleIcon, WarningIcon } from './IconComponents';
+
+interface QualityBadgeProps {
+  file: File;
+}
+
+// Shows the outcome of the in-browser quality check for one captured view.
+const QualityBadge: React.FC<QualityBadgeProps> = ({ file }) => {
+    const { t } = useI18n();
+    const [report, setReport] = useState<ImageQualityReport | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setReport(null);
+        assessImageQuality(file)
+            .then(result => { if (!cancelled) setReport(result); })
+            .catch(err => console.error("Quality check failed:", err));
+        return () => { cancelled = true; };
+    }, [file]);
+
+    if (!report) {
+        return <p className="text-xs text-slate-400 dark:text-slate-500">{t.quality.checking}</p>;
+    }
+
+    if (report.passed) {
+        return (
+            <p className="flex items-center gap-1 text-xs font-medium text-green-600 dark:text-green-400">
+                <CheckCircleIcon className="w-4 h-4" />
+                {interpolate(t.quality.good, { score: report.score })}
+            </p>
+        );
+    }
+
+    return (
+        <div className="text-xs text-amber-700 dark:text-amber-400">
+            <p className="flex items-center gap-1 font-semibold">
+                <WarningIcon className="w-4 h-4" />
+                {interpolate(t.quality.score, { score: report.score })}
+            </p>
+            <ul className="mt-1 space-y-0.5 list-disc list-inside">
+                {describeQualityIssues(report, t.quality.issues).map((warning, index) => <li key={index}>{warning}</li>)}
+            </ul>
+        </div>
+    );
+};
+
+export default QualityBadge;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { FootSide, RearfootLandmarks, RearfootMeasurement } from '../types';
+import { computeRearfootMeasurement } from '../services/footMeasurements';
+import { interpolate } from '../services/i18n';
+import MeasurementTool from './MeasurementTool';
+import { useI18n } from './I18nProvider';
+
+interface RearfootMeasurementToolProps {
+  backViewSrc: string;
+  foot: FootSide;
+  measurement?: RearfootMeasurement;
+  onSave: (measurement: RearfootMeasurement) => void;
+  onCancel: () => void;
+}
+
+const REARFOOT_LANDMARKS: (keyof RearfootLandmarks)[] = ['legTop', 'legBottom', 'heelTop', 'heelBottom'];
+
+const REARFOOT_SEGMENTS: [keyof RearfootLandmarks, keyof RearfootLandmarks][] = [
+    ['legTop', 'legBottom'],
+    ['heelTop', 'heelBottom'],
+];
+
+const RearfootMeasurementTool: React.FC<RearfootMeasurementToolProps> = ({ backViewSrc, foot, measurement, onSave, onCancel }) => {
+    const { t, formatNumber } = useI18n();
+    const messages = t.measurement.rearfoot;
+    const rearfootAngle = (angle: number) =>
+        angle === 0 ? '0°' : interpolate(angle > 0 ? t.dashboard.rearfoot.valgus : t.dashboard.rearfoot.varus, { angle: formatNumber(Math.abs(angle), { maximumFractionDigits: 1 }) });
+
+    return (
+        <MeasurementTool
+            src={backViewSrc}
+            alt={messages.alt}
+            landmarks={REARFOOT_LANDMARKS.map(key => ({ key, label: messages.landmarks[key] }))}
+            segments={REARFOOT_SEGMENTS}
+            initialPoints={measurement?.landmarks}
+            compute={(points) => computeRearfootMeasurement(points, foot)}
+            describe={(preview) => [
+                { label: messages.angle, value: rearfootAngle(preview.rearfootAngle) },
+                { label: messages.alignment, value: t.common.alignments[preview.alignment] },
+            ]}
+            onSave={onSave}
+            onCancel={onCancel}
+        />
+    );
+};
+
+export default RearfootMeasurementTool;
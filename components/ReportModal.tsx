@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { PatientDetails } from '../services/reportGenerator';
+import { useI18n } from './I18nProvider';
+import { DocumentDownloadIcon, XIcon } from './IconComponents';
+
+interface ReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onGenerate: (patient: PatientDetails) => void;
+}
+
+const ReportModal: React.FC<ReportModalProps> = ({ isOpen, onClose, onGenerate }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [dateOfBirth, setDateOfBirth] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setName('');
+      setDateOfBirth('');
+      setNotes('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onGenerate({ name: name.trim(), dateOfBirth, notes });
+  };
+
+  const inputClassName = "mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="report-modal-title">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-md transform transition-all duration-300 ease-out scale-95 opacity-0 animate-fade-in-scale">
+        <div className="p-6">
+          <div className="flex items-start justify-between">
+            <div className="flex items-center gap-3">
+              <div className="bg-sky-100 dark:bg-sky-900/50 p-2 rounded-full">
+                <DocumentDownloadIcon className="w-6 h-6 text-sky-600 dark:text-sky-400" />
+              </div>
+              <div>
+                <h2 id="report-modal-title" className="text-lg font-bold text-slate-800 dark:text-white">
+                  {t.report.title}
+                </h2>
+                <p className="text-sm text-slate-500 dark:text-slate-400">{t.report.subtitle}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 rounded-full text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-sky-500"
+              aria-label={t.report.close}
+            >
+              <XIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+            <div>
+              <label htmlFor="report-name" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                {t.report.patientName}
+              </label>
+              <input
+                type="text"
+                id="report-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+                className={inputClassName}
+                placeholder={t.common.namePlaceholder}
+              />
+            </div>
+            <div>
+              <label htmlFor="report-dob" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                {t.report.dateOfBirth}
+              </label>
+              <input
+                type="date"
+                id="report-dob"
+                value={dateOfBirth}
+                onChange={(e) => setDateOfBirth(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="report-notes" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                {t.report.notes}
+              </label>
+              <textarea
+                id="report-notes"
+                rows={3}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className={inputClassName}
+                placeholder={t.report.notesPlaceholder}
+              />
+            </div>
+            <div className="pt-4 flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-500 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500"
+              >
+                {t.common.cancel}
+              </button>
+              <button
+                type="submit"
+                className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-sky-600 border border-transparent rounded-md shadow-sm hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500"
+              >
+                {t.report.download}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+      <style>{`
+        @keyframes fade-in-scale {
+          0% {
+            opacity: 0;
+            transform: scale(0.95);
+          }
+          100% {
+            opacity: 1;
+            transform: scale(1);
+          }
+        }
+        .animate-fade-in-scale {
+          animation: fade-in-scale 0.2s ease-out forwards;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ReportModal;
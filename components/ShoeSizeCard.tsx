@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { AnalysisResult, ManualFootSize } from '../types';
+import { recommendShoeSize } from '../services/shoeSizing';
+import { interpolate } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { ShoeIcon, InformationCircleIcon } from './IconComponents';
+
+interface ShoeSizeCardProps {
+  result: AnalysisResult;
+  onSaveManualSize: (size: ManualFootSize) => void;
+}
+
+const ManualSizeForm: React.FC<{
+    initial?: ManualFootSize;
+    onSave: (size: ManualFootSize) => void;
+    onCancel?: () => void;
+}> = ({ initial, onSave, onCancel }) => {
+    const { t } = useI18n();
+    const [length, setLength] = useState(initial ? String(initial.footLengthMm) : '');
+    const [width, setWidth] = useState(initial ? String(initial.forefootWidthMm) : '');
+    const footLengthMm = Number(length);
+    const forefootWidthMm = Number(width);
+    const isValid = footLengthMm >= 100 && footLengthMm <= 400 && forefootWidthMm >= 40 && forefootWidthMm < footLengthMm;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (isValid) onSave({ footLengthMm, forefootWidthMm });
+    };
+
+    const inputClassName = "mt-1 block w-full px-2 py-1 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md text-sm focus:outline-none focus:ring-sky-500 focus:border-sky-500";
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+                {interpolate(t.shoeSize.manualHint, { action: t.dashboard.dimensions.action })}
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+                <label className="text-xs font-medium text-slate-600 dark:text-slate-300">
+                    {t.shoeSize.footLength}
+                    <input type="number" inputMode="numeric" value={length} onChange={(e) => setLength(e.target.value)} className={inputClassName} placeholder="250" />
+                </label>
+                <label className="text-xs font-medium text-slate-600 dark:text-slate-300">
+                    {t.shoeSize.forefootWidth}
+                    <input type="number" inputMode="numeric" value={width} onChange={(e) => setWidth(e.target.value)} className={inputClassName} placeholder="98" />
+                </label>
+            </div>
+            <div className="flex justify-end gap-2">
+                {onCancel && (
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="px-3 py-1.5 text-xs font-semibold text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 rounded-md hover:bg-slate-200 dark:hover:bg-slate-600"
+                    >
+                        {t.common.cancel}
+                    </button>
+                )}
+                <button
+                    type="submit"
+                    disabled={!isValid}
+                    className="px-3 py-1.5 text-xs font-semibold text-white bg-sky-600 rounded-md hover:bg-sky-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+                >
+                    {t.shoeSize.submit}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+const ShoeSizeCard: React.FC<ShoeSizeCardProps> = ({ result, onSaveManualSize }) => {
+    const { t, formatNumber } = useI18n();
+    const [isEditing, setIsEditing] = useState(false);
+    const recommendation = recommendShoeSize(result);
+    const millimetres = (length: number) => formatNumber(length, { style: 'unit', unit: 'millimeter' });
+
+    const sizes = recommendation ? [
+        { label: t.shoeSize.systems.eu, value: recommendation.eu },
+        { label: t.shoeSize.systems.uk, value: recommendation.uk },
+        { label: t.shoeSize.systems.usMen, value: recommendation.usMen },
+        { label: t.shoeSize.systems.usWomen, value: recommendation.usWomen },
+        { label: t.shoeSize.systems.jp, value: recommendation.jp },
+        { label: t.shoeSize.systems.mondopoint, value: recommendation.mondopoint },
+    ] : [];
+
+    return (
+        <div className="p-4 rounded-lg border border-slate-200 dark:border-slate-700">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-md font-semibold text-slate-700 dark:text-slate-300 flex items-center">
+                    <ShoeIcon className="w-5 h-5 mr-2" />
+                    {t.shoeSize.title}
+                </h3>
+                {recommendation?.source === 'manual' && !isEditing && (
+                    <button onClick={() => setIsEditing(true)} className="text-xs font-semibold text-sky-600 dark:text-sky-400 hover:underline">
+                        {t.shoeSize.edit}
+                    </button>
+                )}
+            </div>
+
+            {!recommendation || isEditing ? (
+                <ManualSizeForm
+                    initial={result.manualFootSize}
+                    onSave={(size) => {
+                        onSaveManualSize(size);
+                        setIsEditing(false);
+                    }}
+                    onCancel={isEditing ? () => setIsEditing(false) : undefined}
+                />
+            ) : (
+                <div className="space-y-3">
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                        {sizes.map(size => (
+                            <div key={size.label} className="p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50">
+                                <p className="text-xs text-slate-500 dark:text-slate-400">{size.label}</p>
+                                <p className="font-bold text-slate-700 dark:text-slate-200">{formatNumber(size.value)}</p>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-sm text-slate-700 dark:text-slate-200">
+                        {t.shoeSize.widthFitting} <span className="font-bold">{t.shoeSize.widths[recommendation.width.name]} ({recommendation.width.code})</span>
+                    </p>
+                    {recommendation.notes.length > 0 && (
+                        <ul className="space-y-1">
+                            {recommendation.notes.map(note => (
+                                <li key={note} className="flex items-start text-xs text-slate-600 dark:text-slate-400">
+                                    <InformationCircleIcon className="w-4 h-4 mr-2 mt-0.5 text-sky-500 flex-shrink-0" />
+                                    {t.shoeSize.notes[note]}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <p className="text-xs text-slate-400 dark:text-slate-500">
+                        {interpolate(t.shoeSize.basis[recommendation.source], {
+                            length: millimetres(recommendation.footLengthMm),
+                            width: millimetres(recommendation.forefootWidthMm),
+                        })}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ShoeSizeCard;
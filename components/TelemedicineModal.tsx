@@ -1,21 +1,34 @@
-import React, { useState, useEffect, Fragment } from 'react';
-import { AnalysisResult, PotentialIssue } from '../types';
-import { VideoCameraIcon, XIcon, CheckCircleIcon } from './IconComponents';
+import React, { useState, useEffect } from 'react';
+import { AnalysisResult, BilateralAnalysis, FootSide, PotentialIssue, ResultsReview, TelemedicineCase } from '../types';
+import { VideoCameraIcon, XIcon, CheckCircleIcon, WarningIcon } from './IconComponents';
+import { interpolate, plural } from '../services/i18n';
+import { describeConditionCodes } from '../services/footConditions';
+import { useI18n } from './I18nProvider';
 
 interface TelemedicineModalProps {
   isOpen: boolean;
   onClose: () => void;
-  analysisResult: AnalysisResult | null;
+  analysisResults: BilateralAnalysis | null;
+  review: ResultsReview;
+  photoCount: number;
+  onSubmit: (details: { name: string; email: string }) => Promise<TelemedicineCase>;
 }
 
-const TelemedicineModal: React.FC<TelemedicineModalProps> = ({ isOpen, onClose, analysisResult }) => {
+type SubmissionStatus = 'editing' | 'sending' | 'sent' | 'failed';
+
+const TelemedicineModal: React.FC<TelemedicineModalProps> = ({ isOpen, onClose, analysisResults, review, photoCount, onSubmit }) => {
+  const { t, locale, formatPercent, formatDateTime } = useI18n();
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
-  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [status, setStatus] = useState<SubmissionStatus>('editing');
+  const [caseReference, setCaseReference] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen) {
-      setIsSubmitted(false);
+      setStatus('editing');
+      setCaseReference(null);
+      setSubmitError(null);
       setName('');
       setEmail('');
     }
@@ -23,45 +36,65 @@ const TelemedicineModal: React.FC<TelemedicineModalProps> = ({ isOpen, onClose,
 
   if (!isOpen) return null;
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsSubmitted(true);
-    // In a real app, you would send the data to a server here.
-    console.log({
-      name,
-      email,
-      analysisSummary: analysisSummaryForEmail,
-    });
-    setTimeout(() => {
-      onClose();
-    }, 3000); // Close modal after 3 seconds
+    setStatus('sending');
+    setSubmitError(null);
+    try {
+      const submitted = await onSubmit({ name: name.trim(), email: email.trim() });
+      setCaseReference(submitted.reference);
+      setStatus('sent');
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : String(err));
+      setStatus('failed');
+    }
   };
 
+  const summary = t.telemedicine.summary;
+
   const formatPotentialIssues = (issues: PotentialIssue[] | undefined): string => {
     if (!issues || issues.length === 0) {
-      return 'None detected';
+      return summary.noneDetected;
     }
-    return issues.map(issue => `• ${issue.issue} (${issue.severity}): ${issue.description}`).join('\n');
+    return issues.map(issue => {
+      const codes = describeConditionCodes(issue.condition);
+      return `• ${issue.issue}${codes ? ` [${codes}]` : ''} (${t.common.severities[issue.severity]}): ${issue.description}`;
+    }).join('\n');
   };
 
-  const analysisSummaryForEmail = `--- AI Analysis Summary ---
+  const formatFootSummary = (foot: FootSide, analysisResult: AnalysisResult | undefined): string => `=== ${t.common.feet[foot]} ===
 
-Arch Type:
-${analysisResult?.archType || 'N/A'}
+${summary.archType}:
+${analysisResult?.archType ? t.common.archTypes[analysisResult.archType] : summary.notAvailable}
 
-Potential Issues:
+${summary.issues}:
 ${formatPotentialIssues(analysisResult?.potentialIssues)}
 
-AI Summary:
-${analysisResult?.summary || 'N/A'}
+${summary.aiSummary}:
+${analysisResult?.summary || summary.notAvailable}
+
+${summary.footwear}:
+${analysisResult?.footwearSuggestions?.map(s => `• ${s}`).join('\n') || summary.notAvailable}
+
+${summary.clinical}:
+${analysisResult?.clinicalRecommendations?.map(s => `• ${s}`).join('\n') || summary.notAvailable}
+
+${interpolate(summary.confidence, { score: analysisResult?.confidenceScore ? formatPercent(analysisResult.confidenceScore / 100) : summary.notAvailable })}
+`;
+
+  const reviewStatus = review.signOff
+    ? interpolate(t.review.reviewedBy, { reviewer: review.signOff.reviewer, date: formatDateTime(new Date(review.signOff.signedAt)) })
+    : t.review.status[review.status];
 
-Footwear Suggestions:
-${analysisResult?.footwearSuggestions?.map(s => `• ${s}`).join('\n') || 'N/A'}
+  const analysisSummaryForEmail = `${summary.heading}
 
-Clinical Recommendations:
-${analysisResult?.clinicalRecommendations?.map(s => `• ${s}`).join('\n') || 'N/A'}
+${summary.reviewStatus}:
+${reviewStatus}
 
-Confidence Score: ${analysisResult?.confidenceScore || 'N/A'}%
+${(['left', 'right'] as FootSide[])
+    .filter(foot => analysisResults?.[foot])
+    .map(foot => formatFootSummary(foot, analysisResults?.[foot]))
+    .join('\n') || summary.notAvailable}
   `;
 
   return (
@@ -75,31 +108,43 @@ Confidence Score: ${analysisResult?.confidenceScore || 'N/A'}%
               </div>
               <div>
                 <h2 id="telemedicine-modal-title" className="text-lg font-bold text-slate-800 dark:text-white">
-                  Telemedicine Consultation Request
+                  {t.telemedicine.title}
                 </h2>
-                <p className="text-sm text-slate-500 dark:text-slate-400">A summary will be sent to the specialist.</p>
+                <p className="text-sm text-slate-500 dark:text-slate-400">{t.telemedicine.subtitle}</p>
               </div>
             </div>
             <button
               onClick={onClose}
               className="p-1 rounded-full text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-              aria-label="Close modal"
+              aria-label={t.telemedicine.close}
             >
               <XIcon className="w-6 h-6" />
             </button>
           </div>
 
-          {isSubmitted ? (
+          {status === 'sent' ? (
             <div className="text-center py-12 px-4">
-              <CheckCircleIcon className="w-16 h-16 text-green-500 mx-auto mb-4 animate-pulse"/>
-              <h3 className="text-xl font-semibold text-slate-800 dark:text-white">Request Sent!</h3>
-              <p className="text-slate-600 dark:text-slate-300 mt-2">A specialist will review your information and contact you via email shortly.</p>
+              <CheckCircleIcon className="w-16 h-16 text-green-500 mx-auto mb-4"/>
+              <h3 className="text-xl font-semibold text-slate-800 dark:text-white">{t.telemedicine.sentTitle}</h3>
+              {caseReference && (
+                <p className="text-slate-700 dark:text-slate-200 mt-2 font-medium">
+                  {interpolate(t.telemedicine.reference, { reference: caseReference })}
+                </p>
+              )}
+              <p className="text-slate-600 dark:text-slate-300 mt-2">{t.telemedicine.sentDetail}</p>
+              <button
+                  type="button"
+                  onClick={onClose}
+                  className="mt-6 px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                  {t.telemedicine.done}
+              </button>
             </div>
           ) : (
             <form onSubmit={handleSubmit} className="mt-6 space-y-4">
               <div>
                 <label htmlFor="name" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
-                  Full Name
+                  {t.telemedicine.fullName}
                 </label>
                 <input
                   type="text"
@@ -108,12 +153,12 @@ Confidence Score: ${analysisResult?.confidenceScore || 'N/A'}%
                   onChange={(e) => setName(e.target.value)}
                   required
                   className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                  placeholder="Jane Doe"
+                  placeholder={t.common.namePlaceholder}
                 />
               </div>
               <div>
                 <label htmlFor="email" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
-                  Email Address
+                  {t.telemedicine.email}
                 </label>
                 <input
                   type="email"
@@ -122,12 +167,12 @@ Confidence Score: ${analysisResult?.confidenceScore || 'N/A'}%
                   onChange={(e) => setEmail(e.target.value)}
                   required
                   className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                  placeholder="you@example.com"
+                  placeholder={t.common.emailPlaceholder}
                 />
               </div>
               <div>
                 <label htmlFor="message" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
-                  Message (AI Summary Included)
+                  {t.telemedicine.message}
                 </label>
                 <textarea
                   id="message"
@@ -136,20 +181,35 @@ Confidence Score: ${analysisResult?.confidenceScore || 'N/A'}%
                   value={analysisSummaryForEmail}
                   className="mt-1 block w-full px-3 py-2 bg-slate-50 dark:bg-slate-700/50 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm text-xs text-slate-500 dark:text-slate-400 cursor-not-allowed"
                 />
+                {photoCount > 0 && (
+                  <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                    {plural(locale, t.telemedicine.photosAttached, photoCount)}
+                  </p>
+                )}
               </div>
+              {status === 'failed' && (
+                <div className="flex items-start gap-2 p-3 rounded-md bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300" role="alert">
+                  <WarningIcon className="w-5 h-5 flex-shrink-0" />
+                  <div>
+                    <p className="font-semibold">{t.telemedicine.failedTitle}</p>
+                    {submitError && <p className="mt-1">{submitError}</p>}
+                  </div>
+                </div>
+              )}
               <div className="pt-4 flex justify-end gap-3">
                  <button
                     type="button"
                     onClick={onClose}
                     className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-500 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
                 >
-                    Cancel
+                    {t.common.cancel}
                 </button>
                 <button
                     type="submit"
-                    className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                    disabled={status === 'sending'}
+                    className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-60 disabled:cursor-not-allowed"
                 >
-                    Request Consultation
+                    {status === 'sending' ? t.telemedicine.sending : status === 'failed' ? t.telemedicine.retry : t.telemedicine.submit}
                 </button>
               </div>
             </form>
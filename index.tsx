@@ -2,15 +2,26 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { I18nProvider } from './components/I18nProvider';
+import { geminiProvider } from './services/geminiService';
+import { fixtureProvider } from './services/fixtureProvider';
+import { registerServiceWorker } from './services/pwa';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Set ANALYSIS_PROVIDER=fixture to run the whole flow offline without an API key.
+const provider = process.env.ANALYSIS_PROVIDER === 'fixture' ? fixtureProvider : geminiProvider;
+
+registerServiceWorker();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <I18nProvider>
+      <App provider={provider} />
+    </I18nProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,486 @@
+// English UI strings. Every other locale must provide the same keys (see `Messages`).
+// Placeholders in braces are filled in with `interpolate`; objects keyed by plural
+// category are resolved with `plural`.
+const en = {
+  common: {
+    feet: { left: 'Left Foot', right: 'Right Foot' },
+    footShort: { left: 'Left', right: 'Right' },
+    views: { top: 'Top view', side: 'Side view', back: 'Back view', footprint: 'Footprint' },
+    archTypes: { Normal: 'Normal', Flat: 'Flat', High: 'High', Unknown: 'Unknown' },
+    severities: { Mild: 'Mild', Moderate: 'Moderate', Severe: 'Severe', Unknown: 'Unknown' },
+    grades: { Normal: 'Normal', Mild: 'Mild', Moderate: 'Moderate', Severe: 'Severe' },
+    alignments: { Neutral: 'Neutral', Pronated: 'Pronated', Supinated: 'Supinated' },
+    cancel: 'Cancel',
+    namePlaceholder: 'Jane Doe',
+    emailPlaceholder: 'you@example.com',
+  },
+  app: {
+    tagline: 'Get AI-powered insights into your foot health.',
+    language: 'Language',
+    uploadMode: 'Upload Photos',
+    scanMode: 'Live Scan',
+    qualityTitle: 'Some photos may give an unreliable analysis',
+    qualityWarning: '{foot}, {view}: {warnings}',
+    qualityHint: 'Retake or remove these photos, or click "Analyze Anyway" to continue.',
+    analyzing: 'Analyzing...',
+    checkingQuality: 'Checking photo quality...',
+    analyzeAnyway: 'Analyze Anyway',
+    analyze: 'Analyze Feet',
+    unknownError: 'An unknown error occurred.',
+    fhirExportFailed: 'The FHIR export failed.',
+    noAnalysisToAsk: 'There is no analysis to ask about.',
+    noAnalysisToSend: 'There is no analysis to send.',
+    noAnalysisToReview: 'Only saved analyses can be reviewed.',
+    offline: "You're offline. New analyses will be saved and sent when you reconnect.",
+    storageBlocked: 'SmartStep is open in another tab with an older version, so your history cannot be loaded. Close the other tabs and reload this page.',
+    innovatedBy: 'Innovated by',
+  },
+  outbox: {
+    title: 'Waiting to Send',
+    intro: 'Saved on this device because the analysis service could not be reached. They are analyzed automatically when you are back online.',
+    queued: 'No connection, so your photos were saved. They will be analyzed automatically when you are back online.',
+    photos: { one: '{count} photo', other: '{count} photos' },
+    waiting: 'Waiting for a connection',
+    sending: 'Analyzing...',
+    failed: 'Failed: {error}',
+    retry: 'Retry',
+    remove: 'Remove queued analysis',
+    confirmRemove: 'Remove the photos saved on {date}? They will not be analyzed.',
+    ready: 'Your analysis of the photos saved on {date} is ready.',
+    readyTitle: 'SmartStep analysis ready',
+    view: 'View',
+    dismiss: 'Dismiss',
+  },
+  history: {
+    title: 'Past Analyses',
+    intro: 'Stored only on this device. Select two to compare progress.',
+    compare: 'Compare ({selected}/{total})',
+    select: 'Select for comparison',
+    remove: 'Delete analysis',
+    confirmRemove: 'Delete the analysis from {date}?',
+    footSummary: '{foot}: {archType} arch',
+    issues: { one: '{count} issue', other: '{count} issues' },
+    provider: '{provider} · prompt {version}',
+    open: 'Open',
+    viewing: 'Viewing',
+    empty: 'No saved analyses yet. Completed analyses will appear here.',
+  },
+  uploader: {
+    title: 'Upload Foot Images',
+    intro: "Upload up to 3 photos of each foot, plus an optional footprint. We'll suggest a foot and view for each photo; accept or correct it before analyzing. Include a bank card or A4 sheet in the top view to measure foot size.",
+    views: {
+      top: { label: 'Top', description: 'From directly above your foot, with a bank card or A4 sheet beside it for scale.' },
+      side: { label: 'Side (Arch)', description: 'Inside of your foot, showing the arch.' },
+      back: { label: 'Back (Heel)', description: 'From directly behind your heel.' },
+      footprint: { label: 'Footprint', description: 'Optional: a wet or ink footprint on paper, photographed from above.' },
+    },
+    clickToUpload: 'Click to upload',
+    orDragAndDrop: 'or drag and drop',
+    fileTypes: 'PNG, JPG or WEBP (max {count} images)',
+    processing: 'Optimizing photos and removing location data...',
+    unreadable: 'Could not read {files}. Try a different photo in PNG, JPG or WEBP format.',
+    dismiss: 'Dismiss',
+    detecting: 'Detecting foot and view...',
+    notAFoot: "This doesn't look like a foot.",
+    undetected: "Couldn't detect the view; please tag this photo yourself.",
+    tagMatches: 'Tag matches the detected view.',
+    possibleMistag: 'Possible mis-tag; looks like',
+    looksLike: 'Looks like',
+    slotTaken: 'Another photo already has this tag.',
+    accept: 'Accept',
+    previewAlt: 'Foot preview',
+    removeImage: 'Remove image',
+    optimized: 'Optimized {from} → {to}',
+    saving: '(−{percent})',
+    tagLabel: '{foot} foot, {view} view',
+  },
+  scanner: {
+    title: 'Live Foot Scan',
+    intro: 'Follow the animated guide to capture three views of each foot using your camera.',
+    handsFree: 'Hands-free: capture automatically when the camera is steady',
+    start: 'Start Scan',
+    steps: {
+      top: { title: 'Top View', description: 'Position your foot to match the outline from above. Place a bank card or A4 sheet beside it for scale.' },
+      side: { title: 'Side View (Arch)', description: 'Show the inside arch of your foot.' },
+      back: { title: 'Back View (Heel)', description: 'Show the back of your heel.' },
+      footprint: { title: 'Footprint', description: 'Photograph a wet or ink footprint on paper from directly above, filling the frame.' },
+    },
+    autoStatus: {
+      settling: 'Get into position...',
+      moving: 'Hold the camera still',
+      blurry: 'Frame is blurry, adjust focus or lighting',
+      steady: 'Hold steady',
+    },
+    cameraError: 'Camera Error',
+    cameraErrorDetail: 'Could not access camera. Please check your browser permissions and try again.',
+    tryAgain: 'Try Again',
+    stepOf: 'Step {step} of {total}',
+    optional: 'Optional',
+    reset: 'Reset Scan',
+    autoOn: 'Auto On',
+    autoOff: 'Auto Off',
+    capture: 'Capture',
+    captureFailed: 'The photo could not be captured. Please try again.',
+    complete: 'Captures Complete!',
+    completeHint: 'Click "Analyze Feet" below to process the images, or retake them.',
+    previewAlt: '{view} preview',
+    retake: 'Retake',
+    captureOptional: 'Capture (optional)',
+    retakeAll: 'Retake Scans',
+  },
+  quality: {
+    checking: 'Checking quality...',
+    good: 'Good quality ({score})',
+    score: 'Quality {score}/100',
+    issues: {
+      tooSmall: 'Image is too small ({width}×{height}); use at least {minimum}px on the short side.',
+      blurry: 'Image looks blurry; hold the camera steady and make sure the foot is in focus.',
+      tooDark: 'Image is too dark; add more light.',
+      overexposed: 'Image is overexposed; avoid direct light or flash.',
+      tooLittleFoot: 'The foot fills too little of the frame; move the camera closer.',
+    },
+  },
+  dashboard: {
+    loadingTitle: 'Analyzing Image...',
+    loadingDetail: 'Our AI is examining your feet. This may take a moment.',
+    streamingHint: 'Results appear as the AI writes them and are checked once complete.',
+    progressLabel: 'Analysis progress',
+    stages: {
+      sending: 'Sending photos',
+      archType: 'Arch type',
+      potentialIssues: 'Issues',
+      summary: 'Summary',
+      recommendations: 'Recommendations',
+      validating: 'Checking',
+    },
+    errorTitle: 'Analysis Failed',
+    awaitingTitle: 'Awaiting Analysis',
+    awaitingDetail: 'Upload an image and click "Analyze" to see the results here.',
+    results: '{foot} Results',
+    confidence: 'Confidence:',
+    archType: 'Arch Type',
+    measure: {
+      viewNames: { top: 'top', side: 'side', back: 'back' },
+      markLandmarks: 'Mark landmarks on the {view} view to measure {subject}.',
+      captureView: 'Capture a {view} view to measure {subject}.',
+      edit: 'Edit Measurement',
+    },
+    arch: {
+      title: 'Measured Arch',
+      action: 'Measure Arch',
+      subject: 'the arch',
+      summary: '{angle}° arch angle · navicular ratio {ratio}',
+    },
+    hallux: {
+      title: 'Measured Hallux Valgus',
+      action: 'Measure Bunion',
+      subject: 'hallux valgus',
+      summary: 'HV {hv}° · IM {im}°',
+      notReported: 'The AI did not report a bunion on this foot.',
+    },
+    rearfoot: {
+      title: 'Measured Rearfoot Alignment',
+      action: 'Measure Heel',
+      subject: 'rearfoot alignment',
+      summary: '{angle} rearfoot angle',
+      valgus: '{angle}° valgus',
+      varus: '{angle}° varus',
+    },
+    dimensions: {
+      title: 'Foot Dimensions',
+      action: 'Measure Size',
+      subject: 'foot size against a card or A4 sheet in the photo',
+      length: 'Length',
+      forefoot: 'Forefoot',
+      heel: 'Heel',
+    },
+    footprint: {
+      title: 'Footprint Indices',
+      staheli: 'Staheli',
+      chippauxSmirak: 'Chippaux–Smirak',
+      cavanagh: 'Cavanagh',
+      unmeasured: 'The footprint could not be measured; use a clearer print on plain paper that fills more of the photo.',
+    },
+    potentialIssues: 'Potential Issues',
+    noIssues: 'No major issues detected.',
+    measured: 'Measured',
+    ai: '· AI',
+    aiSummary: 'AI Summary',
+    footwear: 'Footwear Suggestions',
+    insights: 'AI Clinical Insights',
+    compare: {
+      tab: 'Compare',
+      title: 'Left vs Right',
+      asymmetries: { one: '{count} asymmetry', other: '{count} asymmetries' },
+      symmetric: 'Symmetric',
+      arch: '{archType} Arch',
+      issuesByFoot: 'Potential Issues by Foot',
+      issue: 'Issue',
+      noIssues: 'No major issues detected on either foot.',
+    },
+    reanalyzeHint: 'Re-run the analysis so the AI takes your measurements into account.',
+    reanalyze: 'Re-analyze',
+    disclaimer: 'Disclaimer: This AI analysis is not a substitute for professional medical advice.',
+    downloadReport: 'Download Report',
+    exportFhir: 'Export FHIR',
+    connectSpecialist: 'Connect with a Specialist',
+  },
+  measurement: {
+    instructions: 'Click the photo to place each landmark in order, then drag any point to adjust it.',
+    failed: 'These landmarks could not be measured; check that each point is in the right place.',
+    reset: 'Reset',
+    save: 'Save Measurement',
+    arch: {
+      alt: 'Side view for arch measurement',
+      landmarks: {
+        heel: 'Heel contact point',
+        metatarsalHead: '1st metatarsal head',
+        navicular: 'Navicular tuberosity',
+        floorStart: 'Floor line, rear',
+        floorEnd: 'Floor line, front',
+      },
+      angle: 'Arch angle',
+      ratio: 'Navicular ratio',
+      archType: 'Arch',
+    },
+    hallux: {
+      alt: 'Top view for hallux valgus measurement',
+      landmarks: {
+        firstMetatarsalBase: '1st metatarsal base',
+        firstMetatarsalHead: '1st metatarsal head',
+        halluxTip: 'Big toe tip',
+        secondMetatarsalBase: '2nd metatarsal base',
+        secondMetatarsalHead: '2nd metatarsal head',
+      },
+      hv: 'HV angle',
+      im: 'IM angle',
+      grade: 'Grade',
+    },
+    rearfoot: {
+      alt: 'Back view for rearfoot alignment measurement',
+      landmarks: {
+        legTop: 'Lower leg midline, upper',
+        legBottom: 'Lower leg midline, lower',
+        heelTop: 'Heel midline, upper',
+        heelBottom: 'Heel midline, lower',
+      },
+      angle: 'Rearfoot angle',
+      alignment: 'Alignment',
+    },
+    dimensions: {
+      alt: 'Top view for foot dimensions',
+      reference: 'Reference:',
+      referenceObject: 'Reference object',
+      referenceObjects: { card: 'Bank or ID card', a4: 'A4 sheet' },
+      landmarks: {
+        referenceCorner1: 'Reference corner 1',
+        referenceCorner2: 'Reference corner 2',
+        referenceCorner3: 'Reference corner 3',
+        referenceCorner4: 'Reference corner 4',
+        heel: 'Back of heel',
+        toe: 'Tip of longest toe',
+        forefootMedial: 'Forefoot, inner edge',
+        forefootLateral: 'Forefoot, outer edge',
+        heelMedial: 'Heel, inner edge',
+        heelLateral: 'Heel, outer edge',
+      },
+      length: 'Length',
+      forefoot: 'Forefoot width',
+      heel: 'Heel width',
+    },
+  },
+  shoeSize: {
+    title: 'Shoe Size',
+    edit: 'Edit',
+    manualHint: 'Measure your foot standing on paper, or use "{action}" on the top view. Enter both in millimetres.',
+    footLength: 'Foot length (mm)',
+    forefootWidth: 'Forefoot width (mm)',
+    submit: 'Get Sizes',
+    systems: { eu: 'EU', uk: 'UK', usMen: 'US Men', usWomen: 'US Women', jp: 'JP (cm)', mondopoint: 'Mondopoint' },
+    widthFitting: 'Width fitting:',
+    widths: { narrow: 'Narrow', standard: 'Standard', wide: 'Wide', extraWide: 'Extra Wide' },
+    notes: {
+      bunion: 'Width increased by one fitting for the bunion; choose a wide, soft toe box without seams over the joint.',
+      flatArch: 'Choose shoes with a removable insole so a supportive orthotic fits; try a half size up if the orthotic is bulky.',
+      highArch: 'Look for extra depth and adjustable lacing so the higher instep is not pressed.',
+    },
+    basis: {
+      measured: 'Based on a {length} × {width} foot measured from the top view. Sizes vary between brands; try shoes on when you can.',
+      manual: 'Based on a {length} × {width} foot entered manually. Sizes vary between brands; try shoes on when you can.',
+    },
+  },
+  progress: {
+    title: 'Progress Comparison',
+    close: 'Close comparison',
+    noSharedFoot: 'These analyses do not share a foot, so there is nothing to compare.',
+    archType: 'Arch Type',
+    confidence: 'Confidence',
+    issues: 'Issues',
+    noIssues: 'No issues in either analysis.',
+    noViews: 'No matching views were captured in both sessions.',
+    statuses: { added: 'New', resolved: 'Resolved', unchanged: 'Unchanged', improved: 'Improved', worsened: 'Worsened', changed: 'Changed' },
+    before: 'Before',
+    after: 'After',
+    beforeAlt: '{view} before',
+    afterAlt: '{view} after',
+    slider: '{view} before/after position',
+  },
+  report: {
+    title: 'Download Clinical Report',
+    subtitle: 'The PDF is created on this device.',
+    close: 'Close modal',
+    patientName: 'Patient Name',
+    dateOfBirth: 'Date of Birth',
+    notes: 'Notes for the Clinician (optional)',
+    notesPlaceholder: 'Symptoms, history, current footwear...',
+    download: 'Download PDF',
+    // Text of the PDF itself. Labels are printed in a 40 mm column, so keep them short.
+    pdf: {
+      title: 'SmartStep AI Foot Analysis Report',
+      patientDetails: 'Patient Details',
+      name: 'Name:',
+      dateOfBirth: 'Date of birth:',
+      analysisDate: 'Analysis date:',
+      generated: 'Report generated:',
+      status: 'Status:',
+      notProvided: 'Not provided',
+      reviewedBy: 'Clinician-reviewed by {reviewer}, {date}',
+      aiDraft: 'AI draft, not reviewed by a clinician',
+      notes: 'Notes:',
+      archType: 'Arch type:',
+      confidence: 'AI confidence:',
+      measuredArch: 'Measured arch:',
+      archDetail: '{archType} (arch angle {angle}°, navicular ratio {ratio})',
+      hallux: 'Hallux valgus:',
+      halluxDetail: '{grade} (HV angle {hv}°, IM angle {im}°)',
+      rearfoot: 'Rearfoot:',
+      footSize: 'Foot size:',
+      footSizeDetail: 'Length {length} mm, forefoot {forefoot} mm, heel {heel} mm',
+      footprint: 'Footprint:',
+      footprintDetail: '{archType} (Staheli {staheli}, Chippaux–Smirak {chippauxSmirak}%, Cavanagh {cavanagh})',
+      issues: 'Potential Issues',
+      issue: 'Issue',
+      severity: 'Severity',
+      finding: 'Finding',
+      noIssues: 'No major issues detected.',
+      summary: 'Summary',
+      noSummary: 'No summary provided.',
+      recommendations: 'Clinical Recommendations',
+      footwear: 'Footwear Suggestions',
+      noneProvided: 'None provided.',
+      shoeSize: 'Shoe Size',
+      sizes: 'EU {eu} · UK {uk} · US men {usMen} · US women {usWomen} · JP {jp} · Mondopoint {mondopoint}',
+      widthFitting: 'Width fitting:',
+      basedOn: 'Based on:',
+      basis: {
+        measured: '{length} × {width} mm foot, measured from photo',
+        manual: '{length} × {width} mm foot, entered manually',
+      },
+      noFitAdjustments: 'No fit adjustments needed.',
+      clinicianNotes: 'Clinician Notes',
+      disclaimer: 'Disclaimer: This report was generated by an AI system from photographs taken by the patient. It is intended to support, not replace, assessment by a qualified healthcare professional and is not a diagnosis.',
+      patient: 'Patient',
+      footer: 'SmartStep AI · {name} · Page {page} of {count}',
+    },
+  },
+  chat: {
+    title: 'Ask About Your Results',
+    intro: 'Answers are based on this analysis and your photos. They are general information, not a diagnosis or prescription.',
+    suggestions: [
+      'What do these findings mean for me?',
+      'Which running shoes would suit my feet?',
+      'Are there exercises that could help?',
+    ],
+    thinking: 'Thinking…',
+    placeholder: 'Ask a question about your results…',
+    inputLabel: 'Question about your results',
+    send: 'Send',
+    book: 'Book a Telemedicine Consult',
+    failed: 'The assistant could not answer right now.',
+    guardrails: {
+      redFlag: 'What you describe can be a sign of a problem that needs to be examined in person, and it is not something this app can assess from photos. Please book a telemedicine consultation with a podiatrist, or seek urgent care if the symptoms are severe or getting worse.',
+      prescription: "I can't recommend medication, doses or prescribed treatments. A podiatrist or your doctor can advise on that after examining your feet; the telemedicine consultation is a good place to ask.",
+    },
+  },
+  telemedicine: {
+    title: 'Telemedicine Consultation Request',
+    subtitle: 'A summary will be sent to the specialist.',
+    close: 'Close modal',
+    sentTitle: 'Request Sent!',
+    sentDetail: 'A specialist will review your information and contact you via email shortly.',
+    fullName: 'Full Name',
+    email: 'Email Address',
+    message: 'Shared with the Specialist',
+    photosAttached: { one: 'Your photo is attached.', other: 'Your {count} photos are attached.' },
+    sending: 'Sending...',
+    failedTitle: 'The request could not be sent.',
+    retry: 'Try Again',
+    reference: 'Your case reference is {reference}. Please quote it if you contact us.',
+    done: 'Close',
+    submit: 'Request Consultation',
+    summary: {
+      heading: '--- AI Analysis Summary ---',
+      reviewStatus: 'Review Status',
+      archType: 'Arch Type',
+      issues: 'Potential Issues',
+      noneDetected: 'None detected',
+      aiSummary: 'AI Summary',
+      footwear: 'Footwear Suggestions',
+      clinical: 'Clinical Recommendations',
+      confidence: 'Confidence Score: {score}',
+      notAvailable: 'N/A',
+    },
+  },
+  review: {
+    clinicianMode: 'Clinician mode',
+    aiDraft: 'AI draft',
+    aiDraftDetail: 'Not reviewed by a clinician.',
+    inProgress: { one: 'Review in progress, {count} finding left to decide.', other: 'Review in progress, {count} findings left to decide.' },
+    reviewed: 'Clinician-reviewed',
+    reviewedBy: 'Signed off by {reviewer} on {date}.',
+    showingDraft: 'Showing the original AI draft of a reviewed analysis.',
+    showDraft: 'Show AI Draft',
+    showReviewed: 'Show Reviewed',
+    start: 'Review Findings',
+    continue: 'Continue Review',
+    revise: 'Revise Review',
+    notes: 'Clinician Notes',
+    noteSubjects: { archType: 'Arch type', issue: 'Issue', recommendation: 'Recommendation', footwear: 'Footwear', general: 'General' },
+    title: 'Clinician Review',
+    subtitle: 'Accept, edit or reject each AI finding, add your own, then sign off.',
+    close: 'Close review',
+    decisionLabel: 'Decision',
+    decisions: { accepted: 'Accept', edited: 'Edit', rejected: 'Reject' },
+    archType: 'Arch Type',
+    issues: 'Potential Issues',
+    noIssues: 'The AI reported no issues.',
+    recommendations: 'Clinical Recommendations',
+    footwear: 'Footwear Suggestions',
+    issueName: 'Finding',
+    condition: 'Condition',
+    otherCondition: 'Other (name it below)',
+    severity: 'Severity',
+    description: 'Description',
+    notePlaceholder: 'Note (optional)',
+    added: 'Added by clinician',
+    addIssue: 'Add Finding',
+    addRecommendation: 'Add Recommendation',
+    addFootwear: 'Add Suggestion',
+    removeAdded: 'Remove',
+    generalNote: 'General Note for This Foot',
+    pending: { one: '{count} finding still to decide.', other: '{count} findings still to decide.' },
+    allDecided: 'Every finding has been decided.',
+    acceptRemaining: 'Accept All Remaining',
+    reviewer: 'Reviewer Name',
+    reviewerPlaceholder: 'Dr. Jane Doe',
+    revisingSignedOff: 'This review was signed off by {reviewer}. Saving changes withdraws the sign-off until you sign off again.',
+    saveDraft: 'Save Draft',
+    signOff: 'Sign Off',
+    saveFailed: 'The review could not be saved: {error}',
+    status: { draft: 'AI draft', inProgress: 'In review', reviewed: 'Reviewed' },
+  },
+};
+
+export type Messages = typeof en;
+
+export default en;
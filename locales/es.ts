@@ -0,0 +1,483 @@
+import { Messages } from './en';
+
+const es: Messages = {
+  common: {
+    feet: { left: 'Pie izquierdo', right: 'Pie derecho' },
+    footShort: { left: 'Izquierdo', right: 'Derecho' },
+    views: { top: 'Vista superior', side: 'Vista lateral', back: 'Vista posterior', footprint: 'Huella' },
+    archTypes: { Normal: 'Normal', Flat: 'Plano', High: 'Alto', Unknown: 'Desconocido' },
+    severities: { Mild: 'Leve', Moderate: 'Moderado', Severe: 'Grave', Unknown: 'Desconocido' },
+    grades: { Normal: 'Normal', Mild: 'Leve', Moderate: 'Moderado', Severe: 'Grave' },
+    alignments: { Neutral: 'Neutro', Pronated: 'Pronado', Supinated: 'Supinado' },
+    cancel: 'Cancelar',
+    namePlaceholder: 'Ana García',
+    emailPlaceholder: 'tu@ejemplo.com',
+  },
+  app: {
+    tagline: 'Obtén información sobre la salud de tus pies con inteligencia artificial.',
+    language: 'Idioma',
+    uploadMode: 'Subir fotos',
+    scanMode: 'Escaneo en vivo',
+    qualityTitle: 'Algunas fotos pueden dar un análisis poco fiable',
+    qualityWarning: '{foot}, {view}: {warnings}',
+    qualityHint: 'Repite o elimina estas fotos, o pulsa «Analizar de todos modos» para continuar.',
+    analyzing: 'Analizando...',
+    checkingQuality: 'Comprobando la calidad de las fotos...',
+    analyzeAnyway: 'Analizar de todos modos',
+    analyze: 'Analizar pies',
+    unknownError: 'Se ha producido un error desconocido.',
+    fhirExportFailed: 'La exportación FHIR ha fallado.',
+    noAnalysisToAsk: 'No hay ningún análisis sobre el que preguntar.',
+    noAnalysisToSend: 'No hay ningún análisis que enviar.',
+    noAnalysisToReview: 'Solo se pueden revisar los análisis guardados.',
+    offline: 'Sin conexión. Los nuevos análisis se guardarán y se enviarán cuando vuelvas a conectarte.',
+    storageBlocked: 'SmartStep está abierto en otra pestaña con una versión anterior, así que no se puede cargar tu historial. Cierra las demás pestañas y recarga esta página.',
+    innovatedBy: 'Creado por',
+  },
+  outbox: {
+    title: 'Pendientes de envío',
+    intro: 'Guardados en este dispositivo porque no se pudo contactar con el servicio de análisis. Se analizan automáticamente cuando vuelvas a tener conexión.',
+    queued: 'No hay conexión, así que tus fotos se han guardado. Se analizarán automáticamente cuando vuelvas a tener conexión.',
+    photos: { one: '{count} foto', other: '{count} fotos' },
+    waiting: 'Esperando conexión',
+    sending: 'Analizando...',
+    failed: 'Error: {error}',
+    retry: 'Reintentar',
+    remove: 'Eliminar análisis pendiente',
+    confirmRemove: '¿Eliminar las fotos guardadas el {date}? No se analizarán.',
+    ready: 'El análisis de las fotos guardadas el {date} está listo.',
+    readyTitle: 'Análisis de SmartStep listo',
+    view: 'Ver',
+    dismiss: 'Descartar',
+  },
+  history: {
+    title: 'Análisis anteriores',
+    intro: 'Guardados solo en este dispositivo. Selecciona dos para comparar la evolución.',
+    compare: 'Comparar ({selected}/{total})',
+    select: 'Seleccionar para comparar',
+    remove: 'Eliminar análisis',
+    confirmRemove: '¿Eliminar el análisis del {date}?',
+    footSummary: '{foot}: arco {archType}',
+    issues: { one: '{count} problema', other: '{count} problemas' },
+    provider: '{provider} · prompt {version}',
+    open: 'Abrir',
+    viewing: 'Abierto',
+    empty: 'Aún no hay análisis guardados. Los análisis completados aparecerán aquí.',
+  },
+  uploader: {
+    title: 'Subir imágenes de los pies',
+    intro: 'Sube hasta 3 fotos de cada pie y, si quieres, una huella. Te sugeriremos el pie y la vista de cada foto; acéptalos o corrígelos antes de analizar. Incluye una tarjeta bancaria o una hoja A4 en la vista superior para medir el tamaño del pie.',
+    views: {
+      top: { label: 'Superior', description: 'Desde justo encima del pie, con una tarjeta bancaria o una hoja A4 al lado como referencia.' },
+      side: { label: 'Lateral (arco)', description: 'La cara interna del pie, mostrando el arco.' },
+      back: { label: 'Posterior (talón)', description: 'Desde justo detrás del talón.' },
+      footprint: { label: 'Huella', description: 'Opcional: una huella húmeda o de tinta sobre papel, fotografiada desde arriba.' },
+    },
+    clickToUpload: 'Haz clic para subir',
+    orDragAndDrop: 'o arrastra y suelta',
+    fileTypes: 'PNG, JPG o WEBP (máx. {count} imágenes)',
+    processing: 'Optimizando fotos y eliminando datos de ubicación...',
+    unreadable: 'No se pudo leer {files}. Prueba con otra foto en formato PNG, JPG o WEBP.',
+    dismiss: 'Cerrar',
+    detecting: 'Detectando pie y vista...',
+    notAFoot: 'Esto no parece un pie.',
+    undetected: 'No se pudo detectar la vista; etiqueta esta foto tú mismo.',
+    tagMatches: 'La etiqueta coincide con la vista detectada.',
+    possibleMistag: 'Posible etiqueta errónea; parece',
+    looksLike: 'Parece',
+    slotTaken: 'Otra foto ya tiene esta etiqueta.',
+    accept: 'Aceptar',
+    previewAlt: 'Vista previa del pie',
+    removeImage: 'Eliminar imagen',
+    optimized: 'Optimizada {from} → {to}',
+    saving: '(−{percent})',
+    tagLabel: 'Pie {foot}, vista {view}',
+  },
+  scanner: {
+    title: 'Escaneo del pie en vivo',
+    intro: 'Sigue la guía animada para capturar tres vistas de cada pie con la cámara.',
+    handsFree: 'Manos libres: capturar automáticamente cuando la cámara esté estable',
+    start: 'Iniciar escaneo',
+    steps: {
+      top: { title: 'Vista superior', description: 'Coloca el pie para que coincida con el contorno desde arriba. Pon una tarjeta bancaria o una hoja A4 al lado como referencia.' },
+      side: { title: 'Vista lateral (arco)', description: 'Muestra el arco interno del pie.' },
+      back: { title: 'Vista posterior (talón)', description: 'Muestra la parte trasera del talón.' },
+      footprint: { title: 'Huella', description: 'Fotografía una huella húmeda o de tinta sobre papel desde justo encima, llenando el encuadre.' },
+    },
+    autoStatus: {
+      settling: 'Colócate en posición...',
+      moving: 'Mantén la cámara quieta',
+      blurry: 'La imagen está borrosa; ajusta el enfoque o la luz',
+      steady: 'Mantén la posición',
+    },
+    cameraError: 'Error de cámara',
+    cameraErrorDetail: 'No se pudo acceder a la cámara. Revisa los permisos del navegador e inténtalo de nuevo.',
+    tryAgain: 'Reintentar',
+    stepOf: 'Paso {step} de {total}',
+    optional: 'Opcional',
+    reset: 'Reiniciar escaneo',
+    autoOn: 'Auto activado',
+    autoOff: 'Auto desactivado',
+    capture: 'Capturar',
+    captureFailed: 'No se pudo tomar la foto. Inténtalo de nuevo.',
+    complete: '¡Capturas completadas!',
+    completeHint: 'Pulsa «Analizar pies» abajo para procesar las imágenes, o vuelve a tomarlas.',
+    previewAlt: 'Vista previa: {view}',
+    retake: 'Repetir',
+    captureOptional: 'Capturar (opcional)',
+    retakeAll: 'Repetir escaneos',
+  },
+  quality: {
+    checking: 'Comprobando la calidad...',
+    good: 'Buena calidad ({score})',
+    score: 'Calidad {score}/100',
+    issues: {
+      tooSmall: 'La imagen es demasiado pequeña ({width}×{height}); usa al menos {minimum} px en el lado corto.',
+      blurry: 'La imagen se ve borrosa; sujeta la cámara firme y asegúrate de que el pie esté enfocado.',
+      tooDark: 'La imagen está demasiado oscura; añade más luz.',
+      overexposed: 'La imagen está sobreexpuesta; evita la luz directa o el flash.',
+      tooLittleFoot: 'El pie ocupa muy poco del encuadre; acerca la cámara.',
+    },
+  },
+  dashboard: {
+    loadingTitle: 'Analizando imagen...',
+    loadingDetail: 'Nuestra IA está examinando tus pies. Puede tardar un momento.',
+    streamingHint: 'Los resultados aparecen a medida que la IA los escribe y se comprueban al terminar.',
+    progressLabel: 'Progreso del análisis',
+    stages: {
+      sending: 'Enviando fotos',
+      archType: 'Tipo de arco',
+      potentialIssues: 'Problemas',
+      summary: 'Resumen',
+      recommendations: 'Recomendaciones',
+      validating: 'Comprobando',
+    },
+    errorTitle: 'El análisis ha fallado',
+    awaitingTitle: 'Esperando análisis',
+    awaitingDetail: 'Sube una imagen y pulsa «Analizar» para ver aquí los resultados.',
+    results: 'Resultados: {foot}',
+    confidence: 'Confianza:',
+    archType: 'Tipo de arco',
+    measure: {
+      viewNames: { top: 'superior', side: 'lateral', back: 'posterior' },
+      markLandmarks: 'Marca puntos de referencia en la vista {view} para medir {subject}.',
+      captureView: 'Captura una vista {view} para medir {subject}.',
+      edit: 'Editar medición',
+    },
+    arch: {
+      title: 'Arco medido',
+      action: 'Medir arco',
+      subject: 'el arco',
+      summary: 'ángulo del arco {angle}° · índice navicular {ratio}',
+    },
+    hallux: {
+      title: 'Hallux valgus medido',
+      action: 'Medir juanete',
+      subject: 'el hallux valgus',
+      summary: 'HV {hv}° · IM {im}°',
+      notReported: 'La IA no detectó un juanete en este pie.',
+    },
+    rearfoot: {
+      title: 'Alineación del retropié medida',
+      action: 'Medir talón',
+      subject: 'la alineación del retropié',
+      summary: 'ángulo del retropié {angle}',
+      valgus: '{angle}° valgo',
+      varus: '{angle}° varo',
+    },
+    dimensions: {
+      title: 'Dimensiones del pie',
+      action: 'Medir tamaño',
+      subject: 'el tamaño del pie con una tarjeta u hoja A4 en la foto',
+      length: 'Largo',
+      forefoot: 'Antepié',
+      heel: 'Talón',
+    },
+    footprint: {
+      title: 'Índices de la huella',
+      staheli: 'Staheli',
+      chippauxSmirak: 'Chippaux–Smirak',
+      cavanagh: 'Cavanagh',
+      unmeasured: 'No se pudo medir la huella; usa una huella más nítida sobre papel liso que ocupe más parte de la foto.',
+    },
+    potentialIssues: 'Posibles problemas',
+    noIssues: 'No se detectaron problemas importantes.',
+    measured: 'Medido',
+    ai: '· IA',
+    aiSummary: 'Resumen de la IA',
+    footwear: 'Sugerencias de calzado',
+    insights: 'Observaciones clínicas de la IA',
+    compare: {
+      tab: 'Comparar',
+      title: 'Izquierdo frente a derecho',
+      asymmetries: { one: '{count} asimetría', other: '{count} asimetrías' },
+      symmetric: 'Simétrico',
+      arch: 'Arco {archType}',
+      issuesByFoot: 'Posibles problemas por pie',
+      issue: 'Problema',
+      noIssues: 'No se detectaron problemas importantes en ninguno de los pies.',
+    },
+    reanalyzeHint: 'Vuelve a ejecutar el análisis para que la IA tenga en cuenta tus mediciones.',
+    reanalyze: 'Volver a analizar',
+    disclaimer: 'Aviso: este análisis de IA no sustituye el consejo médico profesional.',
+    downloadReport: 'Descargar informe',
+    exportFhir: 'Exportar FHIR',
+    connectSpecialist: 'Contactar con un especialista',
+  },
+  measurement: {
+    instructions: 'Haz clic en la foto para colocar cada punto de referencia en orden y luego arrastra cualquier punto para ajustarlo.',
+    failed: 'No se pudieron medir estos puntos de referencia; comprueba que cada punto esté en su sitio.',
+    reset: 'Restablecer',
+    save: 'Guardar medición',
+    arch: {
+      alt: 'Vista lateral para medir el arco',
+      landmarks: {
+        heel: 'Punto de apoyo del talón',
+        metatarsalHead: 'Cabeza del 1.er metatarsiano',
+        navicular: 'Tuberosidad del navicular',
+        floorStart: 'Línea del suelo, atrás',
+        floorEnd: 'Línea del suelo, delante',
+      },
+      angle: 'Ángulo del arco',
+      ratio: 'Índice navicular',
+      archType: 'Arco',
+    },
+    hallux: {
+      alt: 'Vista superior para medir el hallux valgus',
+      landmarks: {
+        firstMetatarsalBase: 'Base del 1.er metatarsiano',
+        firstMetatarsalHead: 'Cabeza del 1.er metatarsiano',
+        halluxTip: 'Punta del dedo gordo',
+        secondMetatarsalBase: 'Base del 2.º metatarsiano',
+        secondMetatarsalHead: 'Cabeza del 2.º metatarsiano',
+      },
+      hv: 'Ángulo HV',
+      im: 'Ángulo IM',
+      grade: 'Grado',
+    },
+    rearfoot: {
+      alt: 'Vista posterior para medir la alineación del retropié',
+      landmarks: {
+        legTop: 'Línea media de la pierna, arriba',
+        legBottom: 'Línea media de la pierna, abajo',
+        heelTop: 'Línea media del talón, arriba',
+        heelBottom: 'Línea media del talón, abajo',
+      },
+      angle: 'Ángulo del retropié',
+      alignment: 'Alineación',
+    },
+    dimensions: {
+      alt: 'Vista superior para medir el pie',
+      reference: 'Referencia:',
+      referenceObject: 'Objeto de referencia',
+      referenceObjects: { card: 'Tarjeta bancaria o DNI', a4: 'Hoja A4' },
+      landmarks: {
+        referenceCorner1: 'Esquina de referencia 1',
+        referenceCorner2: 'Esquina de referencia 2',
+        referenceCorner3: 'Esquina de referencia 3',
+        referenceCorner4: 'Esquina de referencia 4',
+        heel: 'Parte posterior del talón',
+        toe: 'Punta del dedo más largo',
+        forefootMedial: 'Antepié, borde interno',
+        forefootLateral: 'Antepié, borde externo',
+        heelMedial: 'Talón, borde interno',
+        heelLateral: 'Talón, borde externo',
+      },
+      length: 'Largo',
+      forefoot: 'Ancho del antepié',
+      heel: 'Ancho del talón',
+    },
+  },
+  shoeSize: {
+    title: 'Talla de calzado',
+    edit: 'Editar',
+    manualHint: 'Mide tu pie de pie sobre un papel, o usa «{action}» en la vista superior. Introduce ambas medidas en milímetros.',
+    footLength: 'Largo del pie (mm)',
+    forefootWidth: 'Ancho del antepié (mm)',
+    submit: 'Ver tallas',
+    systems: { eu: 'EU', uk: 'UK', usMen: 'US hombre', usWomen: 'US mujer', jp: 'JP (cm)', mondopoint: 'Mondopoint' },
+    widthFitting: 'Ancho:',
+    widths: { narrow: 'Estrecho', standard: 'Estándar', wide: 'Ancho', extraWide: 'Extra ancho' },
+    notes: {
+      bunion: 'Ancho aumentado un número por el juanete; elige una puntera ancha y blanda, sin costuras sobre la articulación.',
+      flatArch: 'Elige calzado con plantilla extraíble para que quepa una ortesis de soporte; prueba media talla más si la ortesis es gruesa.',
+      highArch: 'Busca más profundidad y cordones ajustables para que el empeine alto no quede presionado.',
+    },
+    basis: {
+      measured: 'Según un pie de {length} × {width} medido en la vista superior. Las tallas varían entre marcas; pruébate el calzado cuando puedas.',
+      manual: 'Según un pie de {length} × {width} introducido a mano. Las tallas varían entre marcas; pruébate el calzado cuando puedas.',
+    },
+  },
+  progress: {
+    title: 'Comparación de evolución',
+    close: 'Cerrar comparación',
+    noSharedFoot: 'Estos análisis no tienen ningún pie en común, así que no hay nada que comparar.',
+    archType: 'Tipo de arco',
+    confidence: 'Confianza',
+    issues: 'Problemas',
+    noIssues: 'Ningún problema en ninguno de los dos análisis.',
+    noViews: 'No se capturaron las mismas vistas en ambas sesiones.',
+    statuses: { added: 'Nuevo', resolved: 'Resuelto', unchanged: 'Sin cambios', improved: 'Mejor', worsened: 'Peor', changed: 'Cambiado' },
+    before: 'Antes',
+    after: 'Después',
+    beforeAlt: '{view} antes',
+    afterAlt: '{view} después',
+    slider: 'Posición antes/después de {view}',
+  },
+  report: {
+    title: 'Descargar informe clínico',
+    subtitle: 'El PDF se crea en este dispositivo.',
+    close: 'Cerrar ventana',
+    patientName: 'Nombre del paciente',
+    dateOfBirth: 'Fecha de nacimiento',
+    notes: 'Notas para el profesional (opcional)',
+    notesPlaceholder: 'Síntomas, antecedentes, calzado actual...',
+    download: 'Descargar PDF',
+    // Text of the PDF itself. Labels are printed in a 40 mm column, so keep them short.
+    pdf: {
+      title: 'Informe de análisis de pies SmartStep AI',
+      patientDetails: 'Datos del paciente',
+      name: 'Nombre:',
+      dateOfBirth: 'Nacimiento:',
+      analysisDate: 'Fecha del análisis:',
+      generated: 'Informe creado:',
+      status: 'Estado:',
+      notProvided: 'No indicado',
+      reviewedBy: 'Revisado por {reviewer}, {date}',
+      aiDraft: 'Borrador de la IA, sin revisión clínica',
+      notes: 'Notas:',
+      archType: 'Tipo de arco:',
+      confidence: 'Confianza IA:',
+      measuredArch: 'Arco medido:',
+      archDetail: '{archType} (ángulo del arco {angle}°, índice navicular {ratio})',
+      hallux: 'Hallux valgus:',
+      halluxDetail: '{grade} (ángulo HV {hv}°, ángulo IM {im}°)',
+      rearfoot: 'Retropié:',
+      footSize: 'Tamaño del pie:',
+      footSizeDetail: 'Largo {length} mm, antepié {forefoot} mm, talón {heel} mm',
+      footprint: 'Huella:',
+      footprintDetail: '{archType} (Staheli {staheli}, Chippaux–Smirak {chippauxSmirak} %, Cavanagh {cavanagh})',
+      issues: 'Posibles problemas',
+      issue: 'Problema',
+      severity: 'Gravedad',
+      finding: 'Hallazgo',
+      noIssues: 'No se detectaron problemas importantes.',
+      summary: 'Resumen',
+      noSummary: 'Sin resumen.',
+      recommendations: 'Recomendaciones clínicas',
+      footwear: 'Sugerencias de calzado',
+      noneProvided: 'Ninguna.',
+      shoeSize: 'Talla de calzado',
+      sizes: 'EU {eu} · UK {uk} · US hombre {usMen} · US mujer {usWomen} · JP {jp} · Mondopoint {mondopoint}',
+      widthFitting: 'Ancho:',
+      basedOn: 'Según:',
+      basis: {
+        measured: 'pie de {length} × {width} mm, medido en la foto',
+        manual: 'pie de {length} × {width} mm, introducido a mano',
+      },
+      noFitAdjustments: 'No hace falta ningún ajuste.',
+      clinicianNotes: 'Notas del profesional',
+      disclaimer: 'Aviso: Este informe lo ha generado un sistema de IA a partir de fotografías tomadas por el paciente. Sirve de apoyo a la valoración de un profesional sanitario cualificado, no la sustituye, y no es un diagnóstico.',
+      patient: 'Paciente',
+      footer: 'SmartStep AI · {name} · Página {page} de {count}',
+    },
+  },
+  chat: {
+    title: 'Pregunta sobre tus resultados',
+    intro: 'Las respuestas se basan en este análisis y en tus fotos. Son información general, no un diagnóstico ni una prescripción.',
+    suggestions: [
+      '¿Qué significan estos hallazgos para mí?',
+      '¿Qué zapatillas de running irían bien a mis pies?',
+      '¿Hay ejercicios que puedan ayudar?',
+    ],
+    thinking: 'Pensando…',
+    placeholder: 'Haz una pregunta sobre tus resultados…',
+    inputLabel: 'Pregunta sobre tus resultados',
+    send: 'Enviar',
+    book: 'Reservar una teleconsulta',
+    failed: 'El asistente no ha podido responder en este momento.',
+    guardrails: {
+      redFlag: 'Lo que describes puede ser señal de un problema que debe examinarse en persona, y esta aplicación no puede valorarlo a partir de fotos. Reserva una teleconsulta con un podólogo, o acude a urgencias si los síntomas son graves o empeoran.',
+      prescription: 'No puedo recomendar medicamentos, dosis ni tratamientos con receta. Un podólogo o tu médico puede aconsejarte después de examinar tus pies; la teleconsulta es un buen lugar para preguntarlo.',
+    },
+  },
+  telemedicine: {
+    title: 'Solicitud de teleconsulta',
+    subtitle: 'Se enviará un resumen al especialista.',
+    close: 'Cerrar ventana',
+    sentTitle: '¡Solicitud enviada!',
+    sentDetail: 'Un especialista revisará tu información y se pondrá en contacto contigo por correo electrónico en breve.',
+    fullName: 'Nombre completo',
+    email: 'Correo electrónico',
+    message: 'Se compartirá con el especialista',
+    photosAttached: { one: 'Se adjunta tu foto.', other: 'Se adjuntan tus {count} fotos.' },
+    sending: 'Enviando...',
+    failedTitle: 'No se pudo enviar la solicitud.',
+    retry: 'Reintentar',
+    reference: 'Tu número de caso es {reference}. Indícalo si te pones en contacto con nosotros.',
+    done: 'Cerrar',
+    submit: 'Solicitar consulta',
+    summary: {
+      heading: '--- Resumen del análisis de IA ---',
+      reviewStatus: 'Estado de la revisión',
+      archType: 'Tipo de arco',
+      issues: 'Posibles problemas',
+      noneDetected: 'Ninguno detectado',
+      aiSummary: 'Resumen de la IA',
+      footwear: 'Sugerencias de calzado',
+      clinical: 'Recomendaciones clínicas',
+      confidence: 'Puntuación de confianza: {score}',
+      notAvailable: 'N/D',
+    },
+  },
+  review: {
+    clinicianMode: 'Modo clínico',
+    aiDraft: 'Borrador de la IA',
+    aiDraftDetail: 'No revisado por un profesional clínico.',
+    inProgress: { one: 'Revisión en curso, queda {count} hallazgo por decidir.', other: 'Revisión en curso, quedan {count} hallazgos por decidir.' },
+    reviewed: 'Revisado por un clínico',
+    reviewedBy: 'Firmado por {reviewer} el {date}.',
+    showingDraft: 'Se muestra el borrador original de la IA de un análisis revisado.',
+    showDraft: 'Ver borrador de la IA',
+    showReviewed: 'Ver versión revisada',
+    start: 'Revisar hallazgos',
+    continue: 'Continuar revisión',
+    revise: 'Modificar revisión',
+    notes: 'Notas del clínico',
+    noteSubjects: { archType: 'Tipo de arco', issue: 'Problema', recommendation: 'Recomendación', footwear: 'Calzado', general: 'General' },
+    title: 'Revisión clínica',
+    subtitle: 'Acepte, edite o rechace cada hallazgo de la IA, añada los suyos y firme.',
+    close: 'Cerrar revisión',
+    decisionLabel: 'Decisión',
+    decisions: { accepted: 'Aceptar', edited: 'Editar', rejected: 'Rechazar' },
+    archType: 'Tipo de arco',
+    issues: 'Posibles problemas',
+    noIssues: 'La IA no informó de ningún problema.',
+    recommendations: 'Recomendaciones clínicas',
+    footwear: 'Sugerencias de calzado',
+    issueName: 'Hallazgo',
+    condition: 'Afección',
+    otherCondition: 'Otra (indíquela abajo)',
+    severity: 'Gravedad',
+    description: 'Descripción',
+    notePlaceholder: 'Nota (opcional)',
+    added: 'Añadido por el clínico',
+    addIssue: 'Añadir hallazgo',
+    addRecommendation: 'Añadir recomendación',
+    addFootwear: 'Añadir sugerencia',
+    removeAdded: 'Eliminar',
+    generalNote: 'Nota general de este pie',
+    pending: { one: 'Queda {count} hallazgo por decidir.', other: 'Quedan {count} hallazgos por decidir.' },
+    allDecided: 'Se han decidido todos los hallazgos.',
+    acceptRemaining: 'Aceptar los restantes',
+    reviewer: 'Nombre del revisor',
+    reviewerPlaceholder: 'Dra. Juana Pérez',
+    revisingSignedOff: '{reviewer} firmó esta revisión. Al guardar cambios se retira la firma hasta que vuelva a firmar.',
+    saveDraft: 'Guardar borrador',
+    signOff: 'Firmar',
+    saveFailed: 'No se pudo guardar la revisión: {error}',
+    status: { draft: 'Borrador IA', inProgress: 'En revisión', reviewed: 'Revisado' },
+  },
+};
+
+export default es;
@@ -0,0 +1,483 @@
+import { Messages } from './en';
+
+const fr: Messages = {
+  common: {
+    feet: { left: 'Pied gauche', right: 'Pied droit' },
+    footShort: { left: 'Gauche', right: 'Droit' },
+    views: { top: 'Vue de dessus', side: 'Vue de profil', back: 'Vue arrière', footprint: 'Empreinte' },
+    archTypes: { Normal: 'Normale', Flat: 'Plate', High: 'Creuse', Unknown: 'Inconnue' },
+    severities: { Mild: 'Léger', Moderate: 'Modéré', Severe: 'Sévère', Unknown: 'Inconnu' },
+    grades: { Normal: 'Normal', Mild: 'Léger', Moderate: 'Modéré', Severe: 'Sévère' },
+    alignments: { Neutral: 'Neutre', Pronated: 'En pronation', Supinated: 'En supination' },
+    cancel: 'Annuler',
+    namePlaceholder: 'Marie Dupont',
+    emailPlaceholder: 'vous@exemple.fr',
+  },
+  app: {
+    tagline: 'Des analyses de la santé de vos pieds grâce à l’IA.',
+    language: 'Langue',
+    uploadMode: 'Importer des photos',
+    scanMode: 'Scan en direct',
+    qualityTitle: 'Certaines photos risquent de fausser l’analyse',
+    qualityWarning: '{foot}, {view} : {warnings}',
+    qualityHint: 'Reprenez ou supprimez ces photos, ou cliquez sur « Analyser quand même » pour continuer.',
+    analyzing: 'Analyse en cours...',
+    checkingQuality: 'Vérification de la qualité des photos...',
+    analyzeAnyway: 'Analyser quand même',
+    analyze: 'Analyser les pieds',
+    unknownError: 'Une erreur inconnue s’est produite.',
+    fhirExportFailed: 'L’export FHIR a échoué.',
+    noAnalysisToAsk: 'Il n’y a aucune analyse sur laquelle poser une question.',
+    noAnalysisToSend: 'Il n’y a aucune analyse à envoyer.',
+    noAnalysisToReview: 'Seules les analyses enregistrées peuvent être relues.',
+    offline: 'Vous êtes hors ligne. Les nouvelles analyses seront enregistrées et envoyées à la reconnexion.',
+    storageBlocked: 'SmartStep est ouvert dans un autre onglet avec une version plus ancienne ; votre historique ne peut donc pas être chargé. Fermez les autres onglets et rechargez cette page.',
+    innovatedBy: 'Conçu par',
+  },
+  outbox: {
+    title: 'En attente d’envoi',
+    intro: 'Enregistrées sur cet appareil car le service d’analyse était injoignable. Elles sont analysées automatiquement dès que vous êtes de nouveau en ligne.',
+    queued: 'Pas de connexion : vos photos ont été enregistrées. Elles seront analysées automatiquement dès que vous serez de nouveau en ligne.',
+    photos: { one: '{count} photo', other: '{count} photos' },
+    waiting: 'En attente de connexion',
+    sending: 'Analyse en cours...',
+    failed: 'Échec : {error}',
+    retry: 'Réessayer',
+    remove: 'Supprimer l’analyse en attente',
+    confirmRemove: 'Supprimer les photos enregistrées le {date} ? Elles ne seront pas analysées.',
+    ready: 'L’analyse des photos enregistrées le {date} est prête.',
+    readyTitle: 'Analyse SmartStep prête',
+    view: 'Voir',
+    dismiss: 'Ignorer',
+  },
+  history: {
+    title: 'Analyses précédentes',
+    intro: 'Enregistrées uniquement sur cet appareil. Sélectionnez-en deux pour comparer l’évolution.',
+    compare: 'Comparer ({selected}/{total})',
+    select: 'Sélectionner pour comparer',
+    remove: 'Supprimer l’analyse',
+    confirmRemove: 'Supprimer l’analyse du {date} ?',
+    footSummary: '{foot} : voûte {archType}',
+    issues: { one: '{count} problème', other: '{count} problèmes' },
+    provider: '{provider} · prompt {version}',
+    open: 'Ouvrir',
+    viewing: 'Ouverte',
+    empty: 'Aucune analyse enregistrée pour l’instant. Les analyses terminées apparaîtront ici.',
+  },
+  uploader: {
+    title: 'Importer des photos des pieds',
+    intro: 'Importez jusqu’à 3 photos de chaque pied, ainsi qu’une empreinte facultative. Nous proposerons un pied et une vue pour chaque photo ; acceptez ou corrigez-les avant l’analyse. Placez une carte bancaire ou une feuille A4 dans la vue de dessus pour mesurer la pointure.',
+    views: {
+      top: { label: 'Dessus', description: 'Juste au-dessus du pied, avec une carte bancaire ou une feuille A4 à côté comme repère.' },
+      side: { label: 'Profil (voûte)', description: 'Face interne du pied, montrant la voûte.' },
+      back: { label: 'Arrière (talon)', description: 'Juste derrière le talon.' },
+      footprint: { label: 'Empreinte', description: 'Facultatif : une empreinte mouillée ou à l’encre sur papier, photographiée du dessus.' },
+    },
+    clickToUpload: 'Cliquez pour importer',
+    orDragAndDrop: 'ou glissez-déposez',
+    fileTypes: 'PNG, JPG ou WEBP (max. {count} images)',
+    processing: 'Optimisation des photos et suppression des données de localisation...',
+    unreadable: 'Impossible de lire {files}. Essayez une autre photo au format PNG, JPG ou WEBP.',
+    dismiss: 'Fermer',
+    detecting: 'Détection du pied et de la vue...',
+    notAFoot: 'Cela ne ressemble pas à un pied.',
+    undetected: 'Vue non détectée ; veuillez étiqueter cette photo vous-même.',
+    tagMatches: 'L’étiquette correspond à la vue détectée.',
+    possibleMistag: 'Étiquette peut-être erronée ; ressemble à',
+    looksLike: 'Ressemble à',
+    slotTaken: 'Une autre photo a déjà cette étiquette.',
+    accept: 'Accepter',
+    previewAlt: 'Aperçu du pied',
+    removeImage: 'Supprimer l’image',
+    optimized: 'Optimisée {from} → {to}',
+    saving: '(−{percent})',
+    tagLabel: 'Pied {foot}, vue {view}',
+  },
+  scanner: {
+    title: 'Scan du pied en direct',
+    intro: 'Suivez le guide animé pour capturer trois vues de chaque pied avec votre caméra.',
+    handsFree: 'Mains libres : capturer automatiquement quand la caméra est stable',
+    start: 'Lancer le scan',
+    steps: {
+      top: { title: 'Vue de dessus', description: 'Placez votre pied dans le contour vu du dessus. Posez une carte bancaire ou une feuille A4 à côté comme repère.' },
+      side: { title: 'Vue de profil (voûte)', description: 'Montrez la voûte interne de votre pied.' },
+      back: { title: 'Vue arrière (talon)', description: 'Montrez l’arrière de votre talon.' },
+      footprint: { title: 'Empreinte', description: 'Photographiez une empreinte mouillée ou à l’encre sur papier, juste au-dessus, en remplissant le cadre.' },
+    },
+    autoStatus: {
+      settling: 'Mettez-vous en position...',
+      moving: 'Gardez la caméra immobile',
+      blurry: 'Image floue, ajustez la mise au point ou l’éclairage',
+      steady: 'Ne bougez plus',
+    },
+    cameraError: 'Erreur de caméra',
+    cameraErrorDetail: 'Impossible d’accéder à la caméra. Vérifiez les autorisations du navigateur et réessayez.',
+    tryAgain: 'Réessayer',
+    stepOf: 'Étape {step} sur {total}',
+    optional: 'Facultatif',
+    reset: 'Recommencer le scan',
+    autoOn: 'Auto activé',
+    autoOff: 'Auto désactivé',
+    capture: 'Capturer',
+    captureFailed: 'La photo n’a pas pu être prise. Veuillez réessayer.',
+    complete: 'Captures terminées !',
+    completeHint: 'Cliquez sur « Analyser les pieds » ci-dessous pour traiter les images, ou reprenez-les.',
+    previewAlt: 'Aperçu : {view}',
+    retake: 'Reprendre',
+    captureOptional: 'Capturer (facultatif)',
+    retakeAll: 'Reprendre les scans',
+  },
+  quality: {
+    checking: 'Vérification de la qualité...',
+    good: 'Bonne qualité ({score})',
+    score: 'Qualité {score}/100',
+    issues: {
+      tooSmall: 'L’image est trop petite ({width}×{height}) ; utilisez au moins {minimum} px sur le petit côté.',
+      blurry: 'L’image semble floue ; tenez l’appareil immobile et vérifiez que le pied est net.',
+      tooDark: 'L’image est trop sombre ; ajoutez de la lumière.',
+      overexposed: 'L’image est surexposée ; évitez la lumière directe ou le flash.',
+      tooLittleFoot: 'Le pied occupe trop peu du cadre ; rapprochez l’appareil.',
+    },
+  },
+  dashboard: {
+    loadingTitle: 'Analyse de l’image...',
+    loadingDetail: 'Notre IA examine vos pieds. Cela peut prendre un moment.',
+    streamingHint: 'Les résultats s’affichent au fur et à mesure que l’IA les rédige et sont vérifiés à la fin.',
+    progressLabel: 'Progression de l’analyse',
+    stages: {
+      sending: 'Envoi des photos',
+      archType: 'Type de voûte',
+      potentialIssues: 'Problèmes',
+      summary: 'Résumé',
+      recommendations: 'Recommandations',
+      validating: 'Vérification',
+    },
+    errorTitle: 'Échec de l’analyse',
+    awaitingTitle: 'En attente d’analyse',
+    awaitingDetail: 'Importez une image et cliquez sur « Analyser » pour voir les résultats ici.',
+    results: 'Résultats : {foot}',
+    confidence: 'Confiance :',
+    archType: 'Type de voûte',
+    measure: {
+      viewNames: { top: 'de dessus', side: 'de profil', back: 'arrière' },
+      markLandmarks: 'Placez des repères sur la vue {view} pour mesurer {subject}.',
+      captureView: 'Capturez une vue {view} pour mesurer {subject}.',
+      edit: 'Modifier la mesure',
+    },
+    arch: {
+      title: 'Voûte mesurée',
+      action: 'Mesurer la voûte',
+      subject: 'la voûte',
+      summary: 'angle de voûte {angle}° · rapport naviculaire {ratio}',
+    },
+    hallux: {
+      title: 'Hallux valgus mesuré',
+      action: 'Mesurer l’oignon',
+      subject: 'l’hallux valgus',
+      summary: 'HV {hv}° · IM {im}°',
+      notReported: 'L’IA n’a pas signalé d’oignon sur ce pied.',
+    },
+    rearfoot: {
+      title: 'Alignement de l’arrière-pied mesuré',
+      action: 'Mesurer le talon',
+      subject: 'l’alignement de l’arrière-pied',
+      summary: 'angle de l’arrière-pied {angle}',
+      valgus: '{angle}° valgus',
+      varus: '{angle}° varus',
+    },
+    dimensions: {
+      title: 'Dimensions du pied',
+      action: 'Mesurer la taille',
+      subject: 'la taille du pied à l’aide d’une carte ou d’une feuille A4 sur la photo',
+      length: 'Longueur',
+      forefoot: 'Avant-pied',
+      heel: 'Talon',
+    },
+    footprint: {
+      title: 'Indices de l’empreinte',
+      staheli: 'Staheli',
+      chippauxSmirak: 'Chippaux–Smirak',
+      cavanagh: 'Cavanagh',
+      unmeasured: 'L’empreinte n’a pas pu être mesurée ; utilisez une empreinte plus nette sur papier uni qui occupe davantage la photo.',
+    },
+    potentialIssues: 'Problèmes potentiels',
+    noIssues: 'Aucun problème majeur détecté.',
+    measured: 'Mesuré',
+    ai: '· IA',
+    aiSummary: 'Résumé de l’IA',
+    footwear: 'Suggestions de chaussures',
+    insights: 'Observations cliniques de l’IA',
+    compare: {
+      tab: 'Comparer',
+      title: 'Gauche et droit',
+      asymmetries: { one: '{count} asymétrie', other: '{count} asymétries' },
+      symmetric: 'Symétrique',
+      arch: 'Voûte {archType}',
+      issuesByFoot: 'Problèmes potentiels par pied',
+      issue: 'Problème',
+      noIssues: 'Aucun problème majeur détecté sur l’un ou l’autre pied.',
+    },
+    reanalyzeHint: 'Relancez l’analyse pour que l’IA tienne compte de vos mesures.',
+    reanalyze: 'Relancer l’analyse',
+    disclaimer: 'Avertissement : cette analyse par IA ne remplace pas un avis médical professionnel.',
+    downloadReport: 'Télécharger le rapport',
+    exportFhir: 'Exporter en FHIR',
+    connectSpecialist: 'Contacter un spécialiste',
+  },
+  measurement: {
+    instructions: 'Cliquez sur la photo pour placer chaque repère dans l’ordre, puis faites glisser un point pour l’ajuster.',
+    failed: 'Ces repères n’ont pas pu être mesurés ; vérifiez que chaque point est au bon endroit.',
+    reset: 'Réinitialiser',
+    save: 'Enregistrer la mesure',
+    arch: {
+      alt: 'Vue de profil pour mesurer la voûte',
+      landmarks: {
+        heel: 'Point d’appui du talon',
+        metatarsalHead: 'Tête du 1er métatarsien',
+        navicular: 'Tubérosité naviculaire',
+        floorStart: 'Ligne du sol, arrière',
+        floorEnd: 'Ligne du sol, avant',
+      },
+      angle: 'Angle de la voûte',
+      ratio: 'Indice naviculaire',
+      archType: 'Voûte',
+    },
+    hallux: {
+      alt: 'Vue de dessus pour mesurer l’hallux valgus',
+      landmarks: {
+        firstMetatarsalBase: 'Base du 1er métatarsien',
+        firstMetatarsalHead: 'Tête du 1er métatarsien',
+        halluxTip: 'Pointe du gros orteil',
+        secondMetatarsalBase: 'Base du 2e métatarsien',
+        secondMetatarsalHead: 'Tête du 2e métatarsien',
+      },
+      hv: 'Angle HV',
+      im: 'Angle IM',
+      grade: 'Grade',
+    },
+    rearfoot: {
+      alt: 'Vue arrière pour mesurer l’alignement de l’arrière-pied',
+      landmarks: {
+        legTop: 'Axe de la jambe, haut',
+        legBottom: 'Axe de la jambe, bas',
+        heelTop: 'Axe du talon, haut',
+        heelBottom: 'Axe du talon, bas',
+      },
+      angle: 'Angle de l’arrière-pied',
+      alignment: 'Alignement',
+    },
+    dimensions: {
+      alt: 'Vue de dessus pour mesurer le pied',
+      reference: 'Référence :',
+      referenceObject: 'Objet de référence',
+      referenceObjects: { card: 'Carte bancaire ou d’identité', a4: 'Feuille A4' },
+      landmarks: {
+        referenceCorner1: 'Coin de référence 1',
+        referenceCorner2: 'Coin de référence 2',
+        referenceCorner3: 'Coin de référence 3',
+        referenceCorner4: 'Coin de référence 4',
+        heel: 'Arrière du talon',
+        toe: 'Pointe de l’orteil le plus long',
+        forefootMedial: 'Avant-pied, bord interne',
+        forefootLateral: 'Avant-pied, bord externe',
+        heelMedial: 'Talon, bord interne',
+        heelLateral: 'Talon, bord externe',
+      },
+      length: 'Longueur',
+      forefoot: 'Largeur de l’avant-pied',
+      heel: 'Largeur du talon',
+    },
+  },
+  shoeSize: {
+    title: 'Pointure',
+    edit: 'Modifier',
+    manualHint: 'Mesurez votre pied debout sur une feuille, ou utilisez « {action} » sur la vue de dessus. Saisissez les deux valeurs en millimètres.',
+    footLength: 'Longueur du pied (mm)',
+    forefootWidth: 'Largeur de l’avant-pied (mm)',
+    submit: 'Voir les pointures',
+    systems: { eu: 'EU', uk: 'UK', usMen: 'US homme', usWomen: 'US femme', jp: 'JP (cm)', mondopoint: 'Mondopoint' },
+    widthFitting: 'Largeur :',
+    widths: { narrow: 'Étroite', standard: 'Standard', wide: 'Large', extraWide: 'Très large' },
+    notes: {
+      bunion: 'Largeur augmentée d’un cran pour l’oignon ; choisissez un bout large et souple, sans couture sur l’articulation.',
+      flatArch: 'Choisissez des chaussures à semelle amovible pour y glisser une orthèse de soutien ; prenez une demi-pointure de plus si l’orthèse est épaisse.',
+      highArch: 'Privilégiez un chaussant profond et un laçage réglable pour ne pas comprimer le cou-de-pied cambré.',
+    },
+    basis: {
+      measured: 'D’après un pied de {length} × {width} mesuré sur la vue de dessus. Les pointures varient selon les marques ; essayez les chaussures quand vous le pouvez.',
+      manual: 'D’après un pied de {length} × {width} saisi manuellement. Les pointures varient selon les marques ; essayez les chaussures quand vous le pouvez.',
+    },
+  },
+  progress: {
+    title: 'Comparaison de l’évolution',
+    close: 'Fermer la comparaison',
+    noSharedFoot: 'Ces analyses ne portent pas sur le même pied, il n’y a donc rien à comparer.',
+    archType: 'Type de voûte',
+    confidence: 'Confiance',
+    issues: 'Problèmes',
+    noIssues: 'Aucun problème dans l’une ou l’autre analyse.',
+    noViews: 'Aucune vue n’a été prise lors des deux séances.',
+    statuses: { added: 'Nouveau', resolved: 'Résolu', unchanged: 'Inchangé', improved: 'Amélioré', worsened: 'Aggravé', changed: 'Modifié' },
+    before: 'Avant',
+    after: 'Après',
+    beforeAlt: '{view} avant',
+    afterAlt: '{view} après',
+    slider: 'Position avant/après de {view}',
+  },
+  report: {
+    title: 'Télécharger le rapport clinique',
+    subtitle: 'Le PDF est créé sur cet appareil.',
+    close: 'Fermer la fenêtre',
+    patientName: 'Nom du patient',
+    dateOfBirth: 'Date de naissance',
+    notes: 'Notes pour le praticien (facultatif)',
+    notesPlaceholder: 'Symptômes, antécédents, chaussures actuelles...',
+    download: 'Télécharger le PDF',
+    // Text of the PDF itself. Labels are printed in a 40 mm column, so keep them short.
+    pdf: {
+      title: 'Rapport d’analyse des pieds SmartStep AI',
+      patientDetails: 'Informations du patient',
+      name: 'Nom :',
+      dateOfBirth: 'Naissance :',
+      analysisDate: 'Date d’analyse :',
+      generated: 'Rapport créé :',
+      status: 'Statut :',
+      notProvided: 'Non renseigné',
+      reviewedBy: 'Relu par {reviewer}, {date}',
+      aiDraft: 'Brouillon de l’IA, non relu par un praticien',
+      notes: 'Notes :',
+      archType: 'Type de voûte :',
+      confidence: 'Confiance IA :',
+      measuredArch: 'Voûte mesurée :',
+      archDetail: '{archType} (angle de la voûte {angle}°, indice naviculaire {ratio})',
+      hallux: 'Hallux valgus :',
+      halluxDetail: '{grade} (angle HV {hv}°, angle IM {im}°)',
+      rearfoot: 'Arrière-pied :',
+      footSize: 'Taille du pied :',
+      footSizeDetail: 'Longueur {length} mm, avant-pied {forefoot} mm, talon {heel} mm',
+      footprint: 'Empreinte :',
+      footprintDetail: '{archType} (Staheli {staheli}, Chippaux–Smirak {chippauxSmirak} %, Cavanagh {cavanagh})',
+      issues: 'Problèmes potentiels',
+      issue: 'Problème',
+      severity: 'Gravité',
+      finding: 'Constat',
+      noIssues: 'Aucun problème majeur détecté.',
+      summary: 'Résumé',
+      noSummary: 'Aucun résumé.',
+      recommendations: 'Recommandations cliniques',
+      footwear: 'Suggestions de chaussures',
+      noneProvided: 'Aucune.',
+      shoeSize: 'Pointure',
+      sizes: 'EU {eu} · UK {uk} · US homme {usMen} · US femme {usWomen} · JP {jp} · Mondopoint {mondopoint}',
+      widthFitting: 'Largeur :',
+      basedOn: 'D’après :',
+      basis: {
+        measured: 'pied de {length} × {width} mm, mesuré sur la photo',
+        manual: 'pied de {length} × {width} mm, saisi manuellement',
+      },
+      noFitAdjustments: 'Aucun ajustement nécessaire.',
+      clinicianNotes: 'Notes du praticien',
+      disclaimer: 'Avertissement : ce rapport a été généré par un système d’IA à partir de photos prises par le patient. Il aide à l’évaluation par un professionnel de santé qualifié sans la remplacer et ne constitue pas un diagnostic.',
+      patient: 'Patient',
+      footer: 'SmartStep AI · {name} · Page {page} sur {count}',
+    },
+  },
+  chat: {
+    title: 'Questions sur vos résultats',
+    intro: 'Les réponses s’appuient sur cette analyse et vos photos. Il s’agit d’informations générales, pas d’un diagnostic ni d’une prescription.',
+    suggestions: [
+      'Que signifient ces résultats pour moi ?',
+      'Quelles chaussures de running conviendraient à mes pieds ?',
+      'Y a-t-il des exercices qui pourraient aider ?',
+    ],
+    thinking: 'Réflexion…',
+    placeholder: 'Posez une question sur vos résultats…',
+    inputLabel: 'Question sur vos résultats',
+    send: 'Envoyer',
+    book: 'Réserver une téléconsultation',
+    failed: 'L’assistant n’a pas pu répondre pour le moment.',
+    guardrails: {
+      redFlag: 'Ce que vous décrivez peut être le signe d’un problème qui doit être examiné en personne, et cette application ne peut pas l’évaluer à partir de photos. Réservez une téléconsultation avec un podologue, ou consultez en urgence si les symptômes sont importants ou s’aggravent.',
+      prescription: 'Je ne peux pas recommander de médicaments, de doses ni de traitements sur ordonnance. Un podologue ou votre médecin pourra vous conseiller après avoir examiné vos pieds ; la téléconsultation est le bon moment pour le demander.',
+    },
+  },
+  telemedicine: {
+    title: 'Demande de téléconsultation',
+    subtitle: 'Un résumé sera envoyé au spécialiste.',
+    close: 'Fermer la fenêtre',
+    sentTitle: 'Demande envoyée !',
+    sentDetail: 'Un spécialiste examinera vos informations et vous contactera rapidement par e-mail.',
+    fullName: 'Nom complet',
+    email: 'Adresse e-mail',
+    message: 'Transmis au spécialiste',
+    photosAttached: { one: 'Votre photo est jointe.', other: 'Vos {count} photos sont jointes.' },
+    sending: 'Envoi en cours...',
+    failedTitle: 'La demande n’a pas pu être envoyée.',
+    retry: 'Réessayer',
+    reference: 'Votre numéro de dossier est {reference}. Merci de le rappeler si vous nous contactez.',
+    done: 'Fermer',
+    submit: 'Demander une consultation',
+    summary: {
+      heading: '--- Résumé de l’analyse par IA ---',
+      reviewStatus: 'Statut de la relecture',
+      archType: 'Type de voûte',
+      issues: 'Problèmes potentiels',
+      noneDetected: 'Aucun détecté',
+      aiSummary: 'Résumé de l’IA',
+      footwear: 'Suggestions de chaussures',
+      clinical: 'Recommandations cliniques',
+      confidence: 'Score de confiance : {score}',
+      notAvailable: 'N/D',
+    },
+  },
+  review: {
+    clinicianMode: 'Mode clinicien',
+    aiDraft: 'Brouillon de l’IA',
+    aiDraftDetail: 'Non relu par un clinicien.',
+    inProgress: { one: 'Relecture en cours, {count} constat reste à trancher.', other: 'Relecture en cours, {count} constats restent à trancher.' },
+    reviewed: 'Relu par un clinicien',
+    reviewedBy: 'Validé par {reviewer} le {date}.',
+    showingDraft: 'Affichage du brouillon original de l’IA d’une analyse relue.',
+    showDraft: 'Voir le brouillon de l’IA',
+    showReviewed: 'Voir la version relue',
+    start: 'Relire les constats',
+    continue: 'Reprendre la relecture',
+    revise: 'Modifier la relecture',
+    notes: 'Notes du clinicien',
+    noteSubjects: { archType: 'Type d’arche', issue: 'Problème', recommendation: 'Recommandation', footwear: 'Chaussures', general: 'Général' },
+    title: 'Relecture clinique',
+    subtitle: 'Acceptez, modifiez ou rejetez chaque constat de l’IA, ajoutez les vôtres, puis validez.',
+    close: 'Fermer la relecture',
+    decisionLabel: 'Décision',
+    decisions: { accepted: 'Accepter', edited: 'Modifier', rejected: 'Rejeter' },
+    archType: 'Type d’arche',
+    issues: 'Problèmes potentiels',
+    noIssues: 'L’IA n’a signalé aucun problème.',
+    recommendations: 'Recommandations cliniques',
+    footwear: 'Conseils de chaussures',
+    issueName: 'Constat',
+    condition: 'Affection',
+    otherCondition: 'Autre (à nommer ci-dessous)',
+    severity: 'Gravité',
+    description: 'Description',
+    notePlaceholder: 'Note (facultatif)',
+    added: 'Ajouté par le clinicien',
+    addIssue: 'Ajouter un constat',
+    addRecommendation: 'Ajouter une recommandation',
+    addFootwear: 'Ajouter un conseil',
+    removeAdded: 'Supprimer',
+    generalNote: 'Note générale pour ce pied',
+    pending: { one: '{count} constat reste à trancher.', other: '{count} constats restent à trancher.' },
+    allDecided: 'Tous les constats ont été tranchés.',
+    acceptRemaining: 'Accepter tous les restants',
+    reviewer: 'Nom du relecteur',
+    reviewerPlaceholder: 'Dr Jeanne Dupont',
+    revisingSignedOff: 'Cette relecture a été validée par {reviewer}. Enregistrer des modifications retire la validation jusqu’à une nouvelle validation.',
+    saveDraft: 'Enregistrer le brouillon',
+    signOff: 'Valider',
+    saveFailed: 'La relecture n’a pas pu être enregistrée : {error}',
+    status: { draft: 'Brouillon IA', inProgress: 'En relecture', reviewed: 'Relu' },
+  },
+};
+
+export default fr;
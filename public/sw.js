@@ -0,0 +1,93 @@
+// Caches the app shell so SmartStep opens without a connection. Analyses requested while
+// offline are queued by the app itself (services/outboxStore.ts) and sent once it is back online.
+
+// Bump to drop everything cached by an older version.
+const CACHE_NAME = 'smartstep-shell-v1';
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+// Filled in by the build with the hashed scripts and styles it wrote (see vite.config.ts).
+// They load on the first visit before this worker controls the page, so they are cached
+// here; the list also changes the worker on every build, so each build is installed.
+const BUILD_ASSETS = [];
+// Third-party scripts and styles loaded by index.html.
+const CACHED_ORIGINS = ['https://cdn.tailwindcss.com', 'https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll([...SHELL_URLS, ...BUILD_ASSETS]))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+// Drops the bundles of earlier builds, which the new shell no longer loads.
+const pruneOldAssets = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  const current = new Set(BUILD_ASSETS);
+  const requests = await cache.keys();
+  await Promise.all(requests
+    .filter(request => {
+      const url = new URL(request.url);
+      return url.origin === self.location.origin && url.pathname.startsWith('/assets/') && !current.has(url.pathname);
+    })
+    .map(request => cache.delete(request)));
+};
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(pruneOldAssets)
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Pages: network first so a new build is picked up, falling back to the cached shell.
+const handleNavigation = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put('/', response.clone());
+    return response;
+  } catch {
+    return (await cache.match('/')) ?? Response.error();
+  }
+};
+
+// Scripts, styles, fonts and images: served from the cache and refreshed in the background.
+// Built assets have hashed names, so a cached copy is never stale for long.
+const handleAsset = async (event) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request).then(async (response) => {
+    if (response.ok || response.type === 'opaque') await cache.put(event.request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // API calls must reach the server; failing fast lets the app queue them.
+  if (request.method !== 'GET' || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === self.location.origin || CACHED_ORIGINS.includes(url.origin)) {
+    event.respondWith(handleAsset(event));
+  }
+});
+
+// Brings the app forward when a "results ready" notification is tapped.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients =>
+      clients.length > 0 ? clients[0].focus() : self.clients.openWindow('/'),
+    ),
+  );
+});
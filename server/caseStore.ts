@@ -0,0 +1,73 @@
+import { randomInt } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { FootSide, FootView, TelemedicineCase, TelemedicineRequest } from '../types';
+
+/**
+ * Where consultation requests are kept until a specialist picks them up. The file
+ * store below is enough to run locally; a deployment can provide another implementation.
+ */
+export interface CaseStore {
+  save: (request: TelemedicineRequest) => Promise<TelemedicineCase>;
+}
+
+// No 0/O or 1/I, so references can be read out over the phone.
+const REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const REFERENCE_SUFFIX_LENGTH = 6;
+const MAX_REFERENCE_ATTEMPTS = 5;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+// E.g. "SS-20261019-K7QD2M".
+const createReference = (date: Date): string => {
+  const day = date.toISOString().slice(0, 10).replace(/-/g, '');
+  const suffix = Array.from({ length: REFERENCE_SUFFIX_LENGTH }, () => REFERENCE_ALPHABET[randomInt(REFERENCE_ALPHABET.length)]).join('');
+  return `SS-${day}-${suffix}`;
+};
+
+// Creates a new, empty directory for a case, retrying on the rare reference collision.
+const createCaseDirectory = async (root: string, date: Date): Promise<{ reference: string; directory: string }> => {
+  await mkdir(root, { recursive: true });
+  for (let attempt = 0; attempt < MAX_REFERENCE_ATTEMPTS; attempt++) {
+    const reference = createReference(date);
+    const directory = path.join(root, reference);
+    try {
+      await mkdir(directory);
+      return { reference, directory };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+  }
+  throw new Error("Could not allocate a unique case reference.");
+};
+
+/**
+ * Stores each request in its own directory under `root`: the details and results in
+ * `case.json`, and each captured view as an image file next to it.
+ */
+export const createFileCaseStore = (root: string): CaseStore => ({
+  save: async (request) => {
+    const receivedAt = new Date();
+    const { reference, directory } = await createCaseDirectory(root, receivedAt);
+
+    const images: Partial<Record<FootSide, Partial<Record<FootView, string>>>> = {};
+    for (const [foot, views] of Object.entries(request.images) as [FootSide, Partial<Record<FootView, string>>][]) {
+      for (const [view, dataUrl] of Object.entries(views) as [FootView, string][]) {
+        const [header, data] = dataUrl.split(',');
+        const mimeType = header.match(/^data:(.*?);base64$/)?.[1] ?? '';
+        const fileName = `${foot}-${view}.${IMAGE_EXTENSIONS[mimeType]}`;
+        await writeFile(path.join(directory, fileName), Buffer.from(data, 'base64'));
+        images[foot] = { ...images[foot], [view]: fileName };
+      }
+    }
+
+    const { name, email, language, results, review } = request;
+    const stored = { reference, receivedAt: receivedAt.toISOString(), name, email, language, results, review, images };
+    await writeFile(path.join(directory, 'case.json'), JSON.stringify(stored, null, 2));
+    return { reference, receivedAt: stored.receivedAt };
+  },
+});
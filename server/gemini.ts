@@ -0,0 +1,175 @@
+import { GoogleGenAI } from "@google/genai";
+import { AnalysisResult, AnalyzeRequest, ChatMessage, FollowUpContext, FootSide, FootView, ViewClassification } from '../types';
+import { AnalysisValidationError, normalizeAnalysisResult, normalizeViewClassification, parseAnalysisJson } from '../services/analysisValidation';
+import {
+  ANALYSIS_RESPONSE_SCHEMA,
+  ANALYSIS_VIEW_CAPTIONS,
+  CHAT_RESPONSE_SCHEMA,
+  VIEW_CLASSIFICATION_PROMPT,
+  VIEW_CLASSIFICATION_SCHEMA,
+  analysisPrompt,
+  chatInstruction,
+  repairPrompt,
+} from './geminiPrompts';
+import { DEFAULT_MODEL } from '../services/geminiConfig';
+
+/**
+ * The model calls behind the /api endpoints. Only the server holds the API key; the
+ * browser sends photos as data URLs and gets validated results back.
+ */
+export interface GeminiBackend {
+  // Streams the model's raw output through onText, then resolves to the validated result.
+  analyze: (request: AnalyzeRequest, onText: (text: string) => void, onValidating: () => void) => Promise<AnalysisResult>;
+  classifyView: (image: string) => Promise<ViewClassification>;
+  chat: (context: FollowUpContext, messages: ChatMessage[]) => Promise<ChatMessage>;
+}
+
+const dataUrlToGenerativePart = (dataUrl: string) => {
+  const [header, data] = dataUrl.split(',');
+  return {
+    inlineData: { data, mimeType: header.match(/^data:(.*?);base64$/)?.[1] ?? 'image/jpeg' },
+  };
+};
+
+// Asks the model once to turn its own malformed output back into schema-conforming JSON.
+const repairAnalysisJson = async (ai: GoogleGenAI, model: string, rawText: string, problems: string[]): Promise<unknown> => {
+  const response = await ai.models.generateContent({
+    model,
+    contents: { parts: [{ text: repairPrompt(rawText, problems) }] },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: ANALYSIS_RESPONSE_SCHEMA,
+    },
+  });
+  return parseAnalysisJson(response.text ?? '');
+};
+
+const parseOrRepair = async (ai: GoogleGenAI, model: string, rawText: string, foot: FootSide): Promise<AnalysisResult> => {
+  let parsed: unknown;
+  try {
+    parsed = parseAnalysisJson(rawText);
+  } catch (error) {
+    if (!(error instanceof AnalysisValidationError)) throw error;
+    console.warn("Model returned malformed JSON, attempting one repair:", error.problems);
+    try {
+      parsed = await repairAnalysisJson(ai, model, rawText, error.problems);
+    } catch (repairError) {
+      if (repairError instanceof AnalysisValidationError) {
+        throw new AnalysisValidationError(
+          "The AI returned an incomplete or malformed analysis, even after a retry. Please try again.",
+          [...error.problems, ...repairError.problems],
+          rawText,
+        );
+      }
+      throw repairError;
+    }
+  }
+
+  const { result, corrections } = normalizeAnalysisResult(parsed, foot);
+  if (corrections.length > 0) {
+    console.warn("Corrected model output:", corrections);
+  }
+  return result;
+};
+
+const analyzeWithGemini = async (
+  ai: GoogleGenAI,
+  model: string,
+  { foot, images, measurements, language }: AnalyzeRequest,
+  onText: (text: string) => void,
+  onValidating: () => void,
+): Promise<AnalysisResult> => {
+  try {
+    const providedViews = ANALYSIS_VIEW_CAPTIONS.filter(([view]) => images[view]);
+    if (providedViews.length === 0) {
+      throw new Error("No images were provided for analysis.");
+    }
+
+    const stream = await ai.models.generateContentStream({
+      model,
+      contents: {
+        parts: [
+          { text: analysisPrompt(foot, providedViews.map(([view]) => view), measurements, language) },
+          ...providedViews.flatMap(([view, caption]) => [{ text: caption }, dataUrlToGenerativePart(images[view]!)]),
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: ANALYSIS_RESPONSE_SCHEMA,
+      },
+    });
+    let text = '';
+    for await (const chunk of stream) {
+      const delta = chunk.text ?? '';
+      text += delta;
+      if (delta) onText(delta);
+    }
+    onValidating();
+    return await parseOrRepair(ai, model, text, foot);
+
+  } catch (error) {
+    console.error("Error analyzing image with Gemini:", error);
+    if (error instanceof AnalysisValidationError) {
+      throw error;
+    }
+    throw new Error("Failed to analyze the image. The AI model may be unavailable or the image could not be processed.");
+  }
+};
+
+// A single small, non-thinking call per photo; used only to suggest upload tags.
+const classifyWithGemini = async (ai: GoogleGenAI, model: string, image: string): Promise<ViewClassification> => {
+  const response = await ai.models.generateContent({
+    model,
+    contents: {
+      parts: [
+        { text: VIEW_CLASSIFICATION_PROMPT },
+        dataUrlToGenerativePart(image),
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: VIEW_CLASSIFICATION_SCHEMA,
+      thinkingConfig: { thinkingBudget: 0 },
+    },
+  });
+  return normalizeViewClassification(parseAnalysisJson(response.text ?? ''));
+};
+
+// Multi-turn: the analysed photos go with the first question, the analysis in the system instruction.
+const chatWithGemini = async (ai: GoogleGenAI, model: string, context: FollowUpContext, messages: ChatMessage[]): Promise<ChatMessage> => {
+  const imageParts = (Object.keys(context.thumbnails) as FootView[]).flatMap(view => [
+    { text: `${view} view:` },
+    dataUrlToGenerativePart(context.thumbnails[view]!),
+  ]);
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents: messages.map((message, index) => ({
+        role: message.role === 'user' ? 'user' : 'model',
+        parts: index === 0 ? [...imageParts, { text: message.text }] : [{ text: message.text }],
+      })),
+      config: {
+        systemInstruction: chatInstruction(context),
+        responseMimeType: "application/json",
+        responseSchema: CHAT_RESPONSE_SCHEMA,
+      },
+    });
+    const parsed = parseAnalysisJson(response.text ?? '') as { reply?: unknown; referToClinician?: unknown };
+    if (typeof parsed.reply !== 'string' || parsed.reply.trim() === '') {
+      throw new AnalysisValidationError("The assistant returned an empty reply.", ['reply was missing.']);
+    }
+    return { role: 'assistant', text: parsed.reply.trim(), referToClinician: parsed.referToClinician === true };
+  } catch (error) {
+    console.error("Error answering follow-up question with Gemini:", error);
+    throw new Error("The assistant could not answer right now. Please try again.");
+  }
+};
+
+export const createGeminiBackend = ({ apiKey, model = DEFAULT_MODEL }: { apiKey: string; model?: string }): GeminiBackend => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    analyze: (request, onText, onValidating) => analyzeWithGemini(ai, model, request, onText, onValidating),
+    classifyView: (image) => classifyWithGemini(ai, model, image),
+    chat: (context, messages) => chatWithGemini(ai, model, context, messages),
+  };
+};
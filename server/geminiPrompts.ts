@@ -0,0 +1,200 @@
+import { Type } from "@google/genai";
+import { FollowUpContext, FootMeasurements, FootSide, FootView } from '../types';
+import { CONDITION_CODES, FOOT_CONDITIONS } from '../services/footConditions';
+import { formatRearfootAngle } from '../services/footMeasurements';
+import { languageName } from '../services/i18n';
+
+// Prompts and response schemas for the Gemini calls made by the server. Bump
+// PROMPT_VERSION in services/geminiConfig.ts whenever the analysis prompt or schema changes.
+
+export const ANALYSIS_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    archType: {
+      type: Type.STRING,
+      description: "The estimated type of the foot arch (Normal, Flat, High, Unknown).",
+      enum: ["Normal", "Flat", "High", "Unknown"],
+    },
+    potentialIssues: {
+      type: Type.ARRAY,
+      description: "A list of potential issues or deformities observed.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          condition: {
+            type: Type.STRING,
+            description: "The code of the condition from the foot-condition list, or 'other' when none of them fits.",
+            enum: CONDITION_CODES,
+          },
+          issue: { type: Type.STRING, description: "The name of the condition, or for 'other' the standard English medical term for the issue." },
+          severity: {
+            type: Type.STRING,
+            description: "The estimated severity of the issue.",
+            enum: ["Mild", "Moderate", "Severe", "Unknown"],
+          },
+          description: { type: Type.STRING, description: "A brief description of the finding and which view it was most apparent in (e.g., Top View, Side View, Back View)." },
+        },
+        required: ["condition", "issue", "severity", "description"],
+        propertyOrdering: ["condition", "issue", "severity", "description"],
+      },
+    },
+    summary: {
+      type: Type.STRING,
+      description: "A detailed summary of the analysis.",
+    },
+    clinicalRecommendations: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "A list of potential clinical recommendations for a healthcare professional.",
+    },
+    footwearSuggestions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "A list of suggested footwear types or features.",
+    },
+    confidenceScore: {
+      type: Type.NUMBER,
+      description: "An overall confidence score (0-100) for the analysis.",
+    },
+  },
+  required: ["archType", "potentialIssues", "summary", "clinicalRecommendations", "footwearSuggestions", "confidenceScore"],
+  // Fixed so a streamed response fills in the arch type, issues and summary first.
+  propertyOrdering: ["archType", "potentialIssues", "summary", "clinicalRecommendations", "footwearSuggestions", "confidenceScore"],
+};
+
+export const VIEW_CLASSIFICATION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    isFoot: { type: Type.BOOLEAN, description: "Whether the photo shows a human foot." },
+    view: {
+      type: Type.STRING,
+      description: "Which view of the foot the photo shows.",
+      enum: ["top", "side", "back", "footprint", "unknown"],
+    },
+    foot: {
+      type: Type.STRING,
+      description: "Whether the photo shows the left or right foot.",
+      enum: ["left", "right", "unknown"],
+    },
+    confidence: { type: Type.NUMBER, description: "Confidence (0-100) in the view and foot." },
+    reason: { type: Type.STRING, description: "One short sentence explaining the classification." },
+  },
+  required: ["isFoot", "view", "foot", "confidence", "reason"],
+};
+
+export const VIEW_CLASSIFICATION_PROMPT = `Classify this photo for a foot analysis app. Decide whether it shows a human foot and, if so, which view it is:
+- "top": taken from directly above the foot, showing the toes and the top of the foot.
+- "side": taken from the inner (medial) side, showing the arch.
+- "back": taken from directly behind, showing the heel.
+- "footprint": a wet or ink footprint on paper or the floor, with no foot in the photo. Set isFoot to true for these.
+Also decide whether it is the left or right foot, using the big toe and arch position. Use "unknown" whenever you are not sure.`;
+
+export const CHAT_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    reply: { type: Type.STRING, description: "The answer to the user's last message, in plain language." },
+    referToClinician: { type: Type.BOOLEAN, description: "True when the user should see a clinician about this question rather than rely on the app." },
+  },
+  required: ["reply", "referToClinician"],
+};
+
+// The captured views in the order they are given to the model, each with its caption.
+export const ANALYSIS_VIEW_CAPTIONS: [FootView, string][] = [
+  ['top', "Top View of the foot:"],
+  ['side', "Side View (Arch) of the foot:"],
+  ['back', "Back View (Heel) of the foot:"],
+  ['footprint', "Footprint (wet or ink print) of the foot:"],
+];
+
+export const chatInstruction = ({ result, language = 'en' }: FollowUpContext): string => {
+  const { archType, potentialIssues, summary, clinicalRecommendations, footwearSuggestions, confidenceScore } = result;
+  return `You are SmartStep's follow-up assistant. The user has just received an AI analysis of photos of their ${result.foot} foot, which are attached to their first message, and is asking questions about it.
+
+Rules:
+- Stay grounded in this analysis and the photos. Say so when a question cannot be answered from them.
+- You are not a clinician. Never diagnose a condition or confirm that the user has one; describe what the analysis suggests and that only an examination can confirm it.
+- Never recommend or dose medication, injections, surgery or any prescribed treatment.
+- General foot care and footwear advice (shoe features, types of running shoes, stretches commonly suggested for a finding) is fine.
+- If the user mentions symptoms that may need prompt care, such as numbness, signs of infection, wounds that do not heal, sudden or severe pain or swelling, or being unable to bear weight, set referToClinician to true and advise them to book a telemedicine consultation or seek urgent care.
+- Keep replies under 150 words.
+- Reply in ${languageName(language)}, whatever language the analysis below is written in.
+
+The analysis (confidence ${confidenceScore}%):
+- Arch type: ${archType}
+- Potential issues: ${potentialIssues.map(issue => `${issue.issue} (${issue.severity}): ${issue.description}`).join('; ') || 'none'}
+- Summary: ${summary}
+- Clinical recommendations: ${clinicalRecommendations.join('; ')}
+- Footwear suggestions: ${footwearSuggestions.join('; ')}`;
+};
+
+export const repairPrompt = (rawText: string, problems: string[]): string => `The following foot analysis was supposed to be a single JSON object matching the provided response schema, but it could not be parsed (${problems.join('; ')}). It may be truncated or contain extra text.
+
+Return the corrected, complete JSON object only. Keep every finding that is present, do not invent new findings, and complete any truncated text briefly.
+
+--- Malformed output ---
+${rawText}`;
+
+// The taxonomy as the model sees it, e.g. "- hallux-valgus: Hallux valgus".
+const CONDITION_LIST = [
+  ...FOOT_CONDITIONS.map(condition => `- ${condition.code}: ${condition.name}`),
+  "- other: any other finding; name it in the issue field",
+].join('\n');
+
+// Landmark measurements taken on these photos, phrased as an extra prompt section.
+const measurementPrompt = (measurements: FootMeasurements = {}): string => {
+  const { archMeasurement, halluxMeasurement, rearfootMeasurement, footDimensions, manualFootSize, footprintIndices } = measurements;
+  const lines: string[] = [];
+  if (archMeasurement) {
+    lines.push(`Arch (side view): ${archMeasurement.archType}, medial longitudinal arch angle ${archMeasurement.archAngle}°, navicular height ratio ${archMeasurement.navicularHeightRatio.toFixed(3)}.`);
+  }
+  if (halluxMeasurement) {
+    lines.push(`Hallux valgus (top view): ${halluxMeasurement.grade}, hallux valgus angle ${halluxMeasurement.halluxValgusAngle}°, intermetatarsal angle ${halluxMeasurement.intermetatarsalAngle}°.`);
+  }
+  if (rearfootMeasurement) {
+    lines.push(`Rearfoot (back view): ${rearfootMeasurement.alignment}, rearfoot angle ${formatRearfootAngle(rearfootMeasurement.rearfootAngle)}.`);
+  }
+  if (footDimensions) {
+    lines.push(`Foot size (top view, scale-calibrated): length ${footDimensions.footLengthMm} mm, forefoot width ${footDimensions.forefootWidthMm} mm, heel width ${footDimensions.heelWidthMm} mm.`);
+  } else if (manualFootSize) {
+    lines.push(`Foot size (entered by the user): length ${manualFootSize.footLengthMm} mm, forefoot width ${manualFootSize.forefootWidthMm} mm.`);
+  }
+  if (footprintIndices) {
+    lines.push(`Footprint: ${footprintIndices.archType} arch, Staheli index ${footprintIndices.staheliIndex.toFixed(2)}, Chippaux–Smirak index ${footprintIndices.chippauxSmirakIndex}%, Cavanagh arch index ${footprintIndices.cavanaghArchIndex.toFixed(3)}.`);
+  }
+  if (lines.length === 0) return '';
+  return `\n\nThe following values were measured for this foot, from landmarks placed on these photos or entered by the user. Treat them as more reliable than a visual estimate, keep the arch type and severities consistent with them, and mention them in your summary:\n${lines.map(line => `- ${line}`).join('\n')}`;
+};
+
+// Asks for the user-facing text in another language while keeping the fields that are
+// matched on (arch type, severities, issue names) in English.
+const languagePrompt = (language = 'en'): string => {
+  if (language === 'en') return '';
+  const name = languageName(language);
+  return `\n\nWrite the issue descriptions, the summary, the clinical recommendations and the footwear suggestions in ${name}. Keep the arch type and severity values exactly as the English values listed above, and keep each issue name as its standard English medical term, so results can be compared across analyses.`;
+};
+
+export const analysisPrompt = (foot: FootSide, providedViews: FootView[], measurements?: FootMeasurements, language?: string): string => `You are a world-class AI podiatry assistant called SmartStep. Your task is to perform a detailed analysis of a human foot from a set of images. All images show the user's ${foot.toUpperCase()} foot; refer to it as the ${foot} foot in your descriptions. These images were taken while the user was standing to capture the foot's shape under natural weight-bearing conditions.
+
+You have been provided with the following views: ${providedViews.join(', ')}. Your analysis will be limited by any missing views. Perform the most thorough analysis possible with the available images and clearly state any limitations in your summary. If a specific view required for a task (e.g., side view for arch type) is missing, state the result as 'Unknown' and explain why.
+
+- Use the **Side View** (if available) to primarily determine the foot arch type.
+- Use the **Top View** (if available) to identify issues like bunions, hammer, claw or mallet toes, or toe alignment. It may include a bank card or A4 sheet placed for scale; ignore it.
+- Use the **Back View** (if available) to assess heel alignment (e.g., pronation or supination).
+- Use the **Footprint** (if available), a wet or ink print of the sole, to support the arch type from the width of the midfoot contact.
+
+Provide a comprehensive analysis covering the following points:
+1.  **Foot Arch Type**: Determine if the arch is normal, flat (pes planus), or high (pes cavus).
+2.  **Potential Deformities/Issues**: Identify any visible signs of common foot conditions. For each issue, provide:
+    a. The condition code from the list below. Use 'other' only when none of the listed conditions describes the finding.
+    b. The name of the issue: the listed name for a coded condition, or the standard English medical term for 'other'.
+    c. An estimated severity level (Mild, Moderate, Severe, or Unknown).
+    d. A brief description of the finding and which view it was most apparent in.
+3.  **Overall Summary**: A concise summary of your findings, written in clear, easy-to-understand language.
+4.  **Clinical Recommendations**: A list of 2-3 potential clinical recommendations for a healthcare professional.
+5.  **Footwear Suggestions**: A list of 2-3 specific types of footwear or shoe features that would be beneficial.
+6.  **Confidence Score**: An overall confidence score (0-100) for this analysis. Base this score on the quality of the images AND the number of views provided (more views should generally lead to higher confidence).
+
+Condition codes for potential issues:
+${CONDITION_LIST}${measurementPrompt(measurements)}${languagePrompt(language)}
+
+IMPORTANT: Your response must be in a clean JSON format. Do not include any markdown formatting or explanations outside of the JSON structure.`;
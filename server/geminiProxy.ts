@@ -0,0 +1,168 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { AnalysisResult, AnalysisStreamEvent, AnalyzeRequest, ChatMessage, ChatRequest, FollowUpContext, FootSide, FootView, ViewClassification } from '../types';
+import { AnalysisValidationError, normalizeAnalysisResult } from '../services/analysisValidation';
+import { GeminiBackend } from './gemini';
+import { HttpError, readJsonBody, startNdjson } from './http';
+import { FEET, VIEWS, isImageDataUrl, isRecord, parseLanguage, parseMeasurements } from './validation';
+
+// About 3 MB of image data; the app sends photos downscaled to 1600 px, well under this.
+const MAX_IMAGE_DATA_URL_LENGTH = 4 * 1024 * 1024;
+const MAX_ANALYZE_BYTES = VIEWS.length * MAX_IMAGE_DATA_URL_LENGTH + 64 * 1024;
+const MAX_CLASSIFY_BYTES = MAX_IMAGE_DATA_URL_LENGTH + 1024;
+// The follow-up chat sends 512 px thumbnails, not full photos.
+const MAX_CHAT_BYTES = 4 * 1024 * 1024;
+const MAX_CHAT_MESSAGES = 50;
+const MAX_MESSAGE_LENGTH = 4000;
+
+const parseImage = (value: unknown, field: string, problems: string[]): string | undefined => {
+  if (!isImageDataUrl(value)) {
+    problems.push(`${field} must be a JPEG, PNG or WebP data URL.`);
+    return undefined;
+  }
+  if (value.length > MAX_IMAGE_DATA_URL_LENGTH) {
+    problems.push(`${field} is too large.`);
+    return undefined;
+  }
+  return value;
+};
+
+const parseViews = (value: unknown, field: string, problems: string[]): Partial<Record<FootView, string>> => {
+  const images: Partial<Record<FootView, string>> = {};
+  if (!isRecord(value)) {
+    problems.push(`${field} must be an object.`);
+    return images;
+  }
+  for (const view of VIEWS) {
+    if (value[view] === undefined) continue;
+    const image = parseImage(value[view], `${field}.${view}`, problems);
+    if (image) images[view] = image;
+  }
+  return images;
+};
+
+const parseFoot = (value: unknown, field: string, problems: string[]): FootSide => {
+  if (!FEET.includes(value as FootSide)) {
+    problems.push(`${field} must be "left" or "right".`);
+  }
+  return value as FootSide;
+};
+
+const rejectIfInvalid = (problems: string[]) => {
+  if (problems.length > 0) {
+    throw new HttpError(400, `The request is invalid: ${problems.join(' ')}`);
+  }
+};
+
+export const parseAnalyzeRequest = (body: unknown): AnalyzeRequest => {
+  if (!isRecord(body)) {
+    throw new HttpError(400, "The request must be a JSON object.");
+  }
+
+  const problems: string[] = [];
+  const foot = parseFoot(body.foot, 'foot', problems);
+  const images = parseViews(body.images, 'images', problems);
+  if (Object.keys(images).length === 0) {
+    problems.push('images must contain at least one view.');
+  }
+  if (body.measurements !== undefined && !isRecord(body.measurements)) {
+    problems.push('measurements must be an object.');
+  }
+  const measurements = isRecord(body.measurements) ? parseMeasurements(body.measurements, 'measurements', problems) : undefined;
+  rejectIfInvalid(problems);
+
+  return { foot, images, measurements, language: parseLanguage(body.language) };
+};
+
+const parseMessages = (value: unknown, problems: string[]): ChatMessage[] => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_CHAT_MESSAGES) {
+    problems.push(`messages must be a list of 1 to ${MAX_CHAT_MESSAGES} messages.`);
+    return [];
+  }
+  const messages: ChatMessage[] = [];
+  value.forEach((message, index) => {
+    if (!isRecord(message) || (message.role !== 'user' && message.role !== 'assistant')
+      || typeof message.text !== 'string' || message.text.trim() === '' || message.text.length > MAX_MESSAGE_LENGTH) {
+      problems.push(`messages[${index}] must have a role of "user" or "assistant" and up to ${MAX_MESSAGE_LENGTH} characters of text.`);
+      return;
+    }
+    messages.push({ role: message.role, text: message.text });
+  });
+  if (messages.length > 0 && messages[messages.length - 1].role !== 'user') {
+    problems.push('The last message must be from the user.');
+  }
+  return messages;
+};
+
+export const parseChatRequest = (body: unknown): ChatRequest => {
+  if (!isRecord(body) || !isRecord(body.context)) {
+    throw new HttpError(400, "The request must be a JSON object with a context.");
+  }
+
+  const problems: string[] = [];
+  const { context } = body;
+  let result: AnalysisResult | undefined;
+  if (isRecord(context.result)) {
+    const foot = parseFoot(context.result.foot, 'context.result.foot', problems);
+    try {
+      if (FEET.includes(foot)) result = normalizeAnalysisResult(context.result, foot).result;
+    } catch (error) {
+      if (!(error instanceof AnalysisValidationError)) throw error;
+      problems.push(`context.result: ${error.problems.join(' ')}`);
+    }
+  } else {
+    problems.push('context.result must be an object.');
+  }
+  const thumbnails = parseViews(context.thumbnails, 'context.thumbnails', problems);
+  const messages = parseMessages(body.messages, problems);
+  rejectIfInvalid(problems);
+
+  const followUpContext: FollowUpContext = { result: result!, thumbnails, language: parseLanguage(context.language) };
+  return { context: followUpContext, messages };
+};
+
+/**
+ * Streams an analysis as newline-delimited AnalysisStreamEvents. Once the stream has
+ * started, failures are reported as an `error` event rather than an HTTP status.
+ */
+export const handleAnalyzeRequest = async (req: IncomingMessage, res: ServerResponse, gemini: GeminiBackend) => {
+  const request = parseAnalyzeRequest(await readJsonBody(req, MAX_ANALYZE_BYTES));
+  const send: (event: AnalysisStreamEvent) => void = startNdjson(res);
+  try {
+    const result = await gemini.analyze(
+      request,
+      text => send({ type: 'text', text }),
+      () => send({ type: 'validating' }),
+    );
+    send({ type: 'result', result });
+  } catch (error) {
+    if (error instanceof AnalysisValidationError) {
+      send({ type: 'error', error: error.message, problems: error.problems, rawText: error.rawText });
+    } else {
+      send({ type: 'error', error: error instanceof Error ? error.message : "The analysis failed." });
+    }
+  }
+  res.end();
+};
+
+export const handleClassifyViewRequest = async (req: IncomingMessage, gemini: GeminiBackend): Promise<ViewClassification> => {
+  const body = await readJsonBody(req, MAX_CLASSIFY_BYTES);
+  const problems: string[] = [];
+  const image = parseImage(isRecord(body) ? body.image : undefined, 'image', problems);
+  rejectIfInvalid(problems);
+  try {
+    return await gemini.classifyView(image!);
+  } catch (error) {
+    console.error("Error classifying a photo with Gemini:", error);
+    throw new HttpError(502, "The photo could not be classified.");
+  }
+};
+
+export const handleChatRequest = async (req: IncomingMessage, gemini: GeminiBackend): Promise<ChatMessage> => {
+  const { context, messages } = parseChatRequest(await readJsonBody(req, MAX_CHAT_BYTES));
+  try {
+    return await gemini.chat(context, messages);
+  } catch (error) {
+    // The backend only rejects with messages written for the user.
+    throw new HttpError(502, error instanceof Error ? error.message : "The assistant could not answer right now. Please try again.");
+  }
+};
@@ -0,0 +1,61 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+/**
+ * A failure to report to the client with this status. The message is sent as is, so
+ * it must not contain anything the client should not see.
+ */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { ...headers, 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+// Starts a newline-delimited JSON response; each call of the returned function sends one line.
+export const startNdjson = (res: ServerResponse) => {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+  return (event: unknown) => {
+    res.write(`${JSON.stringify(event)}\n`);
+  };
+};
+
+// The address rate limits are keyed on. Forwarded headers are only believed behind a
+// reverse proxy that sets them, as anyone can send them otherwise.
+export const clientAddress = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+// Reads and parses a JSON request body, giving up as soon as it exceeds maxBytes.
+export const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  if (!req.headers['content-type']?.startsWith('application/json')) {
+    throw new HttpError(415, "Requests must be sent as JSON.");
+  }
+  if (Number(req.headers['content-length'] ?? 0) > maxBytes) {
+    throw new HttpError(413, "The request is too large.");
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, "The request is too large.");
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, "The request body is not valid JSON.");
+  }
+};
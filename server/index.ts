@@ -0,0 +1,88 @@
+import { createServer } from 'node:http';
+import path from 'node:path';
+import { createFileCaseStore } from './caseStore';
+import { createGeminiBackend } from './gemini';
+import { handleAnalyzeRequest, handleChatRequest, handleClassifyViewRequest } from './geminiProxy';
+import { HttpError, clientAddress, sendJson } from './http';
+import { createRateLimiter } from './rateLimit';
+import { handleTelemedicineRequest } from './telemedicineIntake';
+
+// Shares .env.local with the Vite config; variables already set in the environment win.
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // The file is optional.
+}
+
+// Run with `npm run server`. The Vite dev and preview servers proxy /api here.
+const PORT = Number(process.env.SERVER_PORT ?? 8787);
+const DATA_DIR = path.resolve(process.env.SERVER_DATA_DIR ?? 'server-data');
+// Set when running behind a reverse proxy that sets X-Forwarded-For.
+const TRUST_PROXY = process.env.SERVER_TRUST_PROXY === 'true';
+const RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000;
+
+const caseStore = createFileCaseStore(path.join(DATA_DIR, 'cases'));
+// The key stays on the server; without it the analysis endpoints answer 503.
+const gemini = process.env.GEMINI_API_KEY ? createGeminiBackend({ apiKey: process.env.GEMINI_API_KEY }) : null;
+
+// Per client, over RATE_LIMIT_WINDOW_MS. An analysis of both feet makes two analyze requests.
+const analyzeLimiter = createRateLimiter({ limit: 20, windowMs: RATE_LIMIT_WINDOW_MS, message: "Too many analyses from this device." });
+const classifyLimiter = createRateLimiter({ limit: 80, windowMs: RATE_LIMIT_WINDOW_MS, message: "Too many photos classified from this device." });
+const chatLimiter = createRateLimiter({ limit: 40, windowMs: RATE_LIMIT_WINDOW_MS, message: "Too many questions from this device." });
+// Each request can carry 25 MB of photos that are written to disk.
+const telemedicineLimiter = createRateLimiter({ limit: 5, windowMs: RATE_LIMIT_WINDOW_MS, message: "Too many consultation requests from this device." });
+
+const requireGemini = () => {
+  if (!gemini) {
+    throw new HttpError(503, "The analysis service is not configured. Set GEMINI_API_KEY on the server.");
+  }
+  return gemini;
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const client = clientAddress(req, TRUST_PROXY);
+    if (req.method === 'POST' && pathname === '/api/analyze') {
+      analyzeLimiter.take(client);
+      await handleAnalyzeRequest(req, res, requireGemini());
+      return;
+    }
+    if (req.method === 'POST' && pathname === '/api/classify-view') {
+      classifyLimiter.take(client);
+      sendJson(res, 200, await handleClassifyViewRequest(req, requireGemini()));
+      return;
+    }
+    if (req.method === 'POST' && pathname === '/api/chat') {
+      chatLimiter.take(client);
+      sendJson(res, 200, await handleChatRequest(req, requireGemini()));
+      return;
+    }
+    if (req.method === 'POST' && pathname === '/api/telemedicine/requests') {
+      telemedicineLimiter.take(client);
+      sendJson(res, 201, await handleTelemedicineRequest(req, caseStore));
+      return;
+    }
+    throw new HttpError(404, "Not found.");
+  } catch (error) {
+    if (res.headersSent) {
+      // A streamed response failed part-way; all that can be done is to end it.
+      console.error(`${req.method} ${req.url} failed after responding:`, error);
+      res.end();
+      return;
+    }
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message }, error.headers);
+      return;
+    }
+    console.error(`${req.method} ${req.url} failed:`, error);
+    sendJson(res, 500, { error: "The server could not process the request. Please try again later." });
+  }
+});
+
+server.listen(PORT, () => {
+  console.info(`SmartStep server listening on http://localhost:${PORT}, storing data in ${DATA_DIR}`);
+  if (!gemini) {
+    console.warn("GEMINI_API_KEY is not set; analysis requests will be rejected.");
+  }
+});
@@ -0,0 +1,48 @@
+import { HttpError } from './http';
+
+export interface RateLimitOptions {
+  // Requests allowed per client in each window.
+  limit: number;
+  windowMs: number;
+  // Sent with the 429 response, e.g. "Too many analyses."
+  message: string;
+}
+
+export interface RateLimiter {
+  // Counts a request from this client, throwing a 429 HttpError once it is over the limit.
+  take: (client: string) => void;
+}
+
+/**
+ * A fixed-window limiter kept in memory, which is enough for a single server process.
+ * Windows start at each client's first request.
+ */
+export const createRateLimiter = ({ limit, windowMs, message }: RateLimitOptions): RateLimiter => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  const forgetExpired = (now: number) => {
+    for (const [client, window] of windows) {
+      if (window.resetAt <= now) windows.delete(client);
+    }
+  };
+
+  return {
+    take: (client) => {
+      const now = Date.now();
+      // Keeps memory bounded without a timer.
+      if (windows.size > 1000) forgetExpired(now);
+
+      let window = windows.get(client);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(client, window);
+      }
+      window.count++;
+      if (window.count > limit) {
+        const retryAfterSeconds = Math.ceil((window.resetAt - now) / 1000);
+        const minutes = Math.ceil(retryAfterSeconds / 60);
+        throw new HttpError(429, `${message} Please try again in ${minutes === 1 ? 'a minute' : `${minutes} minutes`}.`, { 'Retry-After': String(retryAfterSeconds) });
+      }
+    },
+  };
+};
@@ -0,0 +1,122 @@
+import { IncomingMessage } from 'node:http';
+import { BilateralAnalysis, CaptureThumbnails, ResultsReview, ReviewStatus, TelemedicineCase, TelemedicineRequest } from '../types';
+import { AnalysisValidationError, normalizeAnalysisResult } from '../services/analysisValidation';
+import { CaseStore } from './caseStore';
+import { HttpError, readJsonBody } from './http';
+import { FEET, VIEWS, isImageDataUrl, isRecord, parseLanguage, parseMeasurements } from './validation';
+
+// Eight full-size captures as base64 JSON, with room to spare.
+const MAX_REQUEST_BYTES = 25 * 1024 * 1024;
+const MAX_NAME_LENGTH = 200;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const REVIEW_STATUSES: ReviewStatus[] = ['draft', 'inProgress', 'reviewed'];
+
+// Keeps the measurements the patient took; the model's findings go through the same
+// normalisation as model output so a malformed result cannot reach a specialist.
+const parseResults = (value: unknown, problems: string[]): BilateralAnalysis => {
+  const results: BilateralAnalysis = {};
+  if (!isRecord(value)) {
+    problems.push('results must be an object.');
+    return results;
+  }
+  for (const foot of FEET) {
+    if (value[foot] === undefined) continue;
+    try {
+      const { result } = normalizeAnalysisResult(value[foot], foot);
+      const measurements = isRecord(value[foot]) ? parseMeasurements(value[foot], `results.${foot}`, problems) : {};
+      results[foot] = { ...measurements, ...result };
+    } catch (error) {
+      if (!(error instanceof AnalysisValidationError)) throw error;
+      problems.push(`results.${foot}: ${error.problems.join(' ')}`);
+    }
+  }
+  if (!results.left && !results.right) {
+    problems.push('results must contain at least one foot.');
+  }
+  return results;
+};
+
+// Reviewed results must name the reviewer and sign-off time; a request without a review
+// is treated as an AI draft.
+const parseReview = (value: unknown, problems: string[]): ResultsReview => {
+  if (value === undefined) return { status: 'draft' };
+  if (!isRecord(value) || !REVIEW_STATUSES.includes(value.status as ReviewStatus)) {
+    problems.push(`review.status must be one of ${REVIEW_STATUSES.join(', ')}.`);
+    return { status: 'draft' };
+  }
+  const status = value.status as ReviewStatus;
+  if (status !== 'reviewed') {
+    if (value.signOff !== undefined) problems.push('review.signOff is only allowed for reviewed results.');
+    return { status };
+  }
+  const signOff = isRecord(value.signOff) ? value.signOff : {};
+  const reviewer = typeof signOff.reviewer === 'string' ? signOff.reviewer.trim() : '';
+  if (!reviewer || reviewer.length > MAX_NAME_LENGTH) {
+    problems.push(`review.signOff.reviewer is required and must be at most ${MAX_NAME_LENGTH} characters.`);
+  }
+  const signedAt = typeof signOff.signedAt === 'string' ? signOff.signedAt : '';
+  if (Number.isNaN(Date.parse(signedAt))) {
+    problems.push('review.signOff.signedAt must be an ISO 8601 date.');
+  }
+  return { status, signOff: { reviewer, signedAt } };
+};
+
+const parseImages = (value: unknown, problems: string[]): CaptureThumbnails => {
+  const images: CaptureThumbnails = {};
+  if (value === undefined) return images;
+  if (!isRecord(value)) {
+    problems.push('images must be an object.');
+    return images;
+  }
+  for (const foot of FEET) {
+    const views = value[foot];
+    if (views === undefined) continue;
+    if (!isRecord(views)) {
+      problems.push(`images.${foot} must be an object.`);
+      continue;
+    }
+    for (const view of VIEWS) {
+      const dataUrl = views[view];
+      if (dataUrl === undefined) continue;
+      if (!isImageDataUrl(dataUrl)) {
+        problems.push(`images.${foot}.${view} must be a JPEG, PNG or WebP data URL.`);
+        continue;
+      }
+      images[foot] = { ...images[foot], [view]: dataUrl };
+    }
+  }
+  return images;
+};
+
+// Checks a request body field by field, reporting every problem at once.
+export const parseTelemedicineRequest = (body: unknown): TelemedicineRequest => {
+  if (!isRecord(body)) {
+    throw new HttpError(400, "The request must be a JSON object.");
+  }
+
+  const problems: string[] = [];
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    problems.push(`name is required and must be at most ${MAX_NAME_LENGTH} characters.`);
+  }
+  const email = typeof body.email === 'string' ? body.email.trim() : '';
+  if (!EMAIL_PATTERN.test(email)) {
+    problems.push('email must be a valid email address.');
+  }
+  const language = parseLanguage(body.language);
+  const results = parseResults(body.results, problems);
+  const review = parseReview(body.review, problems);
+  const images = parseImages(body.images, problems);
+
+  if (problems.length > 0) {
+    throw new HttpError(400, `The request is invalid: ${problems.join(' ')}`);
+  }
+  return { name, email, language, results, review, images };
+};
+
+export const handleTelemedicineRequest = async (req: IncomingMessage, store: CaseStore): Promise<TelemedicineCase> => {
+  const request = parseTelemedicineRequest(await readJsonBody(req, MAX_REQUEST_BYTES));
+  const stored = await store.save(request);
+  console.info(`Telemedicine request ${stored.reference} received.`);
+  return stored;
+};
@@ -0,0 +1,115 @@
+import { FootMeasurements, FootSide, FootView } from '../types';
+
+// Checks shared by the request parsers.
+
+export const FEET: FootSide[] = ['left', 'right'];
+export const VIEWS: FootView[] = ['top', 'side', 'back', 'footprint'];
+
+const IMAGE_DATA_URL_PATTERN = /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/]+=*$/;
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]+)*$/;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isImageDataUrl = (value: unknown): value is string =>
+  typeof value === 'string' && IMAGE_DATA_URL_PATTERN.test(value);
+
+// A locale code such as "es" or "pt-BR"; anything else falls back to English.
+export const parseLanguage = (value: unknown): string =>
+  typeof value === 'string' && LANGUAGE_PATTERN.test(value) ? value : 'en';
+
+// How each field of a measurement is checked: a finite number, an ISO 8601 timestamp,
+// one of a set of values, or landmarks given as points.
+type FieldCheck = 'number' | 'timestamp' | readonly string[] | { points: readonly string[] };
+
+const MEASURED_ARCH_TYPES = ['Normal', 'Flat', 'High'];
+
+const MEASUREMENT_FIELDS: Record<keyof FootMeasurements, Record<string, FieldCheck>> = {
+  archMeasurement: {
+    landmarks: { points: ['heel', 'metatarsalHead', 'navicular', 'floorStart', 'floorEnd'] },
+    navicularHeightRatio: 'number',
+    archAngle: 'number',
+    archType: MEASURED_ARCH_TYPES,
+    measuredAt: 'timestamp',
+  },
+  halluxMeasurement: {
+    landmarks: { points: ['firstMetatarsalBase', 'firstMetatarsalHead', 'halluxTip', 'secondMetatarsalBase', 'secondMetatarsalHead'] },
+    halluxValgusAngle: 'number',
+    intermetatarsalAngle: 'number',
+    grade: ['Normal', 'Mild', 'Moderate', 'Severe'],
+    measuredAt: 'timestamp',
+  },
+  rearfootMeasurement: {
+    landmarks: { points: ['legTop', 'legBottom', 'heelTop', 'heelBottom'] },
+    rearfootAngle: 'number',
+    alignment: ['Neutral', 'Pronated', 'Supinated'],
+    measuredAt: 'timestamp',
+  },
+  footDimensions: {
+    referenceObject: ['card', 'a4'],
+    landmarks: {
+      points: ['referenceCorner1', 'referenceCorner2', 'referenceCorner3', 'referenceCorner4', 'heel', 'toe', 'forefootMedial', 'forefootLateral', 'heelMedial', 'heelLateral'],
+    },
+    footLengthMm: 'number',
+    forefootWidthMm: 'number',
+    heelWidthMm: 'number',
+    measuredAt: 'timestamp',
+  },
+  manualFootSize: { footLengthMm: 'number', forefootWidthMm: 'number' },
+  footprintIndices: {
+    staheliIndex: 'number',
+    chippauxSmirakIndex: 'number',
+    cavanaghArchIndex: 'number',
+    archType: MEASURED_ARCH_TYPES,
+  },
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const parseField = (value: unknown, check: FieldCheck, field: string, problems: string[]): unknown => {
+  if (check === 'number') {
+    if (isFiniteNumber(value)) return value;
+    problems.push(`${field} must be a finite number.`);
+  } else if (check === 'timestamp') {
+    if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return value;
+    problems.push(`${field} must be an ISO 8601 date.`);
+  } else if (Array.isArray(check)) {
+    if (check.includes(value as string)) return value;
+    problems.push(`${field} must be one of ${check.join(', ')}.`);
+  } else if ('points' in check) {
+    if (!isRecord(value)) {
+      problems.push(`${field} must be an object.`);
+      return undefined;
+    }
+    const points: Record<string, { x: number; y: number }> = {};
+    for (const name of check.points) {
+      const point = value[name];
+      if (isRecord(point) && isFiniteNumber(point.x) && isFiniteNumber(point.y)) {
+        points[name] = { x: point.x, y: point.y };
+      } else {
+        problems.push(`${field}.${name} must be a point with finite x and y.`);
+      }
+    }
+    return points;
+  }
+  return undefined;
+};
+
+/**
+ * The measurements on a result or request, checked field by field. Unknown fields are
+ * dropped, so only checked values are passed to the model or stored.
+ */
+export const parseMeasurements = (value: Record<string, unknown>, field: string, problems: string[]): FootMeasurements => {
+  const measurements: Record<string, unknown> = {};
+  for (const [name, fields] of Object.entries(MEASUREMENT_FIELDS)) {
+    const measurement = value[name];
+    if (measurement === undefined) continue;
+    if (!isRecord(measurement)) {
+      problems.push(`${field}.${name} must be an object.`);
+      continue;
+    }
+    measurements[name] = Object.fromEntries(Object.entries(fields).map(([key, check]) =>
+      [key, parseField(measurement[key], check, `${field}.${name}.${key}`, problems)]));
+  }
+  return measurements as FootMeasurements;
+};
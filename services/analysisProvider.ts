@@ -0,0 +1,30 @@
+import { AnalysisProgress, AnalysisResult, ChatMessage, FollowUpContext, FootImages, FootMeasurements, FootSide, ViewClassification } from '../types';
+
+export interface AnalyzeOptions {
+  // Taken on these photos; when given they should inform the result.
+  measurements?: FootMeasurements;
+  // With this the response is streamed and partial results are reported as they arrive;
+  // the promise still resolves to the fully validated result.
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Locale code for the free-text fields (summary, recommendations, issue descriptions).
+  // Enum fields and issue names stay in English so results remain comparable.
+  language?: string;
+}
+
+/**
+ * A backend capable of turning the captured views of one foot into an AnalysisResult.
+ * App receives one of these so the upload → dashboard → telemedicine flow does not
+ * depend on a particular model or on network access.
+ */
+export interface FootAnalysisProvider {
+  id: string;
+  label: string;
+  // Identifies the prompt/fixture set so stored results can be traced back to it.
+  promptVersion: string;
+  analyze: (imageFiles: FootImages, foot: FootSide, options?: AnalyzeOptions) => Promise<AnalysisResult>;
+  // Suggests which foot and view a single photo shows, so uploads can be auto-tagged.
+  classifyView: (file: File) => Promise<ViewClassification>;
+  // Replies to the last user message of a follow-up conversation about a finished
+  // analysis. Callers go through askFollowUp, which applies the safety guardrails.
+  chat: (context: FollowUpContext, messages: ChatMessage[]) => Promise<ChatMessage>;
+}
@@ -0,0 +1,250 @@
+import { AnalysisProgress, AnalysisResult, AnalysisStage, FootSide, FootView, PotentialIssue, ViewClassification } from '../types';
+import { codeIssue, isConditionCode } from './footConditions';
+
+const ARCH_TYPES: AnalysisResult['archType'][] = ['Normal', 'Flat', 'High', 'Unknown'];
+const SEVERITIES: PotentialIssue['severity'][] = ['Mild', 'Moderate', 'Severe', 'Unknown'];
+const VIEWS: (FootView | 'unknown')[] = ['top', 'side', 'back', 'footprint', 'unknown'];
+const FEET: (FootSide | 'unknown')[] = ['left', 'right', 'unknown'];
+
+/**
+ * Raised when model output cannot be turned into an AnalysisResult, either because
+ * it is not valid JSON or because its shape is unusable even after normalisation.
+ */
+export class AnalysisValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly problems: string[],
+    public readonly rawText?: string,
+  ) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+export interface NormalizedAnalysis {
+  result: AnalysisResult;
+  // Human-readable notes about every value that had to be corrected.
+  corrections: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const coerceEnum = <T extends string>(value: unknown, allowed: T[], field: string, corrections: string[]): T => {
+  if (typeof value === 'string') {
+    const match = allowed.find(option => option.toLowerCase() === value.trim().toLowerCase());
+    if (match) return match;
+  }
+  corrections.push(`${field} "${String(value)}" is not one of ${allowed.join(', ')}; using Unknown.`);
+  return 'Unknown' as T;
+};
+
+const coerceString = (value: unknown, field: string, corrections: string[]): string => {
+  if (typeof value === 'string') return value.trim();
+  if (value !== undefined) corrections.push(`${field} was not text; leaving it empty.`);
+  else corrections.push(`${field} was missing; leaving it empty.`);
+  return '';
+};
+
+const coerceStringList = (value: unknown, field: string, corrections: string[]): string[] => {
+  if (!Array.isArray(value)) {
+    corrections.push(`${field} was not a list; using an empty list.`);
+    return [];
+  }
+  const strings = value.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+  if (strings.length !== value.length) {
+    corrections.push(`${field} contained ${value.length - strings.length} invalid entries; they were dropped.`);
+  }
+  return strings.map(item => item.trim());
+};
+
+const coerceConfidence = (value: unknown, corrections: string[]): number => {
+  const score = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof score !== 'number' || !Number.isFinite(score)) {
+    corrections.push(`confidenceScore "${String(value)}" is not a number; using 0.`);
+    return 0;
+  }
+  const clamped = Math.min(100, Math.max(0, score));
+  if (clamped !== score) {
+    corrections.push(`confidenceScore ${score} is outside 0-100; clamped to ${clamped}.`);
+  }
+  return Math.round(clamped);
+};
+
+const normalizeIssue = (value: unknown, index: number, foot: FootSide, corrections: string[]): PotentialIssue | null => {
+  const field = `potentialIssues[${index}]`;
+  if (!isRecord(value)) {
+    corrections.push(`${field} was not an object; it was dropped.`);
+    return null;
+  }
+  const issue = coerceString(value.issue, `${field}.issue`, corrections);
+  if (!issue) {
+    corrections.push(`${field} had no issue name; it was dropped.`);
+    return null;
+  }
+  if (!isConditionCode(value.condition)) {
+    corrections.push(`${field}.condition "${String(value.condition)}" is not a known condition; coded from the issue name.`);
+  }
+  return codeIssue({
+    condition: value.condition,
+    issue,
+    severity: coerceEnum(value.severity, SEVERITIES, `${field}.severity`, corrections),
+    description: coerceString(value.description, `${field}.description`, corrections),
+    foot,
+  });
+};
+
+/**
+ * Coerces an arbitrary parsed value into a well-formed AnalysisResult: enums fall back
+ * to 'Unknown', the confidence score is clamped to 0-100 and missing lists become empty.
+ * Issues without a valid condition code are coded from their name.
+ * Only a value that is not an object at all is rejected. The result and every finding
+ * are attributed to the given foot.
+ */
+export const normalizeAnalysisResult = (value: unknown, foot: FootSide): NormalizedAnalysis => {
+  if (!isRecord(value)) {
+    throw new AnalysisValidationError(
+      "The AI returned an analysis in an unexpected format.",
+      ['The response is not a JSON object.'],
+    );
+  }
+
+  const corrections: string[] = [];
+  let potentialIssues: PotentialIssue[] = [];
+  if (Array.isArray(value.potentialIssues)) {
+    potentialIssues = value.potentialIssues
+      .map((issue, index) => normalizeIssue(issue, index, foot, corrections))
+      .filter((issue): issue is PotentialIssue => issue !== null);
+  } else {
+    corrections.push('potentialIssues was not a list; using an empty list.');
+  }
+
+  const result: AnalysisResult = {
+    foot,
+    archType: coerceEnum(value.archType, ARCH_TYPES, 'archType', corrections),
+    potentialIssues,
+    summary: coerceString(value.summary, 'summary', corrections),
+    clinicalRecommendations: coerceStringList(value.clinicalRecommendations, 'clinicalRecommendations', corrections),
+    footwearSuggestions: coerceStringList(value.footwearSuggestions, 'footwearSuggestions', corrections),
+    confidenceScore: coerceConfidence(value.confidenceScore, corrections),
+  };
+
+  return { result, corrections };
+};
+
+/**
+ * Parses raw model text as JSON, tolerating a surrounding markdown code fence.
+ * Throws an AnalysisValidationError carrying the raw text when parsing fails.
+ */
+export const parseAnalysisJson = (text: string): unknown => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    throw new AnalysisValidationError(
+      "The AI returned an incomplete or malformed analysis.",
+      [error instanceof Error ? error.message : 'The response is not valid JSON.'],
+      text,
+    );
+  }
+};
+
+// Closes every string, array and object left open at the end of a JSON prefix.
+const closeJsonPrefix = (text: string): string => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === '[') {
+      closers.push(']');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+    }
+  }
+  const body = inString ? `${escaped ? text.slice(0, -1) : text}"` : text.replace(/[\s,]+$/, '');
+  return body + closers.reverse().join('');
+};
+
+// Parses as much of an incomplete JSON object as possible, dropping the trailing key or
+// value that is cut off. Returns null until the first complete property has arrived.
+const parseJsonPrefix = (text: string): Record<string, unknown> | null => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '');
+  for (let end = trimmed.length; end > 0; end = trimmed.lastIndexOf(',', end - 1)) {
+    try {
+      const value: unknown = JSON.parse(closeJsonPrefix(trimmed.slice(0, end)));
+      if (isRecord(value)) return value;
+    } catch {
+      // Cut off inside a key or literal; try again before the previous comma.
+    }
+  }
+  return null;
+};
+
+const FIELD_STAGES: Record<string, AnalysisStage> = {
+  archType: 'archType',
+  potentialIssues: 'potentialIssues',
+  summary: 'summary',
+  clinicalRecommendations: 'recommendations',
+  footwearSuggestions: 'recommendations',
+  confidenceScore: 'recommendations',
+};
+
+/**
+ * Reads the fields that are already usable from a response that is still streaming.
+ * Unlike normalizeAnalysisResult nothing is corrected: values that are missing or not
+ * yet valid are simply left out, and an issue appears once its severity has arrived.
+ * The stage is the last field the model has started writing.
+ */
+export const parsePartialAnalysis = (text: string, foot: FootSide): AnalysisProgress => {
+  const value = parseJsonPrefix(text);
+  if (!value) return { stage: 'sending', partial: {} };
+
+  const partial: AnalysisProgress['partial'] = {};
+  const archType = ARCH_TYPES.find(option => option === value.archType);
+  if (archType) partial.archType = archType;
+  if (Array.isArray(value.potentialIssues)) {
+    partial.potentialIssues = value.potentialIssues.flatMap(item => {
+      if (!isRecord(item) || typeof item.issue !== 'string') return [];
+      const severity = SEVERITIES.find(option => option === item.severity);
+      if (!severity) return [];
+      return [codeIssue({ condition: item.condition, issue: item.issue, severity, description: typeof item.description === 'string' ? item.description : '', foot })];
+    });
+  }
+  if (typeof value.summary === 'string') partial.summary = value.summary;
+  const strings = (list: unknown) => Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : undefined;
+  partial.clinicalRecommendations = strings(value.clinicalRecommendations);
+  partial.footwearSuggestions = strings(value.footwearSuggestions);
+
+  const fields = Object.keys(value);
+  return { stage: FIELD_STAGES[fields[fields.length - 1]] ?? 'sending', partial };
+};
+
+/**
+ * Coerces a view classification response. Classifications are only suggestions, so
+ * anything unexpected degrades to 'unknown' with zero confidence instead of failing.
+ */
+export const normalizeViewClassification = (value: unknown): ViewClassification => {
+  if (!isRecord(value)) {
+    return { isFoot: true, view: 'unknown', foot: 'unknown', confidence: 0, reason: '' };
+  }
+  const ignored: string[] = [];
+  const pick = <T extends string>(raw: unknown, allowed: T[]): T => {
+    const normalized = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
+    return allowed.find(option => option === normalized) ?? ('unknown' as T);
+  };
+  return {
+    isFoot: value.isFoot !== false,
+    view: pick(value.view, VIEWS),
+    foot: pick(value.foot, FEET),
+    confidence: coerceConfidence(value.confidence, ignored),
+    reason: typeof value.reason === 'string' ? value.reason.trim() : '',
+  };
+};
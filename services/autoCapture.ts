@@ -0,0 +1,47 @@
+import { laplacianVariance, toGrayscale } from './imageQuality';
+
+// Frames are sampled at this size; small enough to analyse several times a second.
+export const SAMPLE_WIDTH = 160;
+export const SAMPLE_HEIGHT = 120;
+export const SAMPLE_INTERVAL_MS = 200;
+
+// Mean absolute grey-level change between samples below which the camera counts as still.
+const MAX_MOTION = 6;
+// Laplacian variance at the sample size below which the frame counts as blurry.
+const MIN_SHARPNESS = 20;
+
+export type FrameState = 'moving' | 'blurry' | 'steady';
+
+export interface FrameSample {
+  gray: Float32Array;
+  state: FrameState;
+}
+
+const meanAbsoluteDifference = (a: Float32Array, b: Float32Array): number => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / a.length;
+};
+
+/**
+ * Classifies the current video frame by differencing it against the previous sample
+ * (stability) and measuring its Laplacian variance (sharpness).
+ */
+export const sampleFrame = (
+  video: HTMLVideoElement,
+  context: CanvasRenderingContext2D,
+  previous: Float32Array | null,
+): FrameSample => {
+  context.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const gray = toGrayscale(context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT).data);
+
+  if (!previous || meanAbsoluteDifference(previous, gray) > MAX_MOTION) {
+    return { gray, state: 'moving' };
+  }
+  if (laplacianVariance(gray, SAMPLE_WIDTH, SAMPLE_HEIGHT) < MIN_SHARPNESS) {
+    return { gray, state: 'blurry' };
+  }
+  return { gray, state: 'steady' };
+};
@@ -0,0 +1,54 @@
+import { AnalysisResult, PotentialIssue } from '../types';
+
+export interface IssueComparison {
+  issue: string;
+  left: PotentialIssue | null;
+  right: PotentialIssue | null;
+  // True when the issue is only found on one foot or its severity differs between feet.
+  asymmetric: boolean;
+}
+
+export interface BilateralComparison {
+  archType: { left: AnalysisResult['archType']; right: AnalysisResult['archType']; asymmetric: boolean };
+  issues: IssueComparison[];
+  asymmetryCount: number;
+}
+
+// "Bunion (Hallux Valgus)" and "bunion" should be treated as the same finding.
+export const issueKey = (issue: string): string =>
+  issue.toLowerCase().replace(/\(.*?\)/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Coded issues match on their condition; only 'other' findings are matched by name.
+export const findingKey = (issue: PotentialIssue): string =>
+  issue.condition === 'other' ? issueKey(issue.issue) : issue.condition;
+
+export const compareFeet = (left: AnalysisResult, right: AnalysisResult): BilateralComparison => {
+  const rows = new Map<string, IssueComparison>();
+
+  left.potentialIssues.forEach((issue, index) => {
+    const key = findingKey(issue);
+    rows.set(rows.has(key) ? `left:${index}` : key, { issue: issue.issue, left: issue, right: null, asymmetric: true });
+  });
+  right.potentialIssues.forEach((issue, index) => {
+    const row = rows.get(findingKey(issue));
+    if (row && !row.right) {
+      row.right = issue;
+    } else {
+      rows.set(`right:${index}`, { issue: issue.issue, left: null, right: issue, asymmetric: true });
+    }
+  });
+
+  const issues = Array.from(rows.values()).map(row => ({
+    ...row,
+    asymmetric: !row.left || !row.right || row.left.severity !== row.right.severity,
+  }));
+
+  // Unknown on either side is a missing view rather than a real difference.
+  const archAsymmetric = left.archType !== right.archType && left.archType !== 'Unknown' && right.archType !== 'Unknown';
+
+  return {
+    archType: { left: left.archType, right: right.archType, asymmetric: archAsymmetric },
+    issues,
+    asymmetryCount: issues.filter(row => row.asymmetric).length + (archAsymmetric ? 1 : 0),
+  };
+};
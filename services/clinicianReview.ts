@@ -0,0 +1,146 @@
+import { AnalysisResult, BilateralAnalysis, ClinicianReview, FootReview, FootSide, ReviewedFinding } from '../types';
+
+// A clinician note and the finding it is about, for display and export.
+export interface ReviewNote {
+  subject: 'archType' | 'issue' | 'recommendation' | 'footwear' | 'general';
+  // The reviewed finding's text; absent for the arch type and general notes.
+  finding?: string;
+  note: string;
+}
+
+const pending = <T>(value: T): ReviewedFinding<T> => ({ decision: 'pending', value });
+
+// Every AI finding starts out pending; the result itself is never modified.
+export const createFootReview = (result: AnalysisResult): FootReview => ({
+  archType: pending(result.archType),
+  potentialIssues: result.potentialIssues.map(issue => pending({ ...issue })),
+  clinicalRecommendations: result.clinicalRecommendations.map(pending),
+  footwearSuggestions: result.footwearSuggestions.map(pending),
+  addedIssues: [],
+  addedRecommendations: [],
+  addedFootwearSuggestions: [],
+});
+
+export const createClinicianReview = (results: BilateralAnalysis): ClinicianReview => ({
+  feet: Object.fromEntries(
+    (Object.keys(results) as FootSide[])
+      .filter(foot => results[foot])
+      .map(foot => [foot, createFootReview(results[foot]!)])
+  ),
+});
+
+const footFindings = (review: FootReview): ReviewedFinding<unknown>[] => [
+  review.archType,
+  ...review.potentialIssues,
+  ...review.clinicalRecommendations,
+  ...review.footwearSuggestions,
+];
+
+// The number of AI findings not yet accepted, edited or rejected.
+export const countPending = (review: ClinicianReview): number =>
+  Object.values(review.feet).reduce<number>(
+    (count, footReview) => count + footFindings(footReview!).filter(finding => finding.decision === 'pending').length,
+    0,
+  );
+
+// Values of the findings the clinician kept, in their edited form where edited.
+const kept = <T>(findings: ReviewedFinding<T>[]): T[] =>
+  findings.filter(finding => finding.decision !== 'rejected').map(finding => finding.value);
+
+/**
+ * The reviewed version of one foot's result: rejected findings are dropped, edited ones
+ * replaced and added ones appended. A rejected arch type becomes 'Unknown'. Measurements
+ * and the AI summary are carried over unchanged.
+ */
+export const applyFootReview = (result: AnalysisResult, review: FootReview): AnalysisResult => ({
+  ...result,
+  archType: review.archType.decision === 'rejected' ? 'Unknown' : review.archType.value,
+  potentialIssues: [...kept(review.potentialIssues), ...review.addedIssues],
+  clinicalRecommendations: [...kept(review.clinicalRecommendations), ...review.addedRecommendations],
+  footwearSuggestions: [...kept(review.footwearSuggestions), ...review.addedFootwearSuggestions],
+});
+
+export const applyClinicianReview = (results: BilateralAnalysis, review: ClinicianReview): BilateralAnalysis =>
+  Object.fromEntries(
+    (Object.keys(results) as FootSide[])
+      .filter(foot => results[foot])
+      .map(foot => {
+        const footReview = review.feet[foot];
+        return [foot, footReview ? applyFootReview(results[foot]!, footReview) : results[foot]!];
+      })
+  );
+
+// The notes left on a foot, in the order the findings appear.
+export const reviewNotes = (review: FootReview): ReviewNote[] => {
+  const notes: ReviewNote[] = [];
+  const add = (subject: ReviewNote['subject'], note: string | undefined, finding?: string) => {
+    if (note?.trim()) notes.push({ subject, finding, note: note.trim() });
+  };
+  add('archType', review.archType.note);
+  review.potentialIssues.forEach(finding => add('issue', finding.note, finding.value.issue));
+  review.clinicalRecommendations.forEach(finding => add('recommendation', finding.note, finding.value));
+  review.footwearSuggestions.forEach(finding => add('footwear', finding.note, finding.value));
+  add('general', review.note);
+  return notes;
+};
+
+// Accepts every finding still pending, leaving earlier decisions as they are.
+export const acceptPendingFindings = (review: ClinicianReview): ClinicianReview => {
+  const accept = <T>(finding: ReviewedFinding<T>): ReviewedFinding<T> =>
+    finding.decision === 'pending' ? { ...finding, decision: 'accepted' } : finding;
+  return {
+    ...review,
+    feet: Object.fromEntries(Object.entries(review.feet).map(([foot, footReview]) => [foot, {
+      ...footReview!,
+      archType: accept(footReview!.archType),
+      potentialIssues: footReview!.potentialIssues.map(accept),
+      clinicalRecommendations: footReview!.clinicalRecommendations.map(accept),
+      footwearSuggestions: footReview!.footwearSuggestions.map(accept),
+    }])),
+  };
+};
+
+const NOTE_SUBJECTS: Record<ReviewNote['subject'], string> = {
+  archType: 'Arch type',
+  issue: 'Issue',
+  recommendation: 'Recommendation',
+  footwear: 'Footwear',
+  general: 'General',
+};
+
+// A note as one line of English, for the report and FHIR exports.
+export const describeReviewNote = ({ subject, finding, note }: ReviewNote): string =>
+  `${NOTE_SUBJECTS[subject]}${finding ? ` (${finding})` : ''}: ${note}`;
+
+/**
+ * Signs the review off in the reviewer's name. Every AI finding must have been decided;
+ * callers disable sign-off until then, so failing here is a programming error.
+ */
+export const signOffReview = (review: ClinicianReview, reviewer: string, signedAt = new Date()): ClinicianReview => {
+  if (!reviewer.trim()) {
+    throw new Error("A reviewer name is required to sign off.");
+  }
+  if (countPending(review) > 0) {
+    throw new Error("Every finding must be accepted, edited or rejected before signing off.");
+  }
+  return { ...review, signOff: { reviewer: reviewer.trim(), signedAt: signedAt.toISOString() } };
+};
+
+const CLINICIAN_MODE_KEY = 'smartstep.clinicianMode';
+
+// Whether review controls are shown; remembered on the device, off by default.
+export const loadClinicianMode = (): boolean => {
+  try {
+    return localStorage.getItem(CLINICIAN_MODE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+export const saveClinicianMode = (enabled: boolean) => {
+  try {
+    localStorage.setItem(CLINICIAN_MODE_KEY, String(enabled));
+  } catch (e) {
+    console.warn("Could not save the clinician mode setting:", e);
+  }
+};
@@ -0,0 +1,71 @@
+const DB_NAME = 'smartstep';
+const DB_VERSION = 2;
+
+export const ANALYSES_STORE = 'analyses';
+export const OUTBOX_STORE = 'outbox';
+
+// Another tab still has an older version of the database open, so it cannot be upgraded.
+export class DatabaseBlockedError extends Error {
+  constructor() {
+    super("SmartStep is open in another tab with an older version. Close the other tabs and reload this page.");
+    this.name = 'DatabaseBlockedError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(ANALYSES_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      }
+    };
+    request.onblocked = () => {
+      blocked = true;
+      dbPromise = null;
+      reject(new DatabaseBlockedError());
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Opened after the other tab let go; the next request opens it afresh.
+      if (blocked) {
+        db.close();
+        return;
+      }
+      // Lets a newer version in another tab upgrade; the next request here reopens it.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+// Runs a single request in its own transaction and resolves with its result.
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AnalysisResult, CaptureThumbnails } from '../types';
+import { buildFhirBundle, FhirBundle, FhirDiagnosticReport, FhirMedia, FhirObservation, validateFhirBundle } from './fhirExport';
+
+const IMAGE = 'data:image/jpeg;base64,/9j/4AAQSkZJRg==';
+
+const leftResult: AnalysisResult = {
+  foot: 'left',
+  archType: 'Flat',
+  potentialIssues: [
+    { condition: 'hallux-valgus', issue: 'Hallux valgus', severity: 'Moderate', description: 'Big toe deviates towards the second toe.', foot: 'left' },
+    { condition: 'other', issue: 'Plantar wart', severity: 'Mild', description: 'Small lesion under the heel.', foot: 'left' },
+  ],
+  summary: 'Flat arch with a moderate bunion.',
+  clinicalRecommendations: ['Consider orthotics.'],
+  footwearSuggestions: ['Stability shoes'],
+  confidenceScore: 74,
+};
+
+const rightResult: AnalysisResult = {
+  ...leftResult,
+  foot: 'right',
+  archType: 'Normal',
+  potentialIssues: [],
+  summary: 'No major issues.',
+};
+
+const thumbnails: CaptureThumbnails = {
+  left: { top: IMAGE, side: IMAGE, back: IMAGE },
+  right: { side: IMAGE },
+};
+
+const build = (): FhirBundle => buildFhirBundle({
+  results: { left: leftResult, right: rightResult },
+  thumbnails,
+  analysisDate: new Date('2026-01-15T10:00:00Z'),
+});
+
+const resourcesOf = <T extends FhirBundle['entry'][number]['resource']>(bundle: FhirBundle, type: T['resourceType']): T[] =>
+  bundle.entry.map(entry => entry.resource).filter(resource => resource.resourceType === type) as T[];
+
+describe('buildFhirBundle', () => {
+  it('produces a bundle that passes validation', () => {
+    const bundle = build();
+    assert.equal(bundle.resourceType, 'Bundle');
+    assert.equal(bundle.type, 'collection');
+    assert.deepEqual(validateFhirBundle(bundle), []);
+  });
+
+  it('has one DiagnosticReport referencing every Observation and Media', () => {
+    const bundle = build();
+    const [report, ...others] = resourcesOf<FhirDiagnosticReport>(bundle, 'DiagnosticReport');
+    assert.equal(others.length, 0);
+    const observations = resourcesOf<FhirObservation>(bundle, 'Observation');
+    const media = resourcesOf<FhirMedia>(bundle, 'Media');
+
+    assert.deepEqual(report.result.map(reference => reference.reference), observations.map(observation => `urn:uuid:${observation.id}`));
+    assert.deepEqual(report.media.map(item => item.link.reference), media.map(item => `urn:uuid:${item.id}`));
+    assert.equal(report.status, 'preliminary');
+    assert.equal(report.resultsInterpreter, undefined);
+  });
+
+  it('exports an arch type Observation per foot and an Observation per issue', () => {
+    const observations = resourcesOf<FhirObservation>(build(), 'Observation');
+    const archTypes = observations.filter(observation => observation.code.text === 'Foot arch type');
+    assert.deepEqual(archTypes.map(observation => observation.valueCodeableConcept?.text), ['Flat', 'Normal']);
+
+    const bunion = observations.find(observation => observation.code.text === 'Hallux valgus');
+    assert.ok(bunion);
+    assert.equal(bunion.bodySite.text, 'Left foot');
+    assert.deepEqual(bunion.component?.[0].valueCodeableConcept?.text, 'Moderate');
+    assert.ok(observations.some(observation => observation.code.text === 'Plantar wart'));
+  });
+
+  it('codes issues against SNOMED CT and ICD-10, leaving other findings as text', () => {
+    const observations = resourcesOf<FhirObservation>(build(), 'Observation');
+    const bunion = observations.find(observation => observation.code.text === 'Hallux valgus')!;
+    assert.deepEqual(bunion.code.coding?.map(coding => [coding.system, coding.code]), [
+      ['http://snomed.info/sct', '202855006'],
+      ['http://hl7.org/fhir/sid/icd-10', 'M20.1'],
+    ]);
+    const wart = observations.find(observation => observation.code.text === 'Plantar wart')!;
+    assert.equal(wart.code.coding, undefined);
+  });
+
+  it('derives each foot’s Observations from that foot’s Media only', () => {
+    const bundle = build();
+    const media = resourcesOf<FhirMedia>(bundle, 'Media');
+    assert.equal(media.length, 4);
+    const leftMedia = media.filter(item => item.bodySite.text === 'Left foot').map(item => `urn:uuid:${item.id}`);
+    const bunion = resourcesOf<FhirObservation>(bundle, 'Observation').find(observation => observation.code.text === 'Hallux valgus')!;
+    assert.deepEqual(bunion.derivedFrom?.map(reference => reference.reference), leftMedia);
+  });
+
+  it('marks a signed-off review as final with its interpreter', () => {
+    const bundle = buildFhirBundle({
+      results: { left: leftResult },
+      review: { feet: {}, signOff: { reviewer: 'Dr Rivera', signedAt: '2026-01-16T09:00:00.000Z' } },
+      thumbnails,
+      analysisDate: new Date('2026-01-15T10:00:00Z'),
+    });
+    const [report] = resourcesOf<FhirDiagnosticReport>(bundle, 'DiagnosticReport');
+    assert.equal(report.status, 'final');
+    assert.equal(report.issued, '2026-01-16T09:00:00.000Z');
+    assert.deepEqual(report.resultsInterpreter, [{ display: 'Dr Rivera' }]);
+    assert.ok(resourcesOf<FhirObservation>(bundle, 'Observation').every(observation => observation.status === 'final'));
+  });
+});
+
+describe('validateFhirBundle', () => {
+  it('reports references to resources missing from the bundle', () => {
+    const bundle = build();
+    bundle.entry = bundle.entry.filter(entry => entry.resource.resourceType !== 'Media');
+    const problems = validateFhirBundle(bundle);
+    assert.ok(problems.some(problem => problem.includes('.media[0].link references')));
+    assert.ok(problems.some(problem => problem.includes('.derivedFrom[0] references')));
+  });
+
+  it('reports a missing Observation code and a mismatched fullUrl', () => {
+    const bundle = build();
+    const observationIndex = bundle.entry.findIndex(entry => entry.resource.resourceType === 'Observation');
+    (bundle.entry[observationIndex].resource as FhirObservation).code = {};
+    bundle.entry[0].fullUrl = 'urn:uuid:not-the-report';
+    const problems = validateFhirBundle(bundle);
+    assert.ok(problems.includes(`Bundle.entry[${observationIndex}].resource.code is required.`));
+    assert.ok(problems.includes('Bundle.entry[0].fullUrl does not match the resource id.'));
+  });
+
+  it('requires exactly one DiagnosticReport', () => {
+    const bundle = build();
+    bundle.entry = bundle.entry.filter(entry => entry.resource.resourceType !== 'DiagnosticReport');
+    assert.ok(validateFhirBundle(bundle).includes('Expected exactly one DiagnosticReport, found 0.'));
+  });
+});
@@ -0,0 +1,423 @@
+import { AnalysisResult, BilateralAnalysis, CaptureThumbnails, ClinicianReview, FootDimensions, FootprintIndices, FootSide, FootView, HalluxValgusMeasurement, PotentialIssue, RearfootMeasurement } from '../types';
+import { describeReviewNote, reviewNotes } from './clinicianReview';
+import { findCondition, ICD10_SYSTEM, SNOMED_SYSTEM } from './footConditions';
+import { recommendShoeSize, ShoeSizeRecommendation } from './shoeSizing';
+import en from '../locales/en';
+
+// Minimal FHIR R4 shapes for the resources this exporter produces.
+interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+interface Reference {
+  reference: string;
+  display?: string;
+}
+
+interface ObservationComponent {
+  code: CodeableConcept;
+  valueCodeableConcept?: CodeableConcept;
+  valueQuantity?: { value: number; unit: string; system: string; code: string };
+  valueString?: string;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id: string;
+  status: 'preliminary' | 'final';
+  category: CodeableConcept[];
+  code: CodeableConcept;
+  effectiveDateTime: string;
+  bodySite: CodeableConcept;
+  valueCodeableConcept?: CodeableConcept;
+  component?: ObservationComponent[];
+  note?: { text: string }[];
+  derivedFrom?: Reference[];
+}
+
+export interface FhirMedia {
+  resourceType: 'Media';
+  id: string;
+  status: 'completed';
+  type: CodeableConcept;
+  view: CodeableConcept;
+  bodySite: CodeableConcept;
+  createdDateTime: string;
+  content: { contentType: string; data: string; title: string };
+}
+
+export interface FhirDiagnosticReport {
+  resourceType: 'DiagnosticReport';
+  id: string;
+  status: 'preliminary' | 'final';
+  category: CodeableConcept[];
+  code: CodeableConcept;
+  effectiveDateTime: string;
+  issued: string;
+  // The clinician who signed off the findings, by name only.
+  resultsInterpreter?: { display: string }[];
+  result: Reference[];
+  media: { comment: string; link: Reference }[];
+  conclusion: string;
+}
+
+export type FhirResource = FhirDiagnosticReport | FhirObservation | FhirMedia;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+export interface FhirExportInput {
+  results: BilateralAnalysis;
+  // The signed-off review the results reflect; absent when they are the AI draft.
+  review?: ClinicianReview;
+  thumbnails: CaptureThumbnails;
+  analysisDate: Date;
+}
+
+const UCUM = 'http://unitsofmeasure.org';
+
+const FOOT_SITES: Record<FootSide, Coding> = {
+  left: { system: SNOMED_SYSTEM, code: '22335008', display: 'Left foot' },
+  right: { system: SNOMED_SYSTEM, code: '7769000', display: 'Right foot' },
+};
+
+const SEVERITY_CODES: Record<PotentialIssue['severity'], Coding | null> = {
+  'Mild': { system: SNOMED_SYSTEM, code: '255604002', display: 'Mild' },
+  'Moderate': { system: SNOMED_SYSTEM, code: '6736007', display: 'Moderate' },
+  'Severe': { system: SNOMED_SYSTEM, code: '24484000', display: 'Severe' },
+  'Unknown': null,
+};
+
+const SEVERITY_CONCEPT: CodeableConcept = {
+  coding: [{ system: SNOMED_SYSTEM, code: '246112005', display: 'Severity' }],
+  text: 'Severity',
+};
+
+const EXAM_CATEGORY: CodeableConcept = {
+  coding: [{ system: 'http://terminology.hl7.org/CodeSystem/observation-category', code: 'exam', display: 'Exam' }],
+};
+
+const VIEW_LABELS: Record<FootView, string> = {
+  top: 'Top (dorsal) view',
+  side: 'Side (medial arch) view',
+  back: 'Back (posterior heel) view',
+  footprint: 'Plantar footprint',
+};
+
+const urn = (id: string) => `urn:uuid:${id}`;
+
+const bodySite = (foot: FootSide): CodeableConcept => ({ coding: [FOOT_SITES[foot]], text: FOOT_SITES[foot].display });
+
+const archObservation = (result: AnalysisResult, effective: string, media: Reference[]): FhirObservation => {
+  const component: ObservationComponent[] = [{
+    code: { text: 'AI confidence score' },
+    valueQuantity: { value: result.confidenceScore, unit: '%', system: UCUM, code: '%' },
+  }];
+  const measurement = result.archMeasurement;
+  if (measurement) {
+    component.push(
+      { code: { text: 'Measured arch type' }, valueCodeableConcept: { text: measurement.archType } },
+      { code: { text: 'Medial longitudinal arch angle' }, valueQuantity: { value: measurement.archAngle, unit: 'degrees', system: UCUM, code: 'deg' } },
+      { code: { text: 'Navicular height ratio' }, valueQuantity: { value: measurement.navicularHeightRatio, unit: 'ratio', system: UCUM, code: '1' } },
+    );
+  }
+  return {
+    resourceType: 'Observation',
+    id: crypto.randomUUID(),
+    status: 'preliminary',
+    category: [EXAM_CATEGORY],
+    code: { text: 'Foot arch type' },
+    effectiveDateTime: effective,
+    bodySite: bodySite(result.foot),
+    valueCodeableConcept: { text: result.archType },
+    component,
+    derivedFrom: media,
+  };
+};
+
+// Coded findings carry their SNOMED CT and ICD-10 codes; 'other' findings are text only.
+const issueConcept = (issue: PotentialIssue): CodeableConcept => {
+  const condition = findCondition(issue.condition);
+  if (!condition) return { text: issue.issue };
+  return {
+    coding: [
+      { system: SNOMED_SYSTEM, code: condition.snomed.code, display: condition.snomed.display },
+      { system: ICD10_SYSTEM, code: condition.icd10.code, display: condition.icd10.display },
+    ],
+    text: issue.issue,
+  };
+};
+
+const issueObservation = (issue: PotentialIssue, effective: string, media: Reference[]): FhirObservation => {
+  const severity = SEVERITY_CODES[issue.severity];
+  return {
+    resourceType: 'Observation',
+    id: crypto.randomUUID(),
+    status: 'preliminary',
+    category: [EXAM_CATEGORY],
+    code: issueConcept(issue),
+    effectiveDateTime: effective,
+    bodySite: bodySite(issue.foot),
+    component: [{
+      code: SEVERITY_CONCEPT,
+      valueCodeableConcept: severity ? { coding: [severity], text: issue.severity } : { text: issue.severity },
+    }],
+    note: issue.description ? [{ text: issue.description }] : undefined,
+    derivedFrom: media,
+  };
+};
+
+const halluxValgusObservation = (result: AnalysisResult, measurement: HalluxValgusMeasurement, effective: string, media: Reference[]): FhirObservation => ({
+  resourceType: 'Observation',
+  id: crypto.randomUUID(),
+  status: 'preliminary',
+  category: [EXAM_CATEGORY],
+  code: { text: 'Hallux valgus measurement' },
+  effectiveDateTime: effective,
+  bodySite: bodySite(result.foot),
+  valueCodeableConcept: { text: measurement.grade },
+  component: [
+    { code: { text: 'Hallux valgus angle' }, valueQuantity: { value: measurement.halluxValgusAngle, unit: 'degrees', system: UCUM, code: 'deg' } },
+    { code: { text: 'Intermetatarsal angle' }, valueQuantity: { value: measurement.intermetatarsalAngle, unit: 'degrees', system: UCUM, code: 'deg' } },
+  ],
+  derivedFrom: media,
+});
+
+const rearfootObservation = (result: AnalysisResult, measurement: RearfootMeasurement, effective: string, media: Reference[]): FhirObservation => ({
+  resourceType: 'Observation',
+  id: crypto.randomUUID(),
+  status: 'preliminary',
+  category: [EXAM_CATEGORY],
+  code: { text: 'Rearfoot alignment measurement' },
+  effectiveDateTime: effective,
+  bodySite: bodySite(result.foot),
+  valueCodeableConcept: { text: measurement.alignment },
+  component: [
+    { code: { text: 'Rearfoot angle (positive is valgus)' }, valueQuantity: { value: measurement.rearfootAngle, unit: 'degrees', system: UCUM, code: 'deg' } },
+  ],
+  derivedFrom: media,
+});
+
+const dimensionsObservation = (result: AnalysisResult, dimensions: FootDimensions, effective: string, media: Reference[]): FhirObservation => {
+  const millimetres = (value: number) => ({ value, unit: 'mm', system: UCUM, code: 'mm' });
+  return {
+    resourceType: 'Observation',
+    id: crypto.randomUUID(),
+    status: 'preliminary',
+    category: [EXAM_CATEGORY],
+    code: { text: 'Foot dimensions' },
+    effectiveDateTime: effective,
+    bodySite: bodySite(result.foot),
+    component: [
+      { code: { text: 'Foot length' }, valueQuantity: millimetres(dimensions.footLengthMm) },
+      { code: { text: 'Forefoot width' }, valueQuantity: millimetres(dimensions.forefootWidthMm) },
+      { code: { text: 'Heel width' }, valueQuantity: millimetres(dimensions.heelWidthMm) },
+    ],
+    derivedFrom: media,
+  };
+};
+
+const footprintObservation = (result: AnalysisResult, indices: FootprintIndices, effective: string, media: Reference[]): FhirObservation => {
+  const ratio = (value: number) => ({ value, unit: 'ratio', system: UCUM, code: '1' });
+  return {
+    resourceType: 'Observation',
+    id: crypto.randomUUID(),
+    status: 'preliminary',
+    category: [EXAM_CATEGORY],
+    code: { text: 'Footprint arch indices' },
+    effectiveDateTime: effective,
+    bodySite: bodySite(result.foot),
+    valueCodeableConcept: { text: indices.archType },
+    component: [
+      { code: { text: 'Staheli index' }, valueQuantity: ratio(indices.staheliIndex) },
+      { code: { text: 'Chippaux-Smirak index' }, valueQuantity: { value: indices.chippauxSmirakIndex, unit: '%', system: UCUM, code: '%' } },
+      { code: { text: 'Cavanagh arch index' }, valueQuantity: ratio(indices.cavanaghArchIndex) },
+    ],
+    derivedFrom: media,
+  };
+};
+
+const shoeSizeObservation = (result: AnalysisResult, size: ShoeSizeRecommendation, effective: string, media: Reference[]): FhirObservation => ({
+  resourceType: 'Observation',
+  id: crypto.randomUUID(),
+  status: 'preliminary',
+  category: [EXAM_CATEGORY],
+  code: { text: 'Shoe size recommendation' },
+  effectiveDateTime: effective,
+  bodySite: bodySite(result.foot),
+  component: [
+    { code: { text: 'EU size' }, valueString: String(size.eu) },
+    { code: { text: 'UK size' }, valueString: String(size.uk) },
+    { code: { text: 'US men size' }, valueString: String(size.usMen) },
+    { code: { text: 'US women size' }, valueString: String(size.usWomen) },
+    { code: { text: 'JP size' }, valueQuantity: { value: size.jp, unit: 'cm', system: UCUM, code: 'cm' } },
+    { code: { text: 'Mondopoint' }, valueQuantity: { value: size.mondopoint, unit: 'mm', system: UCUM, code: 'mm' } },
+    { code: { text: 'Width fitting' }, valueString: `${en.shoeSize.widths[size.width.name]} (${size.width.code})` },
+  ],
+  // Exported text is always English, like the rest of the bundle.
+  note: size.notes.length > 0 ? size.notes.map(note => ({ text: en.shoeSize.notes[note] })) : undefined,
+  derivedFrom: size.source === 'measured' ? media : undefined,
+});
+
+const mediaResource = (foot: FootSide, view: FootView, dataUrl: string, effective: string): FhirMedia => {
+  const [header, data] = dataUrl.split(',');
+  const contentType = header.match(/^data:(.*?);base64$/)?.[1] ?? 'image/jpeg';
+  return {
+    resourceType: 'Media',
+    id: crypto.randomUUID(),
+    status: 'completed',
+    type: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/media-type', code: 'image', display: 'Image' }] },
+    view: { text: VIEW_LABELS[view] },
+    bodySite: bodySite(foot),
+    createdDateTime: effective,
+    content: { contentType, data, title: `${FOOT_SITES[foot].display} - ${VIEW_LABELS[view]}` },
+  };
+};
+
+/**
+ * Converts an analysis into a FHIR R4 collection Bundle: one DiagnosticReport that
+ * references an arch-type Observation per foot, an Observation per potential issue
+ * and a Media resource per captured view. Results with a signed-off review are exported as
+ * final, with the reviewer as the report's interpreter; the AI draft stays preliminary.
+ */
+export const buildFhirBundle = ({ results, review, thumbnails, analysisDate }: FhirExportInput): FhirBundle => {
+  const effective = analysisDate.toISOString();
+  const observations: FhirObservation[] = [];
+  const mediaResources: FhirMedia[] = [];
+  const conclusions: string[] = [];
+
+  (['left', 'right'] as FootSide[]).forEach(foot => {
+    const result = results[foot];
+    if (!result) return;
+
+    const footMedia = (Object.keys(VIEW_LABELS) as FootView[])
+      .filter(view => thumbnails[foot]?.[view])
+      .map(view => mediaResource(foot, view, thumbnails[foot]![view]!, effective));
+    mediaResources.push(...footMedia);
+    const mediaReferences = footMedia.map(media => ({ reference: urn(media.id) }));
+
+    observations.push(archObservation(result, effective, mediaReferences));
+    if (result.halluxMeasurement) {
+      observations.push(halluxValgusObservation(result, result.halluxMeasurement, effective, mediaReferences));
+    }
+    if (result.rearfootMeasurement) {
+      observations.push(rearfootObservation(result, result.rearfootMeasurement, effective, mediaReferences));
+    }
+    if (result.footDimensions) {
+      observations.push(dimensionsObservation(result, result.footDimensions, effective, mediaReferences));
+    }
+    if (result.footprintIndices) {
+      observations.push(footprintObservation(result, result.footprintIndices, effective, mediaReferences));
+    }
+    const shoeSize = recommendShoeSize(result);
+    if (shoeSize) observations.push(shoeSizeObservation(result, shoeSize, effective, mediaReferences));
+    result.potentialIssues.forEach(issue => observations.push(issueObservation(issue, effective, mediaReferences)));
+    const notes = review?.feet[foot] ? reviewNotes(review.feet[foot]!).map(describeReviewNote) : [];
+    conclusions.push([`${FOOT_SITES[foot].display}: ${result.summary}`, ...notes.map(note => `Clinician note - ${note}`)].join('\n'));
+  });
+
+  const signOff = review?.signOff;
+  const status = signOff ? 'final' : 'preliminary';
+  observations.forEach(observation => { observation.status = status; });
+
+  const report: FhirDiagnosticReport = {
+    resourceType: 'DiagnosticReport',
+    id: crypto.randomUUID(),
+    status,
+    category: [{ text: 'AI-assisted foot photograph analysis' }],
+    code: { text: 'SmartStep AI foot analysis' },
+    effectiveDateTime: effective,
+    issued: signOff?.signedAt ?? new Date().toISOString(),
+    resultsInterpreter: signOff ? [{ display: signOff.reviewer }] : undefined,
+    result: observations.map(observation => ({ reference: urn(observation.id), display: observation.code.text })),
+    media: mediaResources.map(media => ({ comment: media.content.title, link: { reference: urn(media.id) } })),
+    conclusion: conclusions.join('\n\n'),
+  };
+
+  return {
+    resourceType: 'Bundle',
+    id: crypto.randomUUID(),
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: [report, ...observations, ...mediaResources].map(resource => ({ fullUrl: urn(resource.id), resource })),
+  };
+};
+
+/**
+ * Checks a bundle against the structural rules of the resources it contains: required
+ * elements are present and every reference resolves to an entry in the bundle.
+ * Returns the list of problems found, empty when the bundle is valid.
+ */
+export const validateFhirBundle = (bundle: FhirBundle): string[] => {
+  const problems: string[] = [];
+  const fullUrls = new Set(bundle.entry.map(entry => entry.fullUrl));
+
+  const checkReference = (path: string, reference: Reference) => {
+    if (!fullUrls.has(reference.reference)) problems.push(`${path} references ${reference.reference}, which is not in the bundle.`);
+  };
+
+  if (bundle.resourceType !== 'Bundle') problems.push('resourceType must be Bundle.');
+  if (!bundle.type) problems.push('Bundle.type is required.');
+
+  bundle.entry.forEach((entry, index) => {
+    const resource = entry.resource;
+    const path = `Bundle.entry[${index}].resource`;
+    if (entry.fullUrl !== urn(resource.id)) problems.push(`Bundle.entry[${index}].fullUrl does not match the resource id.`);
+
+    switch (resource.resourceType) {
+      case 'DiagnosticReport':
+        if (!resource.status) problems.push(`${path}.status is required.`);
+        if (!resource.code?.text && !resource.code?.coding?.length) problems.push(`${path}.code is required.`);
+        resource.result.forEach((reference, i) => checkReference(`${path}.result[${i}]`, reference));
+        resource.media.forEach((media, i) => checkReference(`${path}.media[${i}].link`, media.link));
+        break;
+      case 'Observation':
+        if (!resource.status) problems.push(`${path}.status is required.`);
+        if (!resource.code?.text && !resource.code?.coding?.length) problems.push(`${path}.code is required.`);
+        resource.component?.forEach((component, i) => {
+          if (!component.code) problems.push(`${path}.component[${i}].code is required.`);
+        });
+        resource.derivedFrom?.forEach((reference, i) => checkReference(`${path}.derivedFrom[${i}]`, reference));
+        break;
+      case 'Media':
+        if (!resource.status) problems.push(`${path}.status is required.`);
+        if (!resource.content?.contentType || !resource.content?.data) problems.push(`${path}.content needs contentType and data.`);
+        break;
+      default:
+        problems.push(`${path} has an unexpected resourceType.`);
+    }
+  });
+
+  const reports = bundle.entry.filter(entry => entry.resource.resourceType === 'DiagnosticReport');
+  if (reports.length !== 1) problems.push(`Expected exactly one DiagnosticReport, found ${reports.length}.`);
+
+  return problems;
+};
+
+export const downloadFhirBundle = (input: FhirExportInput): void => {
+  const bundle = buildFhirBundle(input);
+  const problems = validateFhirBundle(bundle);
+  if (problems.length > 0) {
+    throw new Error(`The FHIR export is invalid: ${problems.join(' ')}`);
+  }
+
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `smartstep-fhir-${input.analysisDate.toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,117 @@
+import { AnalysisProgress, AnalysisResult, ChatMessage, FollowUpContext, FootImages, FootSide, FootView, ViewClassification } from '../types';
+import { FootAnalysisProvider } from './analysisProvider';
+import { normalizeAnalysisResult } from './analysisValidation';
+
+// Every JSON file in the fixture directory is a canned AnalysisResult (without the foot,
+// which is filled in per request).
+const fixtureModules = import.meta.glob<unknown>('../fixtures/analysis/*.json', { eager: true, import: 'default' });
+
+const FIXTURES: unknown[] = Object.keys(fixtureModules)
+  .sort()
+  .map(path => fixtureModules[path]);
+
+// Simulated model latency so the loading state can still be exercised offline.
+const FIXTURE_LATENCY_MS = 800;
+
+// Small string hash (djb2) used to pick a fixture deterministically from the inputs.
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+// Replays a finished result as a stream, one stage at a time, over the simulated latency.
+const simulateStream = async (result: AnalysisResult, latencyMs: number, onProgress: (progress: AnalysisProgress) => void) => {
+  const { archType, potentialIssues, summary, clinicalRecommendations, footwearSuggestions } = result;
+  const steps: AnalysisProgress[] = [
+    { stage: 'sending', partial: {} },
+    { stage: 'archType', partial: { archType } },
+    { stage: 'potentialIssues', partial: { archType, potentialIssues } },
+    { stage: 'summary', partial: { archType, potentialIssues, summary } },
+    { stage: 'recommendations', partial: { archType, potentialIssues, summary, clinicalRecommendations, footwearSuggestions } },
+  ];
+  for (const step of steps) {
+    onProgress(step);
+    await new Promise(resolve => setTimeout(resolve, latencyMs / steps.length));
+  }
+};
+
+const VIEW_KEYWORDS: Record<FootView, RegExp> = {
+  top: /top|dorsal|above/i,
+  side: /side|arch|medial/i,
+  back: /back|heel|rear|posterior/i,
+  footprint: /print|ink|wet/i,
+};
+
+const FOOT_KEYWORDS: Record<FootSide, RegExp> = {
+  left: /left|(^|[^a-z])l([^a-z]|$)/i,
+  right: /right|(^|[^a-z])r([^a-z]|$)/i,
+};
+
+// Offline stand-in for the model: guesses the view and foot from the file name.
+const classifyByFileName = (file: File): ViewClassification => {
+  const view = (Object.keys(VIEW_KEYWORDS) as FootView[]).find(key => VIEW_KEYWORDS[key].test(file.name)) ?? 'unknown';
+  const foot = (Object.keys(FOOT_KEYWORDS) as FootSide[]).find(key => FOOT_KEYWORDS[key].test(file.name)) ?? 'unknown';
+  return {
+    isFoot: true,
+    view,
+    foot,
+    confidence: view === 'unknown' ? 0 : foot === 'unknown' ? 50 : 70,
+    reason: view === 'unknown' ? 'The file name does not mention a view.' : `Guessed from the file name "${file.name}".`,
+  };
+};
+
+// Offline stand-in for the follow-up assistant: restates the analysis it is grounded in.
+const cannedReply = ({ result }: FollowUpContext): ChatMessage => {
+  const issues = result.potentialIssues.map(issue => `${issue.issue.toLowerCase()} (${issue.severity.toLowerCase()})`);
+  const findings = issues.length > 0 ? `possible ${issues.join(', ')}` : 'no major issues';
+  const footwear = result.footwearSuggestions[0] ? ` For footwear, the analysis suggests: ${result.footwearSuggestions[0]}` : '';
+  return {
+    role: 'assistant',
+    text: `(Offline demo reply) Your ${result.foot} foot analysis found a ${result.archType.toLowerCase()} arch and ${findings}.${footwear} Only a clinician can confirm these findings.`,
+  };
+};
+
+export const createFixtureProvider = (options: { fixtures?: unknown[]; latencyMs?: number } = {}): FootAnalysisProvider => {
+  const fixtures = options.fixtures ?? FIXTURES;
+  const latencyMs = options.latencyMs ?? FIXTURE_LATENCY_MS;
+
+  return {
+    id: 'fixture',
+    label: 'Offline fixtures',
+    promptVersion: 'fixtures',
+    analyze: async (imageFiles: FootImages, foot: FootSide, { onProgress } = {}): Promise<AnalysisResult> => {
+      const providedViews = (Object.keys(imageFiles) as (keyof FootImages)[]).filter(key => imageFiles[key]);
+
+      if (providedViews.length === 0) {
+        throw new Error("No images were provided for analysis.");
+      }
+      if (fixtures.length === 0) {
+        throw new Error("No analysis fixtures are available.");
+      }
+
+      // The same set of files always maps to the same fixture.
+      const key = [foot, ...providedViews.map(view => `${view}:${imageFiles[view]!.name}:${imageFiles[view]!.size}`)].join('|');
+      const fixture = fixtures[hashString(key) % fixtures.length];
+
+      // Hand-edited fixtures go through the same normalisation as model output.
+      const result = normalizeAnalysisResult(structuredClone(fixture), foot).result;
+      // Fixtures are written in English whatever the requested language.
+      if (onProgress) {
+        await simulateStream(result, latencyMs, onProgress);
+      } else {
+        await new Promise(resolve => setTimeout(resolve, latencyMs));
+      }
+      return result;
+    },
+    classifyView: async (file: File) => classifyByFileName(file),
+    chat: async (context: FollowUpContext) => {
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+      return cannedReply(context);
+    },
+  };
+};
+
+export const fixtureProvider = createFixtureProvider();
@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { guardrailReply } from './followUpChat';
+
+const replies = { redFlag: 'red flag', prescription: 'prescription' };
+
+const replyTo = (question: string) => guardrailReply(question, replies)?.text ?? null;
+
+describe('guardrailReply', () => {
+  it('refers red-flag symptoms to a clinician', () => {
+    for (const question of [
+      'My toes have gone numb since yesterday',
+      'There is a numbing feeling in my heel',
+      'I have tingling in the arch',
+      'The blister looks infected and has pus',
+      'I have a sore that won\'t heal and I am diabetic',
+      'I have a black toe that feels cold',
+      'I heard a pop and now I can\'t walk',
+      'I think my toe is broken',
+      'Tengo el pie entumecido',
+      'J\'ai de la fièvre et une plaie au talon',
+    ]) {
+      assert.equal(replyTo(question), 'red flag', question);
+    }
+  });
+
+  it('refers requests for medication to a clinician', () => {
+    for (const question of [
+      'Can you prescribe something for the pain?',
+      'Which medication should I take?',
+      'How much ibuprofen can I take?',
+      'What dose of cortisone would help?',
+      '¿Qué medicamento me recomiendas?',
+    ]) {
+      assert.equal(replyTo(question), 'prescription', question);
+    }
+  });
+
+  it('lets ordinary questions through', () => {
+    for (const question of [
+      'What do these findings mean for me?',
+      'Which running shoes would suit my feet?',
+      'What number should my shoe size be?',
+      'Should I disinfect my insoles?',
+      'Does it help to push off with my big toe?',
+      'How long until new shoes are broken in?',
+      'Are blue insoles better than black ones?',
+    ]) {
+      assert.equal(replyTo(question), null, question);
+    }
+  });
+});
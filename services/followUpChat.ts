@@ -0,0 +1,68 @@
+import { ChatMessage, FollowUpContext } from '../types';
+import { FootAnalysisProvider } from './analysisProvider';
+
+// Questions that describe symptoms needing a clinician rather than an app. Word stems are
+// anchored with \b so that e.g. "number", "push" and "disinfect" do not match.
+const RED_FLAGS: RegExp[] = [
+  /chest pain|short(ness)? of breath/i,
+  /\bnumb(ness|ed|ing)?\b|\btingl|pins and needles|lost (the )?feeling/i,
+  /\bfever|\binfect|\bpus\b|red streak|hot to the touch/i,
+  /ulcer|open (sore|wound)|(sore|wound|cut|blister)s? (that )?(won'?t|will not|isn'?t|is not) heal/i,
+  /diabet\w*.*(wound|sore|cut|blister|ulcer)|(wound|sore|cut|blister|ulcer).*diabet/i,
+  /(sudden|severe|extreme|unbearable) (pain|swelling)/i,
+  /(can'?t|cannot|unable to) (walk|stand|bear weight|put weight)/i,
+  /\b(black|blue|purple|cold) (toe|foot|skin)/i,
+  /calf (pain|swelling|is swollen)|swollen calf/i,
+  /\bbroken\b(?! in\b)|fracture|heard a (pop|snap|crack)\b/i,
+  // The same symptoms asked about in Spanish or French.
+  /entumec|hormigue|adormec|engourdi|fourmill/i,
+  /fiebre|fièvre|\binfecci/i,
+  /úlcera|ulcère|herida|plaie/i,
+  /no puedo (caminar|andar|apoyar)|(ne peux|n['’]arrive) (pas|plus) (marcher|poser)/i,
+  /fractur|\brot[oa]\b|cassé/i,
+];
+
+// Requests for medication or a prescribed treatment.
+const PRESCRIPTION_REQUESTS: RegExp[] = [
+  /prescri/i,
+  /antibiotic|steroid|cortisone|opioid/i,
+  /(what|which) (medication|medicine|drug|pill)s?|how (much|many) (ibuprofen|paracetamol|acetaminophen|naproxen|aspirin)/i,
+  /\bdos(e|age)\b/i,
+  /receta|antibiótico|medicamento|dosis|ordonnance|antibiotique|médicament|posologie/i,
+];
+
+// The referral texts, in the user's language; see `chat.guardrails` in the locale files.
+export interface GuardrailReplies {
+  redFlag: string;
+  prescription: string;
+}
+
+// The local check that answers instead of the model, or null when the question may be asked.
+export const guardrailReply = (question: string, replies: GuardrailReplies): ChatMessage | null => {
+  if (RED_FLAGS.some(pattern => pattern.test(question))) {
+    return { role: 'assistant', text: replies.redFlag, referToClinician: true };
+  }
+  if (PRESCRIPTION_REQUESTS.some(pattern => pattern.test(question))) {
+    return { role: 'assistant', text: replies.prescription, referToClinician: true };
+  }
+  return null;
+};
+
+/**
+ * Answers the last user message of a follow-up conversation. Red-flag symptoms and
+ * requests for medication are answered locally with a referral and never reach the
+ * provider; everything else is answered by the provider, which is instructed to avoid
+ * diagnosing or prescribing and can itself refer to a clinician.
+ */
+export const askFollowUp = async (
+  provider: FootAnalysisProvider,
+  context: FollowUpContext,
+  messages: ChatMessage[],
+  replies: GuardrailReplies,
+): Promise<ChatMessage> => {
+  const question = messages[messages.length - 1];
+  if (!question || question.role !== 'user') {
+    throw new Error("There is no question to answer.");
+  }
+  return guardrailReply(question.text, replies) ?? provider.chat(context, messages);
+};
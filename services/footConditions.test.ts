@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { codeIssue, conditionFromName, FOOT_CONDITIONS } from './footConditions';
+
+// SNOMED CT identifiers end in a Verhoeff check digit, which catches mistyped codes.
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7], [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3], [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7], [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+const hasValidCheckDigit = (code: string): boolean =>
+  [...code].reverse().reduce((check, digit, index) => VERHOEFF_D[check][VERHOEFF_P[index % 8][Number(digit)]], 0) === 0;
+
+describe('FOOT_CONDITIONS', () => {
+  it('has well-formed SNOMED CT and ICD-10 codes', () => {
+    for (const condition of FOOT_CONDITIONS) {
+      assert.match(condition.snomed.code, /^\d{6,18}$/, condition.code);
+      assert.ok(hasValidCheckDigit(condition.snomed.code), `${condition.code} has an invalid SNOMED CT check digit`);
+      assert.match(condition.icd10.code, /^[A-Z]\d{2}(\.\d)?$/, condition.code);
+    }
+  });
+
+  it('has unique codes', () => {
+    const codes = FOOT_CONDITIONS.map(condition => condition.code);
+    assert.equal(new Set(codes).size, codes.length);
+  });
+});
+
+describe('conditionFromName', () => {
+  it('maps legacy free-text names onto the taxonomy', () => {
+    assert.equal(conditionFromName('Bunion (Hallux Valgus)'), 'hallux-valgus');
+    assert.equal(conditionFromName('Flat feet'), 'pes-planus');
+    assert.equal(conditionFromName('High arch'), 'pes-cavus');
+    assert.equal(conditionFromName('Hammertoe'), 'hammer-toe');
+    assert.equal(conditionFromName('Clawed toes'), 'claw-toe');
+    assert.equal(conditionFromName('Mallet toe'), 'mallet-toe');
+    assert.equal(conditionFromName('Overpronation'), 'overpronation');
+    assert.equal(conditionFromName('Underpronation'), 'supination');
+  });
+
+  it('leaves unrelated names as other', () => {
+    assert.equal(conditionFromName("Tailor's bunion"), 'other');
+    assert.equal(conditionFromName('Callus below arch'), 'other');
+    assert.equal(conditionFromName('Plantar wart'), 'other');
+  });
+});
+
+describe('codeIssue', () => {
+  it('keeps a valid code and the model\'s wording', () => {
+    const issue = codeIssue({ condition: 'hammer-toe', issue: 'Hammertoe, second toe', severity: 'Mild', description: '', foot: 'left' });
+    assert.equal(issue.condition, 'hammer-toe');
+    assert.equal(issue.issue, 'Hammertoe, second toe');
+  });
+
+  it('codes an issue without a valid code from its name', () => {
+    const issue = codeIssue({ condition: 'bunion', issue: 'Bunion', severity: 'Mild', description: '', foot: 'right' });
+    assert.equal(issue.condition, 'hallux-valgus');
+    assert.equal(issue.issue, 'Bunion');
+  });
+});
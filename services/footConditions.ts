@@ -0,0 +1,132 @@
+import { FootConditionCode, PotentialIssue } from '../types';
+
+export interface ConditionCoding {
+  code: string;
+  display: string;
+}
+
+export interface FootCondition {
+  code: Exclude<FootConditionCode, 'other'>;
+  // The name shown for the condition and used as the issue name.
+  name: string;
+  snomed: ConditionCoding;
+  icd10: ConditionCoding;
+  // Free-text names that refer to the condition, as the model or older results wrote them.
+  synonyms: RegExp;
+}
+
+export const SNOMED_SYSTEM = 'http://snomed.info/sct';
+export const ICD10_SYSTEM = 'http://hl7.org/fhir/sid/icd-10';
+
+// The conditions findings are coded against. SNOMED CT codes are from the International
+// Edition and ICD-10 codes from the WHO classification. Add an entry here, and its code
+// to FootConditionCode, to code another condition; anything else is 'other'.
+export const FOOT_CONDITIONS: FootCondition[] = [
+  {
+    code: 'hallux-valgus',
+    name: 'Hallux valgus',
+    snomed: { code: '202855006', display: 'Hallux valgus' },
+    icd10: { code: 'M20.1', display: 'Hallux valgus (acquired)' },
+    // A tailor's bunion (bunionette) is on the fifth toe and is not hallux valgus.
+    synonyms: /hallux (abducto)?valgus|(?<!tailor['’]?s )\bbunion(?!ette)|\bh\.?a?\.?v\.?\b/i,
+  },
+  {
+    code: 'pes-planus',
+    name: 'Pes planus',
+    snomed: { code: '53226007', display: 'Pes planus' },
+    icd10: { code: 'M21.4', display: 'Flat foot [pes planus] (acquired)' },
+    synonyms: /pes planus|flat ?f(oo|ee)t|fallen arch|collapsed arch|\blow arch/i,
+  },
+  {
+    code: 'pes-cavus',
+    name: 'Pes cavus',
+    snomed: { code: '36755004', display: 'Pes cavus' },
+    // Q66.7 is congenital pes cavus; a cavus foot seen in adult photos is coded as acquired.
+    icd10: { code: 'M21.6', display: 'Other acquired deformities of ankle and foot' },
+    synonyms: /pes cavus|cavus foot|\bhigh arch/i,
+  },
+  {
+    code: 'plantar-fasciitis',
+    name: 'Plantar fasciitis',
+    snomed: { code: '202882003', display: 'Plantar fasciitis' },
+    icd10: { code: 'M72.2', display: 'Plantar fascial fibromatosis' },
+    synonyms: /plantar fasci(itis|opathy|osis)/i,
+  },
+  {
+    code: 'achilles-tendinitis',
+    name: 'Achilles tendinitis',
+    snomed: { code: '11654001', display: 'Achilles tendinitis' },
+    icd10: { code: 'M76.6', display: 'Achilles tendinitis' },
+    synonyms: /achilles (tendin|tendon)/i,
+  },
+  {
+    code: 'onychomycosis',
+    name: 'Onychomycosis',
+    snomed: { code: '414941008', display: 'Onychomycosis due to dermatophyte' },
+    icd10: { code: 'B35.1', display: 'Tinea unguium' },
+    synonyms: /onychomycosis|tinea unguium|nail fung|fungal (toe)?nail/i,
+  },
+  {
+    code: 'hammer-toe',
+    name: 'Hammer toe',
+    snomed: { code: '28899001', display: 'Hammer toe' },
+    icd10: { code: 'M20.4', display: 'Other hammer toe(s) (acquired)' },
+    synonyms: /hammer ?toe/i,
+  },
+  {
+    code: 'claw-toe',
+    name: 'Claw toe',
+    snomed: { code: '202866004', display: 'Claw toe' },
+    icd10: { code: 'M20.5', display: 'Other deformities of toe(s) (acquired)' },
+    synonyms: /claw(ed)? ?toe/i,
+  },
+  {
+    code: 'mallet-toe',
+    name: 'Mallet toe',
+    snomed: { code: '202867008', display: 'Mallet toe' },
+    icd10: { code: 'M20.5', display: 'Other deformities of toe(s) (acquired)' },
+    synonyms: /mallet ?toe/i,
+  },
+  {
+    code: 'supination',
+    name: 'Supination',
+    snomed: { code: '299331007', display: 'Supinated foot' },
+    icd10: { code: 'M21.1', display: 'Varus deformity, not elsewhere classified' },
+    synonyms: /supinat|under-?pronat|(rearfoot|hindfoot|heel) varus/i,
+  },
+  {
+    code: 'overpronation',
+    name: 'Overpronation',
+    snomed: { code: '299330008', display: 'Pronated foot' },
+    icd10: { code: 'M21.0', display: 'Valgus deformity, not elsewhere classified' },
+    synonyms: /\b(over-?|excessive )?pronat|(rearfoot|hindfoot|heel) valgus|\bpes valgus/i,
+  },
+];
+
+export const CONDITION_CODES: FootConditionCode[] = [...FOOT_CONDITIONS.map(condition => condition.code), 'other'];
+
+export const findCondition = (code: FootConditionCode): FootCondition | undefined =>
+  FOOT_CONDITIONS.find(condition => condition.code === code);
+
+export const isConditionCode = (value: unknown): value is FootConditionCode =>
+  CONDITION_CODES.includes(value as FootConditionCode);
+
+// Maps a free-text issue name onto the taxonomy; names that match no condition are 'other'.
+export const conditionFromName = (name: string): FootConditionCode =>
+  FOOT_CONDITIONS.find(condition => condition.synonyms.test(name))?.code ?? 'other';
+
+// A condition's codes as one line, e.g. "SNOMED CT 202855006 · ICD-10 M20.1"; undefined for 'other'.
+export const describeConditionCodes = (code: FootConditionCode): string | undefined => {
+  const condition = findCondition(code);
+  return condition && `SNOMED CT ${condition.snomed.code} · ICD-10 ${condition.icd10.code}`;
+};
+
+/**
+ * Codes an issue, including one saved before issues carried a condition. A valid code is
+ * kept, otherwise the name is matched against the taxonomy. The model's wording stays as
+ * the issue text; the canonical term only appears in the coding.
+ */
+export const codeIssue = (issue: Omit<PotentialIssue, 'condition'> & { condition?: unknown }): PotentialIssue => {
+  const condition = isConditionCode(issue.condition) ? issue.condition : conditionFromName(issue.issue);
+  return { ...issue, condition };
+};
@@ -0,0 +1,118 @@
+import { ArchLandmarks, ArchMeasurement, FootMeasurements, FootSide, HalluxLandmarks, HalluxValgusGrade, HalluxValgusMeasurement, PotentialIssue, Point, RearfootLandmarks, RearfootMeasurement } from '../types';
+
+// Medial longitudinal arch angle bands, in degrees.
+const FLAT_ARCH_ANGLE = 150;
+const HIGH_ARCH_ANGLE = 130;
+
+// Lower bounds of each hallux valgus grade (Mann and Coughlin), in degrees.
+const HALLUX_VALGUS_THRESHOLDS: { grade: HalluxValgusGrade; halluxValgusAngle: number; intermetatarsalAngle: number }[] = [
+  { grade: 'Severe', halluxValgusAngle: 40, intermetatarsalAngle: 16 },
+  { grade: 'Moderate', halluxValgusAngle: 20, intermetatarsalAngle: 11 },
+  { grade: 'Mild', halluxValgusAngle: 15, intermetatarsalAngle: 9 },
+];
+
+// Rearfoot angles from 2° varus to 5° valgus are treated as neutral.
+const MAX_NEUTRAL_VALGUS = 5;
+const MAX_NEUTRAL_VARUS = 2;
+
+const subtract = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const dot = (a: Point, b: Point) => a.x * b.x + a.y * b.y;
+const cross = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+const length = (a: Point) => Math.hypot(a.x, a.y);
+
+const roundAngle = (angle: number) => Math.round(angle * 10) / 10;
+
+// Angle at `vertex` between the rays towards `a` and `b`, in degrees.
+export const angleAt = (vertex: Point, a: Point, b: Point): number => {
+  const u = subtract(a, vertex);
+  const v = subtract(b, vertex);
+  const denominator = length(u) * length(v);
+  if (denominator === 0) return 0;
+  const cosine = Math.min(1, Math.max(-1, dot(u, v) / denominator));
+  return (Math.acos(cosine) * 180) / Math.PI;
+};
+
+/**
+ * Measures the arch from landmarks placed on the medial side view. Navicular height is
+ * the perpendicular distance from the navicular tuberosity to the floor line, and is
+ * normalised by the heel-to-metatarsal-head distance along the floor so the ratio does
+ * not depend on image scale. The arch is classified from the arch angle.
+ */
+export const computeArchMeasurement = (landmarks: ArchLandmarks): ArchMeasurement => {
+  const { heel, metatarsalHead, navicular, floorStart, floorEnd } = landmarks;
+  const floor = subtract(floorEnd, floorStart);
+  const floorLength = length(floor) || 1;
+  const navicularHeight = Math.abs(cross(floor, subtract(navicular, floorStart))) / floorLength;
+  const truncatedFootLength = Math.abs(dot(floor, subtract(metatarsalHead, heel))) / floorLength;
+  const archAngle = angleAt(navicular, heel, metatarsalHead);
+
+  return {
+    landmarks,
+    navicularHeightRatio: truncatedFootLength > 0 ? Math.round((navicularHeight / truncatedFootLength) * 1000) / 1000 : 0,
+    archAngle: roundAngle(archAngle),
+    archType: archAngle > FLAT_ARCH_ANGLE ? 'Flat' : archAngle < HIGH_ARCH_ANGLE ? 'High' : 'Normal',
+    measuredAt: new Date().toISOString(),
+  };
+};
+
+// Angle between the directions of two line segments, in degrees.
+const angleBetween = (aStart: Point, aEnd: Point, bStart: Point, bEnd: Point): number =>
+  angleAt({ x: 0, y: 0 }, subtract(aEnd, aStart), subtract(bEnd, bStart));
+
+/**
+ * Measures hallux valgus from landmarks placed on the top view: the hallux valgus angle
+ * between the first metatarsal axis and the line to the hallux tip, and the
+ * intermetatarsal angle between the first and second metatarsal axes. The grade is the
+ * worse of the two angles against the published thresholds.
+ */
+export const computeHalluxValgusMeasurement = (landmarks: HalluxLandmarks): HalluxValgusMeasurement => {
+  const { firstMetatarsalBase, firstMetatarsalHead, halluxTip, secondMetatarsalBase, secondMetatarsalHead } = landmarks;
+  const halluxValgusAngle = angleBetween(firstMetatarsalBase, firstMetatarsalHead, firstMetatarsalHead, halluxTip);
+  const intermetatarsalAngle = angleBetween(firstMetatarsalBase, firstMetatarsalHead, secondMetatarsalBase, secondMetatarsalHead);
+  const threshold = HALLUX_VALGUS_THRESHOLDS.find(t =>
+    halluxValgusAngle >= t.halluxValgusAngle || intermetatarsalAngle >= t.intermetatarsalAngle
+  );
+
+  return {
+    landmarks,
+    halluxValgusAngle: roundAngle(halluxValgusAngle),
+    intermetatarsalAngle: roundAngle(intermetatarsalAngle),
+    grade: threshold?.grade ?? 'Normal',
+    measuredAt: new Date().toISOString(),
+  };
+};
+
+// Whether a model-reported issue is the finding the hallux valgus measurement grades.
+export const isHalluxValgusIssue = (issue: PotentialIssue): boolean => issue.condition === 'hallux-valgus';
+
+/**
+ * Measures rearfoot alignment from the lower-leg and calcaneal bisections marked on the
+ * back view. The photo is taken from behind, so the medial side is on the image's right
+ * for the left foot and on its left for the right foot; the sign is flipped accordingly
+ * so that a positive angle always means the heel is everted (valgus).
+ */
+export const computeRearfootMeasurement = (landmarks: RearfootLandmarks, foot: FootSide): RearfootMeasurement => {
+  const leg = subtract(landmarks.legBottom, landmarks.legTop);
+  const heel = subtract(landmarks.heelBottom, landmarks.heelTop);
+  const signedAngle = (Math.atan2(cross(leg, heel), dot(leg, heel)) * 180) / Math.PI;
+  const rearfootAngle = roundAngle(foot === 'left' ? signedAngle : -signedAngle);
+
+  return {
+    landmarks,
+    rearfootAngle,
+    alignment: rearfootAngle > MAX_NEUTRAL_VALGUS ? 'Pronated' : rearfootAngle < -MAX_NEUTRAL_VARUS ? 'Supinated' : 'Neutral',
+    measuredAt: new Date().toISOString(),
+  };
+};
+
+// Describes a rearfoot angle as degrees of valgus or varus.
+export const formatRearfootAngle = (angle: number): string =>
+  angle === 0 ? '0°' : `${Math.abs(angle)}° ${angle > 0 ? 'valgus' : 'varus'}`;
+
+// The landmark measurements stored on a result, without the model's findings.
+export const pickMeasurements = ({ archMeasurement, halluxMeasurement, rearfootMeasurement, footDimensions, manualFootSize, footprintIndices }: FootMeasurements): FootMeasurements =>
+  ({ archMeasurement, halluxMeasurement, rearfootMeasurement, footDimensions, manualFootSize, footprintIndices });
+
+// Whether the user placed any landmarks or entered a size; footprint indices are computed automatically.
+export const hasMeasurements = ({ footprintIndices, ...measurements }: FootMeasurements): boolean =>
+  Object.values(pickMeasurements(measurements)).some(measurement => measurement !== undefined);
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { computeFootprintIndices, selectPrint } from './footprintAnalysis';
+
+const WIDTH = 60;
+const HEIGHT = 200;
+
+// A vertical print drawn as rectangles of [top, bottom, width], centred across the frame.
+const drawPrint = (parts: [number, number, number][], toes: [number, number][] = []): Uint8Array => {
+  const mask = new Uint8Array(WIDTH * HEIGHT);
+  const fill = (top: number, bottom: number, left: number, right: number) => {
+    for (let y = top; y <= bottom; y++) {
+      for (let x = left; x <= right; x++) mask[y * WIDTH + x] = 1;
+    }
+  };
+  parts.forEach(([top, bottom, width]) => fill(top, bottom, WIDTH / 2 - width / 2, WIDTH / 2 + width / 2 - 1));
+  toes.forEach(([left, top]) => fill(top, top + 5, left, left + 4));
+  return mask;
+};
+
+const count = (mask: Uint8Array) => mask.reduce((sum, value) => sum + value, 0);
+
+describe('selectPrint', () => {
+  it('drops toes but keeps a heel separated from the forefoot', () => {
+    const heelAndForefoot = drawPrint([[10, 50, 24], [110, 170, 40]]);
+    const withToes = drawPrint([[10, 50, 24], [110, 170, 40]], [[12, 178], [20, 178], [28, 178], [36, 178]]);
+    assert.deepEqual(selectPrint(withToes, WIDTH), heelAndForefoot);
+  });
+
+  it('keeps a connected print whole', () => {
+    const print = drawPrint([[10, 50, 24], [51, 109, 12], [110, 170, 40]]);
+    assert.equal(count(selectPrint(print, WIDTH)), count(print));
+  });
+});
+
+describe('computeFootprintIndices', () => {
+  it('measures a print without midfoot contact as a high arch', () => {
+    const print = selectPrint(drawPrint([[10, 50, 24], [110, 170, 40]]), WIDTH);
+    const indices = computeFootprintIndices(print, WIDTH);
+    assert.equal(indices.staheliIndex, 0);
+    assert.equal(indices.chippauxSmirakIndex, 0);
+    assert.equal(indices.archType, 'High');
+  });
+
+  it('compares the narrowest midfoot with the widest heel and forefoot', () => {
+    const indices = computeFootprintIndices(drawPrint([[10, 50, 24], [51, 109, 12], [110, 170, 40]]), WIDTH);
+    assert.equal(indices.staheliIndex, 0.5);
+    assert.equal(indices.chippauxSmirakIndex, 30);
+  });
+});
@@ -0,0 +1,171 @@
+import { FootprintIndices } from '../types';
+import { toGrayscale } from './imageQuality';
+
+// The print is segmented on a copy scaled so its longer edge is this many pixels.
+const ANALYSIS_EDGE = 400;
+// Below this share of the frame the segmented print is too small to measure.
+const MIN_PRINT_FRACTION = 0.03;
+
+// Cavanagh and Rodgers (1987) arch index bands.
+const HIGH_ARCH_INDEX = 0.21;
+const FLAT_ARCH_INDEX = 0.26;
+
+// Otsu's threshold: the grey level that best separates the histogram into two classes.
+const otsuThreshold = (gray: Float32Array): number => {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach(value => histogram[Math.min(255, Math.max(0, Math.round(value)))]++);
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+
+  let best = 0;
+  let bestVariance = -1;
+  let weightBelow = 0;
+  let sumBelow = 0;
+  for (let level = 0; level < 256; level++) {
+    weightBelow += histogram[level];
+    if (weightBelow === 0) continue;
+    const weightAbove = total - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += level * histogram[level];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sumAll - sumBelow) / weightAbove;
+    const variance = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = level;
+    }
+  }
+  return best;
+};
+
+// A region counts as part of the print, rather than a toe or a speck, when it has at
+// least this share of the largest region's area.
+const MIN_PART_SHARE = 0.2;
+
+/**
+ * Keeps the print's own 4-connected regions of the mask and drops toes and specks. A
+ * high-arched foot may leave no midfoot contact, splitting the print into a heel and a
+ * forefoot region; both are kept so the empty midfoot is measured as such.
+ */
+export const selectPrint = (mask: Uint8Array, width: number): Uint8Array => {
+  const labels = new Int32Array(mask.length);
+  const sizes: number[] = [0];
+  const stack: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+    const label = sizes.length;
+    let size = 0;
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      size++;
+      const x = i % width;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+      for (const n of neighbours) {
+        if (n >= 0 && n < mask.length && mask[n] && !labels[n]) {
+          labels[n] = label;
+          stack.push(n);
+        }
+      }
+    }
+    sizes.push(size);
+  }
+  const largest = Math.max(...sizes);
+  const kept = sizes.map(size => largest > 0 && size >= largest * MIN_PART_SHARE);
+  return Uint8Array.from(labels, label => (label > 0 && kept[label] ? 1 : 0));
+};
+
+/**
+ * Computes arch indices from the mask of a single footprint (toes excluded). The print
+ * is aligned with its principal axis and sliced across its length; the heel is taken to
+ * be the narrower end. A midfoot without contact gives Staheli and Chippaux–Smirak
+ * indices of 0. The length is divided into thirds (heel, midfoot, forefoot) for
+ * the Cavanagh arch index, and the narrowest midfoot slice is compared with the widest
+ * heel slice (Staheli) and the widest forefoot slice (Chippaux–Smirak).
+ */
+export const computeFootprintIndices = (mask: Uint8Array, width: number): FootprintIndices => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  mask.forEach((value, i) => {
+    if (value) {
+      xs.push(i % width);
+      ys.push(Math.floor(i / width));
+    }
+  });
+  const count = xs.length;
+  if (count === 0) throw new Error("No footprint was found in the photo.");
+
+  // Principal axis from the covariance of the print's pixel coordinates.
+  const meanX = xs.reduce((a, b) => a + b, 0) / count;
+  const meanY = ys.reduce((a, b) => a + b, 0) / count;
+  let sxx = 0, syy = 0, sxy = 0;
+  for (let i = 0; i < count; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    sxx += dx * dx; syy += dy * dy; sxy += dx * dy;
+  }
+  const angle = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  const [axisX, axisY] = [Math.cos(angle), Math.sin(angle)];
+
+  const along = xs.map((x, i) => (x - meanX) * axisX + (ys[i] - meanY) * axisY);
+  const minAlong = along.reduce((a, b) => Math.min(a, b));
+  const length = Math.ceil(along.reduce((a, b) => Math.max(a, b)) - minAlong) + 1;
+  // Pixel count of each one-pixel slice across the print.
+  const slices = new Array<number>(length).fill(0);
+  along.forEach(value => slices[Math.floor(value - minAlong)]++);
+
+  const third = Math.max(1, Math.floor(length / 3));
+  const firstThird = slices.slice(0, third);
+  const lastThird = slices.slice(length - third);
+  const heelFirst = Math.max(...firstThird) <= Math.max(...lastThird);
+  const [heel, forefoot] = heelFirst ? [firstThird, lastThird] : [lastThird, firstThird];
+  const midfoot = slices.slice(third, length - third);
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+  const minMidfootWidth = midfoot.length > 0 ? Math.min(...midfoot) : 0;
+  const maxHeelWidth = Math.max(...heel);
+  const maxForefootWidth = Math.max(...forefoot);
+  const cavanaghArchIndex = sum(midfoot) / sum(slices);
+
+  return {
+    staheliIndex: Math.round((minMidfootWidth / maxHeelWidth) * 100) / 100,
+    chippauxSmirakIndex: Math.round((minMidfootWidth / maxForefootWidth) * 1000) / 10,
+    cavanaghArchIndex: Math.round(cavanaghArchIndex * 1000) / 1000,
+    archType: cavanaghArchIndex >= FLAT_ARCH_INDEX ? 'Flat' : cavanaghArchIndex <= HIGH_ARCH_INDEX ? 'High' : 'Normal',
+  };
+};
+
+/**
+ * Segments a photo of a wet or ink footprint on paper and computes its arch indices,
+ * entirely in the browser. The print is whichever side of an Otsu threshold covers less
+ * of the frame, so both dark prints on light paper and the reverse work.
+ */
+export const analyzeFootprint = async (file: File): Promise<FootprintIndices> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const scale = Math.min(1, ANALYSIS_EDGE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error("Canvas is not available for footprint analysis.");
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const gray = toGrayscale(context.getImageData(0, 0, width, height).data);
+    const threshold = otsuThreshold(gray);
+    let mask = Uint8Array.from(gray, value => (value <= threshold ? 1 : 0));
+    const darkCount = mask.reduce((sum, value) => sum + value, 0);
+    if (darkCount > mask.length / 2) mask = mask.map(value => 1 - value);
+
+    const print = selectPrint(mask, width);
+    if (print.reduce((sum, value) => sum + value, 0) < mask.length * MIN_PRINT_FRACTION) {
+      throw new Error("The footprint is too faint or too small to measure; use a clearer print that fills more of the photo.");
+    }
+    return computeFootprintIndices(print, width);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,6 @@
+// Settings of the Gemini calls that the app needs too. Kept apart from the prompts and
+// schemas in server/geminiPrompts.ts so the browser bundle does not pull in @google/genai.
+
+export const DEFAULT_MODEL = 'gemini-2.5-flash';
+// Bump whenever the analysis prompt or response schema changes.
+export const PROMPT_VERSION = 'v8';
@@ -1,133 +1,105 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult } from '../types';
+import { AnalysisResult, AnalysisStreamEvent, AnalyzeRequest, ChatMessage, ChatRequest, FollowUpContext, FootImages, FootSide, FootView, ViewClassification } from '../types';
+import { AnalyzeOptions, FootAnalysisProvider } from './analysisProvider';
+import { AnalysisValidationError, normalizeAnalysisResult, normalizeViewClassification, parsePartialAnalysis } from './analysisValidation';
+import { DEFAULT_MODEL, PROMPT_VERSION } from './geminiConfig';
+import { readAsDataUrl } from './imageUtils';
+import { NetworkError, postJson } from './serverApi';
 
-// FIX: Removed `as string` to align with coding guidelines.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The server holds the API key and makes the model calls; see server/gemini.ts.
+const DEFAULT_BASE_URL = '/api';
+const SERVICE_NAME = 'analysis service';
 
-export type FootImages = Partial<{
-  top: File;
-  side: File;
-  back: File;
-}>
-
-// Utility function to convert file to base64
-const fileToGenerativePart = async (file: File) => {
-  const base64EncodedDataPromise = new Promise<string>((resolve) => {
-    const reader = new FileReader();
-    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-    reader.readAsDataURL(file);
-  });
-  return {
-    inlineData: { data: await base64EncodedDataPromise, mimeType: file.type },
-  };
-};
-
-export const analyzeFootImage = async (imageFiles: FootImages): Promise<AnalysisResult> => {
-  try {
-    const providedViews = Object.keys(imageFiles).filter(key => imageFiles[key as keyof FootImages]);
-    
-    if (providedViews.length === 0) {
-        throw new Error("No images were provided for analysis.");
+// Yields the events of a newline-delimited JSON response as they arrive.
+async function* readEvents(response: Response): AsyncGenerator<AnalysisStreamEvent> {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as AnalysisStreamEvent;
     }
+  }
+}
 
-    const initialPrompt = `You are a world-class AI podiatry assistant called SmartStep. Your task is to perform a detailed analysis of a human foot from a set of images. These images were taken while the user was standing to capture the foot's shape under natural weight-bearing conditions.
-
-You have been provided with the following views: ${providedViews.join(', ')}. Your analysis will be limited by any missing views. Perform the most thorough analysis possible with the available images and clearly state any limitations in your summary. If a specific view required for a task (e.g., side view for arch type) is missing, state the result as 'Unknown' and explain why.
-
-- Use the **Side View** (if available) to primarily determine the foot arch type.
-- Use the **Top View** (if available) to identify issues like bunions, hammertoes, or toe alignment.
-- Use the **Back View** (if available) to assess heel alignment (e.g., pronation or supination).
-
-Provide a comprehensive analysis covering the following points:
-1.  **Foot Arch Type**: Determine if the arch is normal, flat (pes planus), or high (pes cavus).
-2.  **Potential Deformities/Issues**: Identify any visible signs of common foot conditions. For each issue, provide:
-    a. The name of the issue.
-    b. An estimated severity level (Mild, Moderate, Severe, or Unknown).
-    c. A brief description of the finding and which view it was most apparent in.
-3.  **Overall Summary**: A concise summary of your findings, written in clear, easy-to-understand language.
-4.  **Clinical Recommendations**: A list of 2-3 potential clinical recommendations for a healthcare professional.
-5.  **Footwear Suggestions**: A list of 2-3 specific types of footwear or shoe features that would be beneficial.
-6.  **Confidence Score**: An overall confidence score (0-100) for this analysis. Base this score on the quality of the images AND the number of views provided (more views should generally lead to higher confidence).
+const analyzeWithServer = async (
+  baseUrl: string,
+  imageFiles: FootImages,
+  foot: FootSide,
+  { measurements, onProgress, language }: AnalyzeOptions = {},
+): Promise<AnalysisResult> => {
+  const images: AnalyzeRequest['images'] = {};
+  for (const view of Object.keys(imageFiles) as FootView[]) {
+    const file = imageFiles[view];
+    if (file) images[view] = await readAsDataUrl(file);
+  }
+  if (Object.keys(images).length === 0) {
+    throw new Error("No images were provided for analysis.");
+  }
 
-IMPORTANT: Your response must be in a clean JSON format. Do not include any markdown formatting or explanations outside of the JSON structure.`;
+  onProgress?.({ stage: 'sending', partial: {} });
+  const request: AnalyzeRequest = { foot, images, measurements, language };
+  const response = await postJson(`${baseUrl}/analyze`, request, SERVICE_NAME);
 
-    const imageParts = [];
-    if (imageFiles.top) {
-        imageParts.push({ text: "Top View of the foot:" }, await fileToGenerativePart(imageFiles.top));
-    }
-    if (imageFiles.side) {
-        imageParts.push({ text: "Side View (Arch) of the foot:" }, await fileToGenerativePart(imageFiles.side));
-    }
-    if (imageFiles.back) {
-        imageParts.push({ text: "Back View (Heel) of the foot:" }, await fileToGenerativePart(imageFiles.back));
+  let text = '';
+  let outcome: Extract<AnalysisStreamEvent, { type: 'result' | 'error' }> | undefined;
+  try {
+    for await (const event of readEvents(response)) {
+      if (event.type === 'text') {
+        text += event.text;
+        onProgress?.(parsePartialAnalysis(text, foot));
+      } else if (event.type === 'validating') {
+        onProgress?.({ stage: 'validating', partial: parsePartialAnalysis(text, foot).partial });
+      } else {
+        outcome = event;
+        break;
+      }
     }
+  } catch (error) {
+    console.error("The analysis stream was interrupted:", error);
+  }
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      // FIX: Changed `contents` to be an object for a single-turn request, as per guidelines.
-      contents: {
-        parts: [
-          { text: initialPrompt },
-          ...imageParts,
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            archType: {
-              type: Type.STRING,
-              description: "The estimated type of the foot arch (Normal, Flat, High, Unknown).",
-              enum: ["Normal", "Flat", "High", "Unknown"],
-            },
-            potentialIssues: {
-              type: Type.ARRAY,
-              description: "A list of potential issues or deformities observed.",
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  issue: { type: Type.STRING, description: "The name of the potential issue." },
-                  severity: {
-                    type: Type.STRING,
-                    description: "The estimated severity of the issue.",
-                    enum: ["Mild", "Moderate", "Severe", "Unknown"],
-                  },
-                  description: { type: Type.STRING, description: "A brief description of the finding and which view it was most apparent in (e.g., Top View, Side View, Back View)." },
-                },
-                required: ["issue", "severity", "description"],
-              },
-            },
-            summary: {
-              type: Type.STRING,
-              description: "A detailed summary of the analysis.",
-            },
-            clinicalRecommendations: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING },
-              description: "A list of potential clinical recommendations for a healthcare professional.",
-            },
-            footwearSuggestions: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING },
-              description: "A list of suggested footwear types or features.",
-            },
-            confidenceScore: {
-              type: Type.NUMBER,
-              description: "An overall confidence score (0-100) for the analysis.",
-            },
-          },
-          required: ["archType", "potentialIssues", "summary", "clinicalRecommendations", "footwearSuggestions", "confidenceScore"],
-        },
-      },
-    });
+  if (outcome?.type === 'result') {
+    // Validated on the server already; checked again as it crossed the network.
+    return normalizeAnalysisResult(outcome.result, foot).result;
+  }
+  if (outcome?.type === 'error') {
+    throw outcome.problems
+      ? new AnalysisValidationError(outcome.error, outcome.problems, outcome.rawText)
+      : new Error(outcome.error);
+  }
+  throw new NetworkError("The connection to the analysis service was lost before the analysis was complete. Please try again.");
+};
 
-    const jsonString = response.text.trim();
-    const result: AnalysisResult = JSON.parse(jsonString);
-    return result;
+const classifyWithServer = async (baseUrl: string, file: File): Promise<ViewClassification> => {
+  const response = await postJson(`${baseUrl}/classify-view`, { image: await readAsDataUrl(file) }, SERVICE_NAME);
+  return normalizeViewClassification(await response.json());
+};
 
-  } catch (error) {
-    console.error("Error analyzing image with Gemini:", error);
-    throw new Error("Failed to analyze the image. The AI model may be unavailable or the image could not be processed.");
+const chatWithServer = async (baseUrl: string, context: FollowUpContext, messages: ChatMessage[]): Promise<ChatMessage> => {
+  const request: ChatRequest = { context, messages };
+  const response = await postJson(`${baseUrl}/chat`, request, 'assistant');
+  const reply = await response.json().catch(() => null);
+  if (typeof reply?.text !== 'string') {
+    throw new Error("The assistant could not answer right now. Please try again.");
   }
-};
\ No newline at end of file
+  return { role: 'assistant', text: reply.text, referToClinician: reply.referToClinician === true };
+};
+
+export const createGeminiProvider = (options: { baseUrl?: string } = {}): FootAnalysisProvider => {
+  const baseUrl = options.baseUrl ?? DEFAULT_BASE_URL;
+  return {
+    id: 'gemini',
+    label: `Gemini (${DEFAULT_MODEL})`,
+    promptVersion: PROMPT_VERSION,
+    analyze: (imageFiles, foot, options) => analyzeWithServer(baseUrl, imageFiles, foot, options),
+    classifyView: (file) => classifyWithServer(baseUrl, file),
+    chat: (context, messages) => chatWithServer(baseUrl, context, messages),
+  };
+};
+
+export const geminiProvider = createGeminiProvider();
@@ -0,0 +1,36 @@
+import { AnalysisRecord, BilateralAnalysis, FootReview } from '../types';
+import { ANALYSES_STORE, runRequest } from './database';
+import { codeIssue } from './footConditions';
+
+const codeResults = (results: BilateralAnalysis): BilateralAnalysis =>
+  Object.fromEntries(Object.entries(results).map(([foot, result]) => [foot, { ...result!, potentialIssues: result!.potentialIssues.map(codeIssue) }]));
+
+const codeFootReview = (review: FootReview): FootReview => ({
+  ...review,
+  potentialIssues: review.potentialIssues.map(finding => ({ ...finding, value: codeIssue(finding.value) })),
+  addedIssues: review.addedIssues.map(codeIssue),
+});
+
+// Records saved before issues were coded get their condition codes from the issue names.
+const withIssueCodes = (record: AnalysisRecord): AnalysisRecord => ({
+  ...record,
+  results: codeResults(record.results),
+  review: record.review && {
+    ...record.review,
+    feet: Object.fromEntries(Object.entries(record.review.feet).map(([foot, review]) => [foot, codeFootReview(review!)])),
+  },
+});
+
+export const saveAnalysis = async (record: AnalysisRecord): Promise<void> => {
+  await runRequest(ANALYSES_STORE, 'readwrite', store => store.put(record));
+};
+
+// Returns every stored analysis, newest first.
+export const listAnalyses = async (): Promise<AnalysisRecord[]> => {
+  const records = await runRequest<AnalysisRecord[]>(ANALYSES_STORE, 'readonly', store => store.index('createdAt').getAll());
+  return records.reverse().map(withIssueCodes);
+};
+
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  await runRequest(ANALYSES_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,48 @@
+export type Locale = 'en' | 'es' | 'fr';
+
+// Each supported locale, named in its own language for the switcher.
+export const LOCALES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+};
+
+const STORAGE_KEY = 'smartstep.locale';
+
+const isLocale = (value: string | null): value is Locale => value !== null && value in LOCALES;
+
+// The saved choice, else the first browser language we support, else English.
+export const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage can be unavailable, e.g. in private browsing; fall through to the browser.
+  }
+  const preferred = navigator.languages.map(language => language.split('-')[0].toLowerCase());
+  return preferred.find(isLocale) ?? 'en';
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (e) {
+    console.warn("Could not save the language choice:", e);
+  }
+};
+
+// Replaces each `{name}` placeholder in a message with the matching value.
+export const interpolate = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in values ? String(values[name]) : placeholder));
+
+// A message with a form per CLDR plural category; `other` is always required.
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export const plural = (locale: Locale, forms: PluralForms, count: number, values: Record<string, string | number> = {}): string => {
+  const category = new Intl.PluralRules(locale).select(count);
+  return interpolate(forms[category] ?? forms.other, { count, ...values });
+};
+
+// The English name of a language code, as used in prompts; e.g. "es" gives "Spanish".
+export const languageName = (code: string): string =>
+  new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code;
@@ -0,0 +1,187 @@
+import { interpolate } from './i18n';
+
+export type QualityCheckName = 'resolution' | 'sharpness' | 'exposure' | 'coverage';
+
+// What a failing check reports; the text comes from `quality.issues` in the locale files.
+export type QualityIssue = 'tooSmall' | 'blurry' | 'tooDark' | 'overexposed' | 'tooLittleFoot';
+
+export interface QualityCheck {
+  passed: boolean;
+  value: number;
+  issue: QualityIssue;
+}
+
+export interface ImageQualityReport {
+  // 0-100, the share of checks passed weighted by how far failing checks miss.
+  score: number;
+  passed: boolean;
+  // Size of the original image, in pixels.
+  width: number;
+  height: number;
+  checks: Record<QualityCheckName, QualityCheck>;
+  issues: QualityIssue[];
+}
+
+// Thresholds. Sharpness and coverage are measured on a copy scaled to ANALYSIS_EDGE.
+const ANALYSIS_EDGE = 512;
+const MIN_SHORT_EDGE = 480;
+const MIN_LAPLACIAN_VARIANCE = 60;
+const MIN_MEAN_LUMINANCE = 50;
+const MAX_MEAN_LUMINANCE = 205;
+const MAX_CLIPPED_FRACTION = 0.25;
+const MIN_FOOT_COVERAGE = 0.15;
+// Colour distance from the background above which a pixel counts as foreground.
+const FOREGROUND_DISTANCE = 60;
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+export const toGrayscale = (data: Uint8ClampedArray): Float32Array => {
+  const gray = new Float32Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  }
+  return gray;
+};
+
+// Variance of the 4-neighbour Laplacian; low values mean few sharp edges.
+export const laplacianVariance = (gray: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+const measureExposure = (gray: Float32Array) => {
+  let total = 0;
+  let dark = 0;
+  let bright = 0;
+  gray.forEach(value => {
+    total += value;
+    if (value < 10) dark++;
+    if (value > 245) bright++;
+  });
+  return { mean: total / gray.length, darkFraction: dark / gray.length, brightFraction: bright / gray.length };
+};
+
+/**
+ * Estimates how much of the frame the foot occupies, assuming the border of the photo
+ * is mostly background: pixels whose colour is far from the average border colour
+ * are counted as foreground.
+ */
+export const estimateCoverage = (data: Uint8ClampedArray, width: number, height: number): number => {
+  let r = 0, g = 0, b = 0, borderCount = 0;
+  const addBorder = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    r += data[i]; g += data[i + 1]; b += data[i + 2];
+    borderCount++;
+  };
+  for (let x = 0; x < width; x++) { addBorder(x, 0); addBorder(x, height - 1); }
+  for (let y = 1; y < height - 1; y++) { addBorder(0, y); addBorder(width - 1, y); }
+  r /= borderCount; g /= borderCount; b /= borderCount;
+
+  let foreground = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const distance = Math.hypot(data[i] - r, data[i + 1] - g, data[i + 2] - b);
+    if (distance > FOREGROUND_DISTANCE) foreground++;
+  }
+  return foreground / (width * height);
+};
+
+const analyzePixels = (bitmap: ImageBitmap): ImageQualityReport => {
+  const scale = Math.min(1, ANALYSIS_EDGE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error("Canvas is not available for the quality check.");
+  context.drawImage(bitmap, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  const gray = toGrayscale(data);
+
+  const shortEdge = Math.min(bitmap.width, bitmap.height);
+  const sharpness = laplacianVariance(gray, width, height);
+  const exposure = measureExposure(gray);
+  const coverage = estimateCoverage(data, width, height);
+
+  const tooDark = exposure.mean < MIN_MEAN_LUMINANCE || exposure.darkFraction > MAX_CLIPPED_FRACTION;
+  const tooBright = exposure.mean > MAX_MEAN_LUMINANCE || exposure.brightFraction > MAX_CLIPPED_FRACTION;
+
+  const checks: Record<QualityCheckName, QualityCheck> = {
+    resolution: {
+      passed: shortEdge >= MIN_SHORT_EDGE,
+      value: shortEdge,
+      issue: 'tooSmall',
+    },
+    sharpness: {
+      passed: sharpness >= MIN_LAPLACIAN_VARIANCE,
+      value: Math.round(sharpness),
+      issue: 'blurry',
+    },
+    exposure: {
+      passed: !tooDark && !tooBright,
+      value: Math.round(exposure.mean),
+      issue: tooDark ? 'tooDark' : 'overexposed',
+    },
+    coverage: {
+      passed: coverage >= MIN_FOOT_COVERAGE,
+      value: Math.round(coverage * 100),
+      issue: 'tooLittleFoot',
+    },
+  };
+
+  const ratios = [
+    Math.min(1, shortEdge / MIN_SHORT_EDGE),
+    Math.min(1, sharpness / MIN_LAPLACIAN_VARIANCE),
+    checks.exposure.passed ? 1 : 0.3,
+    Math.min(1, coverage / MIN_FOOT_COVERAGE),
+  ];
+  const issues = (Object.values(checks) as QualityCheck[]).filter(check => !check.passed).map(check => check.issue);
+
+  return {
+    score: Math.round((ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length) * 100),
+    passed: issues.length === 0,
+    width: bitmap.width,
+    height: bitmap.height,
+    checks,
+    issues,
+  };
+};
+
+// The failing checks as advice, in the user's language.
+export const describeQualityIssues = (report: ImageQualityReport, messages: Record<QualityIssue, string>): string[] =>
+  report.issues.map(issue => interpolate(messages[issue], { width: report.width, height: report.height, minimum: MIN_SHORT_EDGE }));
+
+// Reports are cached per File so the uploader, scanner and App can all ask cheaply.
+const reportCache = new WeakMap<File, Promise<ImageQualityReport>>();
+
+/**
+ * Scores a captured view for resolution, blur (Laplacian variance), exposure and how
+ * much of the frame the foot occupies, entirely in the browser.
+ */
+export const assessImageQuality = (file: File): Promise<ImageQualityReport> => {
+  let report = reportCache.get(file);
+  if (!report) {
+    report = createImageBitmap(file, { imageOrientation: 'from-image' }).then(bitmap => {
+      try {
+        return analyzePixels(bitmap);
+      } finally {
+        bitmap.close();
+      }
+    });
+    reportCache.set(file, report);
+  }
+  return report;
+};
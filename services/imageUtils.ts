@@ -0,0 +1,137 @@
+import { BilateralCaptures, CaptureThumbnails, FootSide, FootView } from '../types';
+
+// Default longest edge, in pixels, of thumbnails kept in the analysis history. Large
+// enough for the before/after progress slider.
+const THUMBNAIL_MAX_EDGE = 512;
+
+/**
+ * Renders a downscaled JPEG copy of an image file and returns it as a data URL,
+ * small enough to be stored alongside an analysis.
+ */
+export const createThumbnail = async (file: File, maxEdge: number = THUMBNAIL_MAX_EDGE): Promise<string> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+export const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Converts every captured view of both feet to a data URL.
+const mapCaptures = async (captures: BilateralCaptures, toDataUrl: (file: File) => Promise<string>): Promise<CaptureThumbnails> => {
+  const dataUrls: CaptureThumbnails = {};
+  for (const foot of Object.keys(captures) as FootSide[]) {
+    for (const view of Object.keys(captures[foot]) as FootView[]) {
+      const file = captures[foot][view];
+      if (file) {
+        dataUrls[foot] = { ...dataUrls[foot], [view]: await toDataUrl(file) };
+      }
+    }
+  }
+  return dataUrls;
+};
+
+// Thumbnails every captured view of both feet.
+export const createCaptureThumbnails = (captures: BilateralCaptures): Promise<CaptureThumbnails> =>
+  mapCaptures(captures, file => createThumbnail(file));
+
+// Every captured view of both feet at full size, e.g. for a specialist to review.
+export const readCaptureDataUrls = (captures: BilateralCaptures): Promise<CaptureThumbnails> =>
+  mapCaptures(captures, readAsDataUrl);
+
+export interface PreprocessOptions {
+  // Longest edge, in pixels, after downscaling. Smaller images are never upscaled.
+  maxEdge: number;
+  mimeType: 'image/jpeg' | 'image/webp';
+  quality: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxEdge: 1600,
+  mimeType: 'image/jpeg',
+  quality: 0.85,
+};
+
+export interface PreprocessedImage {
+  file: File;
+  originalBytes: number;
+  processedBytes: number;
+  width: number;
+  height: number;
+}
+
+const EXTENSIONS: Record<PreprocessOptions['mimeType'], string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+// Downscales an image to the configured maximum edge and encodes it as a file.
+const encodeScaled = async (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  baseName: string,
+  options: PreprocessOptions,
+): Promise<Pick<PreprocessedImage, 'file' | 'width' | 'height'>> => {
+  const scale = Math.min(1, options.maxEdge / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      result => result ? resolve(result) : reject(new Error("Could not encode the image.")),
+      options.mimeType,
+      options.quality,
+    );
+  });
+
+  return {
+    file: new File([blob], `${baseName}.${EXTENSIONS[options.mimeType]}`, { type: blob.type, lastModified: Date.now() }),
+    width: canvas.width,
+    height: canvas.height,
+  };
+};
+
+/**
+ * Prepares a photo for analysis: applies its EXIF orientation, downscales it to the
+ * configured maximum edge and re-encodes it. Re-encoding through a canvas drops all
+ * metadata (EXIF, GPS, camera details), so nothing but the pixels leaves the device.
+ */
+export const preprocessImage = async (
+  file: File,
+  options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS,
+): Promise<PreprocessedImage> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+    const encoded = await encodeScaled(bitmap, bitmap.width, bitmap.height, baseName, options);
+    return { ...encoded, originalBytes: file.size, processedBytes: encoded.file.size };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Prepares a camera frame drawn on a canvas the same way, encoding it only once.
+export const preprocessFrame = async (
+  canvas: HTMLCanvasElement,
+  baseName: string,
+  options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS,
+): Promise<File> => (await encodeScaled(canvas, canvas.width, canvas.height, baseName, options)).file;
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,16 @@
+import { OutboxEntry } from '../types';
+import { OUTBOX_STORE, runRequest } from './database';
+
+// Captures waiting for a connection. IndexedDB stores the photo Files as they are.
+
+export const saveOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  await runRequest(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+};
+
+// Returns every queued analysis, oldest first, which is the order they are sent in.
+export const listOutbox = async (): Promise<OutboxEntry[]> =>
+  runRequest<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.index('createdAt').getAll());
+
+export const deleteOutboxEntry = async (id: string): Promise<void> => {
+  await runRequest(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+};
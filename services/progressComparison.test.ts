@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AnalysisResult, PotentialIssue } from '../types';
+import { compareAnalyses } from './progressComparison';
+
+const issue = (condition: PotentialIssue['condition'], issueName: string, severity: PotentialIssue['severity']): PotentialIssue =>
+  ({ condition, issue: issueName, severity, description: '', foot: 'left' });
+
+const result = (potentialIssues: PotentialIssue[]): AnalysisResult => ({
+  foot: 'left',
+  archType: 'Normal',
+  potentialIssues,
+  summary: '',
+  clinicalRecommendations: [],
+  footwearSuggestions: [],
+  confidenceScore: 80,
+});
+
+const statuses = (before: PotentialIssue[], after: PotentialIssue[]) =>
+  compareAnalyses({ left: result(before) }, { left: result(after) })[0].issues.map(progress => [progress.issue, progress.status, progress.trend]);
+
+describe('compareAnalyses', () => {
+  it('matches findings by condition and reports severity changes', () => {
+    assert.deepEqual(statuses(
+      [issue('hallux-valgus', 'Hallux valgus', 'Mild'), issue('pes-planus', 'Pes planus', 'Moderate')],
+      [issue('hallux-valgus', 'Hallux valgus', 'Moderate'), issue('plantar-fasciitis', 'Plantar fasciitis', 'Mild')],
+    ), [
+      ['Hallux valgus', 'changed', 'worsened'],
+      ['Pes planus', 'resolved', 'improved'],
+      ['Plantar fasciitis', 'added', 'worsened'],
+    ]);
+  });
+
+  it('keeps repeated findings of the same condition apart', () => {
+    assert.deepEqual(statuses(
+      [issue('hammer-toe', 'Hammer toe', 'Mild'), issue('hammer-toe', 'Hammer toe', 'Moderate')],
+      [issue('hammer-toe', 'Hammer toe', 'Mild'), issue('hammer-toe', 'Hammer toe', 'Moderate')],
+    ), [
+      ['Hammer toe', 'unchanged', 'unchanged'],
+      ['Hammer toe', 'unchanged', 'unchanged'],
+    ]);
+    assert.deepEqual(statuses(
+      [issue('hammer-toe', 'Hammer toe', 'Mild')],
+      [issue('hammer-toe', 'Hammer toe', 'Mild'), issue('hammer-toe', 'Hammer toe', 'Mild')],
+    ), [
+      ['Hammer toe', 'unchanged', 'unchanged'],
+      ['Hammer toe', 'added', 'worsened'],
+    ]);
+  });
+
+  it('matches other findings by name', () => {
+    assert.deepEqual(statuses(
+      [issue('other', 'Plantar wart', 'Mild'), issue('other', 'Corn', 'Mild')],
+      [issue('other', 'plantar wart', 'Mild')],
+    ), [
+      ['plantar wart', 'unchanged', 'unchanged'],
+      ['Corn', 'resolved', 'improved'],
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import { AnalysisResult, BilateralAnalysis, FootSide, PotentialIssue } from '../types';
+import { findingKey } from './bilateralComparison';
+
+export type ProgressTrend = 'improved' | 'worsened' | 'unchanged' | 'unknown';
+
+export interface IssueProgress {
+  issue: string;
+  status: 'added' | 'resolved' | 'changed' | 'unchanged';
+  before: PotentialIssue | null;
+  after: PotentialIssue | null;
+  trend: ProgressTrend;
+}
+
+export interface FootProgress {
+  foot: FootSide;
+  archType: { before: AnalysisResult['archType']; after: AnalysisResult['archType']; changed: boolean };
+  confidence: { before: number; after: number; delta: number };
+  issues: IssueProgress[];
+}
+
+const SEVERITY_RANK: Record<PotentialIssue['severity'], number | null> = {
+  'Mild': 1,
+  'Moderate': 2,
+  'Severe': 3,
+  'Unknown': null,
+};
+
+const severityTrend = (before: PotentialIssue['severity'], after: PotentialIssue['severity']): ProgressTrend => {
+  const from = SEVERITY_RANK[before];
+  const to = SEVERITY_RANK[after];
+  if (from === null || to === null) return before === after ? 'unchanged' : 'unknown';
+  if (to < from) return 'improved';
+  if (to > from) return 'worsened';
+  return 'unchanged';
+};
+
+// Later findings by key, in order; a key can repeat, e.g. two hammer toes on one foot.
+const groupByKey = (issues: PotentialIssue[]): Map<string, PotentialIssue[]> => {
+  const groups = new Map<string, PotentialIssue[]>();
+  issues.forEach(issue => {
+    const key = findingKey(issue);
+    groups.set(key, [...(groups.get(key) ?? []), issue]);
+  });
+  return groups;
+};
+
+// Each earlier finding is matched with at most one later finding of the same key.
+const compareIssues = (before: PotentialIssue[], after: PotentialIssue[]): IssueProgress[] => {
+  const remaining = groupByKey(after);
+
+  const progress: IssueProgress[] = before.map(previous => {
+    const current = remaining.get(findingKey(previous))?.shift();
+    if (!current) {
+      return { issue: previous.issue, status: 'resolved', before: previous, after: null, trend: 'improved' };
+    }
+    const trend = severityTrend(previous.severity, current.severity);
+    return {
+      issue: current.issue,
+      status: previous.severity === current.severity ? 'unchanged' : 'changed',
+      before: previous,
+      after: current,
+      trend,
+    };
+  });
+
+  remaining.forEach(unmatched => unmatched.forEach(current => {
+    progress.push({ issue: current.issue, status: 'added', before: null, after: current, trend: 'worsened' });
+  }));
+
+  return progress;
+};
+
+/**
+ * Diffs an earlier analysis against a later one, foot by foot. Only feet analysed in
+ * both sessions are compared.
+ */
+export const compareAnalyses = (before: BilateralAnalysis, after: BilateralAnalysis): FootProgress[] =>
+  (['left', 'right'] as FootSide[])
+    .filter(foot => before[foot] && after[foot])
+    .map(foot => {
+      const previous = before[foot]!;
+      const current = after[foot]!;
+      return {
+        foot,
+        archType: { before: previous.archType, after: current.archType, changed: previous.archType !== current.archType },
+        confidence: {
+          before: previous.confidenceScore,
+          after: current.confidenceScore,
+          delta: current.confidenceScore - previous.confidenceScore,
+        },
+        issues: compareIssues(previous.potentialIssues, current.potentialIssues),
+      };
+    });
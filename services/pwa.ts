@@ -0,0 +1,36 @@
+/**
+ * Registers the service worker in public/sw.js. Production builds only: in development
+ * Vite serves modules that change on every edit and must not be cached.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+};
+
+// Browsers only prompt from a user action, so call this from a click handler.
+export const requestNotificationPermission = () => {
+  if (!('Notification' in window) || Notification.permission !== 'default') return;
+  Notification.requestPermission().catch(error => {
+    console.warn("Could not ask for notification permission:", error);
+  });
+};
+
+// Shows a system notification when allowed. Goes through the service worker where there
+// is one, which mobile browsers require.
+export const showNotification = async (title: string, body: string) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, { body, icon: '/icon.svg', tag: 'smartstep-outbox' });
+    } else {
+      new Notification(title, { body, icon: '/icon.svg' });
+    }
+  } catch (error) {
+    console.warn("Could not show a notification:", error);
+  }
+};
@@ -0,0 +1,318 @@
+import { jsPDF } from 'jspdf';
+import { AnalysisResult, BilateralAnalysis, CaptureThumbnails, ClinicianReview, FootSide, FootView } from '../types';
+import { reviewNotes } from './clinicianReview';
+import { describeConditionCodes } from './footConditions';
+import { recommendShoeSize } from './shoeSizing';
+import { interpolate, Locale } from './i18n';
+import { Messages } from '../locales/en';
+
+export interface PatientDetails {
+  name: string;
+  dateOfBirth: string;
+  notes: string;
+}
+
+export interface ReportInput {
+  patient: PatientDetails;
+  results: BilateralAnalysis;
+  // The signed-off review the results reflect; absent when they are the AI draft.
+  review?: ClinicianReview;
+  thumbnails: CaptureThumbnails;
+  analysisDate: Date;
+  // The language the report is written in.
+  locale: Locale;
+  messages: Messages;
+}
+
+const FEET: FootSide[] = ['left', 'right'];
+const VIEWS: FootView[] = ['top', 'side', 'back', 'footprint'];
+
+// Layout, in millimetres on an A4 page.
+const MARGIN = 15;
+const LINE_HEIGHT = 5;
+const IMAGE_SIZE = 50;
+const IMAGE_GAP = 8;
+
+const SEVERITY_COLORS: Record<string, [number, number, number]> = {
+  'Mild': [30, 64, 175],
+  'Moderate': [161, 98, 7],
+  'Severe': [185, 28, 28],
+  'Unknown': [71, 85, 105],
+};
+
+/**
+ * Lays out a printable clinical report for the given analysis. The document is built
+ * top to bottom with a running cursor, adding pages as content overflows.
+ */
+export const generateReportPdf = ({ patient, results, review, thumbnails, analysisDate, locale, messages }: ReportInput): jsPDF => {
+  const text = messages.report.pdf;
+  // The standard PDF fonts lack the narrow no-break space some locales format with.
+  const plain = (formatted: string) => formatted.replace(/\u202f/g, ' ');
+  const fixed = (value: number, digits: number) =>
+    new Intl.NumberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+  const decimal = (value: number) => new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(value);
+  const percent = (value: number) => plain(new Intl.NumberFormat(locale, { style: 'percent' }).format(value / 100));
+  const dateTime = (date: Date) => plain(new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(date));
+  const rearfootAngle = (angle: number) =>
+    angle === 0 ? '0°' : interpolate(angle > 0 ? messages.dashboard.rearfoot.valgus : messages.dashboard.rearfoot.varus, { angle: decimal(Math.abs(angle)) });
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN - 10) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const heading = (text: string, size = 13) => {
+    ensureSpace(LINE_HEIGHT * 3);
+    y += 3;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(size);
+    doc.setTextColor(15, 23, 42);
+    doc.text(text, MARGIN, y);
+    y += LINE_HEIGHT + 1;
+  };
+
+  const paragraph = (text: string, x = MARGIN, width = contentWidth) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(51, 65, 85);
+    const lines: string[] = doc.splitTextToSize(text, width);
+    lines.forEach(line => {
+      ensureSpace(LINE_HEIGHT);
+      doc.text(line, x, y);
+      y += LINE_HEIGHT;
+    });
+  };
+
+  const bulletList = (items: string[]) => {
+    if (items.length === 0) {
+      paragraph(text.noneProvided);
+      return;
+    }
+    items.forEach(item => {
+      ensureSpace(LINE_HEIGHT);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      doc.text('•', MARGIN + 1, y);
+      paragraph(item, MARGIN + 5, contentWidth - 5);
+    });
+  };
+
+  const labelValue = (label: string, value: string) => {
+    ensureSpace(LINE_HEIGHT);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.setTextColor(71, 85, 105);
+    doc.text(label, MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(15, 23, 42);
+    doc.text(value, MARGIN + 40, y);
+    y += LINE_HEIGHT;
+  };
+
+  const issueTable = (result: AnalysisResult) => {
+    if (result.potentialIssues.length === 0) {
+      paragraph(text.noIssues);
+      return;
+    }
+    const columns = { issue: MARGIN + 2, severity: MARGIN + 52, description: MARGIN + 77 };
+    const descriptionWidth = contentWidth - (columns.description - MARGIN) - 2;
+
+    ensureSpace(LINE_HEIGHT * 2);
+    doc.setFillColor(241, 245, 249);
+    doc.rect(MARGIN, y - 4, contentWidth, LINE_HEIGHT + 1, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.setTextColor(71, 85, 105);
+    doc.text(text.issue, columns.issue, y);
+    doc.text(text.severity, columns.severity, y);
+    doc.text(text.finding, columns.description, y);
+    y += LINE_HEIGHT + 1;
+
+    result.potentialIssues.forEach(issue => {
+      doc.setFontSize(9);
+      const codes = describeConditionCodes(issue.condition);
+      const issueLines: string[] = doc.splitTextToSize(issue.issue, columns.severity - columns.issue - 3);
+      const codeLines: string[] = codes ? doc.splitTextToSize(codes, columns.severity - columns.issue - 3) : [];
+      const descriptionLines: string[] = doc.splitTextToSize(issue.description, descriptionWidth);
+      const rowHeight = Math.max(issueLines.length + codeLines.length, descriptionLines.length) * (LINE_HEIGHT - 0.5) + 2;
+      ensureSpace(rowHeight);
+
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(15, 23, 42);
+      doc.text(issueLines, columns.issue, y);
+      if (codeLines.length > 0) {
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(7);
+        doc.setTextColor(100, 116, 139);
+        doc.text(codeLines, columns.issue, y + issueLines.length * (LINE_HEIGHT - 0.5));
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(9);
+      }
+      doc.setTextColor(...SEVERITY_COLORS[issue.severity]);
+      doc.text(messages.common.severities[issue.severity], columns.severity, y);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(51, 65, 85);
+      doc.text(descriptionLines, columns.description, y);
+      y += rowHeight;
+      doc.setDrawColor(226, 232, 240);
+      doc.line(MARGIN, y - 3, MARGIN + contentWidth, y - 3);
+    });
+  };
+
+  const capturedViews = (foot: FootSide) => {
+    const views = VIEWS.filter(view => thumbnails[foot]?.[view]);
+    if (views.length === 0) return;
+    // Shrink the thumbnails so every view fits in one row across the page.
+    const size = Math.min(IMAGE_SIZE, (contentWidth - IMAGE_GAP * (views.length - 1)) / views.length);
+    ensureSpace(size + LINE_HEIGHT * 2);
+    views.forEach((view, index) => {
+      const src = thumbnails[foot]![view]!;
+      const { width, height } = doc.getImageProperties(src);
+      const scale = Math.min(size / width, size / height);
+      const x = MARGIN + index * (size + IMAGE_GAP);
+      doc.setFillColor(241, 245, 249);
+      doc.rect(x, y, size, size, 'F');
+      doc.addImage(src, 'JPEG', x + (size - width * scale) / 2, y + (size - height * scale) / 2, width * scale, height * scale);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(71, 85, 105);
+      doc.text(messages.uploader.views[view].label, x + size / 2, y + size + 4, { align: 'center' });
+    });
+    y += size + LINE_HEIGHT * 2;
+  };
+
+  // Title and patient block
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.setTextColor(2, 132, 199);
+  doc.text(text.title, MARGIN, y + 4);
+  y += 14;
+
+  heading(text.patientDetails);
+  labelValue(text.name, patient.name || text.notProvided);
+  labelValue(text.dateOfBirth, patient.dateOfBirth
+    ? new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: 'UTC' }).format(new Date(patient.dateOfBirth))
+    : text.notProvided);
+  labelValue(text.analysisDate, dateTime(analysisDate));
+  labelValue(text.generated, dateTime(new Date()));
+  labelValue(text.status, review?.signOff
+    ? interpolate(text.reviewedBy, { reviewer: review.signOff.reviewer, date: dateTime(new Date(review.signOff.signedAt)) })
+    : text.aiDraft);
+  if (patient.notes.trim()) {
+    labelValue(text.notes, '');
+    paragraph(patient.notes.trim());
+  }
+
+  FEET.forEach(foot => {
+    const result = results[foot];
+    if (!result) return;
+
+    heading(messages.common.feet[foot], 15);
+    capturedViews(foot);
+    labelValue(text.archType, messages.common.archTypes[result.archType]);
+    labelValue(text.confidence, percent(result.confidenceScore));
+    if (result.archMeasurement) {
+      const { archType, archAngle, navicularHeightRatio } = result.archMeasurement;
+      labelValue(text.measuredArch, interpolate(text.archDetail, {
+        archType: messages.common.archTypes[archType],
+        angle: decimal(archAngle),
+        ratio: fixed(navicularHeightRatio, 3),
+      }));
+    }
+    if (result.halluxMeasurement) {
+      const { grade, halluxValgusAngle, intermetatarsalAngle } = result.halluxMeasurement;
+      labelValue(text.hallux, interpolate(text.halluxDetail, {
+        grade: messages.common.grades[grade],
+        hv: decimal(halluxValgusAngle),
+        im: decimal(intermetatarsalAngle),
+      }));
+    }
+    if (result.rearfootMeasurement) {
+      const { alignment, rearfootAngle: angle } = result.rearfootMeasurement;
+      labelValue(text.rearfoot, `${messages.common.alignments[alignment]} (${rearfootAngle(angle)})`);
+    }
+    if (result.footDimensions) {
+      const { footLengthMm, forefootWidthMm, heelWidthMm } = result.footDimensions;
+      labelValue(text.footSize, interpolate(text.footSizeDetail, { length: decimal(footLengthMm), forefoot: decimal(forefootWidthMm), heel: decimal(heelWidthMm) }));
+    }
+    if (result.footprintIndices) {
+      const { archType, staheliIndex, chippauxSmirakIndex, cavanaghArchIndex } = result.footprintIndices;
+      labelValue(text.footprint, interpolate(text.footprintDetail, {
+        archType: messages.common.archTypes[archType],
+        staheli: fixed(staheliIndex, 2),
+        chippauxSmirak: decimal(chippauxSmirakIndex),
+        cavanagh: fixed(cavanaghArchIndex, 3),
+      }));
+    }
+
+    heading(text.issues, 11);
+    issueTable(result);
+
+    heading(text.summary, 11);
+    paragraph(result.summary || text.noSummary);
+
+    heading(text.recommendations, 11);
+    bulletList(result.clinicalRecommendations);
+
+    heading(text.footwear, 11);
+    bulletList(result.footwearSuggestions);
+
+    const shoeSize = recommendShoeSize(result);
+    if (shoeSize) {
+      heading(text.shoeSize, 11);
+      paragraph(interpolate(text.sizes, {
+        eu: decimal(shoeSize.eu),
+        uk: decimal(shoeSize.uk),
+        usMen: decimal(shoeSize.usMen),
+        usWomen: decimal(shoeSize.usWomen),
+        jp: decimal(shoeSize.jp),
+        mondopoint: decimal(shoeSize.mondopoint),
+      }));
+      labelValue(text.widthFitting, `${messages.shoeSize.widths[shoeSize.width.name]} (${shoeSize.width.code})`);
+      labelValue(text.basedOn, interpolate(text.basis[shoeSize.source], { length: decimal(shoeSize.footLengthMm), width: decimal(shoeSize.forefootWidthMm) }));
+      bulletList(shoeSize.notes.length > 0 ? shoeSize.notes.map(note => messages.shoeSize.notes[note]) : [text.noFitAdjustments]);
+    }
+
+    const notes = review?.feet[foot] ? reviewNotes(review.feet[foot]!) : [];
+    if (notes.length > 0) {
+      heading(text.clinicianNotes, 11);
+      bulletList(notes.map(({ subject, finding, note }) =>
+        `${messages.review.noteSubjects[subject]}${finding ? ` (${finding})` : ''}: ${note}`));
+    }
+  });
+
+  y += LINE_HEIGHT;
+  doc.setFont('helvetica', 'italic');
+  doc.setFontSize(8);
+  doc.setTextColor(100, 116, 139);
+  const disclaimerLines: string[] = doc.splitTextToSize(text.disclaimer, contentWidth);
+  ensureSpace(disclaimerLines.length * 4);
+  doc.text(disclaimerLines, MARGIN, y);
+
+  // Page footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(148, 163, 184);
+    doc.text(interpolate(text.footer, { name: patient.name || text.patient, page, count: pageCount }), pageWidth / 2, pageHeight - 8, { align: 'center' });
+  }
+
+  return doc;
+};
+
+export const downloadReport = (input: ReportInput): void => {
+  const doc = generateReportPdf(input);
+  const safeName = (input.patient.name || 'patient').trim().replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+  const date = input.analysisDate.toISOString().slice(0, 10);
+  doc.save(`smartstep-report-${safeName}-${date}.pdf`);
+};
@@ -0,0 +1,88 @@
+import { FootDimensionLandmarks, FootDimensions, Point, ReferenceObject } from '../types';
+
+// Physical size of each supported reference object, long side first, in millimetres.
+export const REFERENCE_OBJECTS: Record<ReferenceObject, { long: number; short: number }> = {
+  card: { long: 85.6, short: 53.98 },
+  a4: { long: 297, short: 210 },
+};
+
+// A 3×3 projective transform, row-major with the last element fixed at 1.
+type Homography = number[];
+
+// Solves the square system `a · x = b` by Gaussian elimination with partial pivoting.
+const solveLinearSystem = (a: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) throw new Error("The reference corners are degenerate; place them at the four corners of the object.");
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+};
+
+// The homography mapping each source point onto the matching destination point.
+const computeHomography = (source: Point[], destination: Point[]): Homography => {
+  const a: number[][] = [];
+  const b: number[] = [];
+  source.forEach((p, i) => {
+    const q = destination[i];
+    a.push([p.x, p.y, 1, 0, 0, 0, -p.x * q.x, -p.y * q.x]);
+    b.push(q.x);
+    a.push([0, 0, 0, p.x, p.y, 1, -p.x * q.y, -p.y * q.y]);
+    b.push(q.y);
+  });
+  return [...solveLinearSystem(a, b), 1];
+};
+
+const applyHomography = (h: Homography, p: Point): Point => {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return { x: (h[0] * p.x + h[1] * p.y + h[2]) / w, y: (h[3] * p.x + h[4] * p.y + h[5]) / w };
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const roundMillimetres = (value: number) => Math.round(value);
+
+/**
+ * Computes real-world foot dimensions from the top view. The four marked corners of the
+ * reference object define a perspective correction from the photo onto the floor plane
+ * in millimetres; the foot landmarks are mapped through it before measuring. Corners
+ * can be marked starting from either side: the longer marked edge is matched to the
+ * object's long side.
+ */
+export const computeFootDimensions = (landmarks: FootDimensionLandmarks, referenceObject: ReferenceObject): FootDimensions => {
+  const corners = [landmarks.referenceCorner1, landmarks.referenceCorner2, landmarks.referenceCorner3, landmarks.referenceCorner4];
+  const { long, short } = REFERENCE_OBJECTS[referenceObject];
+  const firstEdgeIsLong = distance(corners[0], corners[1]) >= distance(corners[1], corners[2]);
+  const [width, height] = firstEdgeIsLong ? [long, short] : [short, long];
+  const h = computeHomography(corners, [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ]);
+  const measure = (a: Point, b: Point) => roundMillimetres(distance(applyHomography(h, a), applyHomography(h, b)));
+
+  return {
+    referenceObject,
+    landmarks,
+    footLengthMm: measure(landmarks.heel, landmarks.toe),
+    forefootWidthMm: measure(landmarks.forefootMedial, landmarks.forefootLateral),
+    heelWidthMm: measure(landmarks.heelMedial, landmarks.heelLateral),
+    measuredAt: new Date().toISOString(),
+  };
+};
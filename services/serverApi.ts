@@ -0,0 +1,34 @@
+// Requests to the SmartStep server (`npm run server`), behind the Vite proxy in development.
+
+// The server could not be reached at all, e.g. because the device is offline.
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * POSTs a JSON body and resolves to the response once it is known to be successful.
+ * Rejects with a message that can be shown to the user; `service` names the endpoint
+ * in those messages, e.g. "consultation service".
+ */
+export const postJson = async (url: string, body: unknown, service: string): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    console.error(`Could not reach the ${service}:`, error);
+    throw new NetworkError(`Could not reach the ${service}. Check your connection and try again.`);
+  }
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => null);
+    throw new Error(errorBody?.error ?? `The ${service} returned an error (${response.status}).`);
+  }
+  return response;
+};
@@ -0,0 +1,94 @@
+import { AnalysisResult } from '../types';
+import { isHalluxValgusIssue } from './footMeasurements';
+
+export type SizeSource = 'measured' | 'manual';
+
+export type WidthName = 'narrow' | 'standard' | 'wide' | 'extraWide';
+
+export interface WidthFitting {
+  name: WidthName;
+  // US width letter code, e.g. "D" or "2E".
+  code: string;
+}
+
+// Fit advice; the text comes from `shoeSize.notes` in the locale files.
+export type FitNote = 'bunion' | 'flatArch' | 'highArch';
+
+export interface ShoeSizeRecommendation {
+  source: SizeSource;
+  footLengthMm: number;
+  forefootWidthMm: number;
+  mondopoint: number;
+  eu: number;
+  uk: number;
+  usMen: number;
+  usWomen: number;
+  jp: number;
+  width: WidthFitting;
+  notes: FitNote[];
+}
+
+// Toe room added to the foot length to get the shoe's internal length.
+const TOE_ALLOWANCE_MM = 15;
+// One Paris point (EU) and one barleycorn (UK/US), in millimetres.
+const PARIS_POINT_MM = 20 / 3;
+const BARLEYCORN_MM = 25.4 / 3;
+
+// Width fittings by forefoot width as a share of foot length, narrowest first.
+const WIDTH_FITTINGS: { maxRatio: number; fitting: WidthFitting }[] = [
+  { maxRatio: 0.36, fitting: { name: 'narrow', code: 'B' } },
+  { maxRatio: 0.40, fitting: { name: 'standard', code: 'D' } },
+  { maxRatio: 0.43, fitting: { name: 'wide', code: '2E' } },
+  { maxRatio: Infinity, fitting: { name: 'extraWide', code: '4E' } },
+];
+
+const roundToHalf = (value: number) => Math.round(value * 2) / 2;
+
+// Bunions that the measurement grades, or the model reports, as more than mild.
+const needsRoomierToeBox = (result: AnalysisResult): boolean => {
+  if (result.halluxMeasurement) return result.halluxMeasurement.grade === 'Moderate' || result.halluxMeasurement.grade === 'Severe';
+  return result.potentialIssues.some(issue => isHalluxValgusIssue(issue) && (issue.severity === 'Moderate' || issue.severity === 'Severe'));
+};
+
+/**
+ * Converts a foot length and forefoot width into shoe sizes across the common systems.
+ * Mondopoint and JP sizes are based on the foot itself; EU, UK and US sizes are based
+ * on the shoe's internal length, the foot plus a fixed toe allowance. The width fitting
+ * comes from the forefoot-width-to-length ratio and is widened by one fitting for a
+ * significant bunion. Returns null when neither measured nor entered sizes exist.
+ */
+export const recommendShoeSize = (result: AnalysisResult): ShoeSizeRecommendation | null => {
+  const size = result.footDimensions ?? result.manualFootSize;
+  if (!size || size.footLengthMm <= 0 || size.forefootWidthMm <= 0) return null;
+  const { footLengthMm, forefootWidthMm } = size;
+
+  const lastLengthMm = footLengthMm + TOE_ALLOWANCE_MM;
+  const uk = roundToHalf(lastLengthMm / BARLEYCORN_MM - 25);
+  const notes: FitNote[] = [];
+
+  let widthIndex = WIDTH_FITTINGS.findIndex(({ maxRatio }) => forefootWidthMm / footLengthMm <= maxRatio);
+  if (needsRoomierToeBox(result)) {
+    widthIndex = Math.min(widthIndex + 1, WIDTH_FITTINGS.length - 1);
+    notes.push('bunion');
+  }
+  const archType = result.archMeasurement?.archType ?? result.archType;
+  if (archType === 'Flat') {
+    notes.push('flatArch');
+  } else if (archType === 'High') {
+    notes.push('highArch');
+  }
+
+  return {
+    source: result.footDimensions ? 'measured' : 'manual',
+    footLengthMm,
+    forefootWidthMm,
+    mondopoint: Math.round(footLengthMm / 5) * 5,
+    eu: Math.round(lastLengthMm / PARIS_POINT_MM),
+    uk,
+    usMen: uk + 1,
+    usWomen: uk + 2.5,
+    jp: roundToHalf(footLengthMm / 10),
+    width: WIDTH_FITTINGS[widthIndex].fitting,
+    notes,
+  };
+};
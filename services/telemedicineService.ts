@@ -0,0 +1,17 @@
+import { TelemedicineCase, TelemedicineRequest } from '../types';
+import { postJson } from './serverApi';
+
+const INTAKE_URL = '/api/telemedicine/requests';
+
+/**
+ * Sends a consultation request to the intake server and resolves to the case it was
+ * stored under. Rejects with a message that can be shown to the patient.
+ */
+export const submitTelemedicineRequest = async (request: TelemedicineRequest): Promise<TelemedicineCase> => {
+  const response = await postJson(INTAKE_URL, request, 'consultation service');
+  const body = await response.json().catch(() => null);
+  if (typeof body?.reference !== 'string') {
+    throw new Error("The consultation service sent an unexpected response.");
+  }
+  return body as TelemedicineCase;
+};
@@ -1,14 +1,315 @@
+export type FootSide = 'left' | 'right';
+
+// 'footprint' is an optional photo of a wet or ink print rather than of the foot itself.
+export type FootView = 'top' | 'side' | 'back' | 'footprint';
+
+// A condition of the curated foot-condition taxonomy in services/footConditions.ts, or
+// 'other' for a finding that none of them describes.
+export type FootConditionCode =
+  | 'hallux-valgus'
+  | 'pes-planus'
+  | 'pes-cavus'
+  | 'plantar-fasciitis'
+  | 'achilles-tendinitis'
+  | 'onychomycosis'
+  | 'hammer-toe'
+  | 'claw-toe'
+  | 'mallet-toe'
+  | 'overpronation'
+  | 'supination'
+  | 'other';
+
 export interface PotentialIssue {
+  condition: FootConditionCode;
+  // The model's own wording, e.g. "Hammertoe, second toe"; the coding comes from condition.
   issue: string;
   severity: 'Mild' | 'Moderate' | 'Severe' | 'Unknown';
   description: string;
+  foot: FootSide;
 }
 
 export interface AnalysisResult {
+  foot: FootSide;
   archType: 'Normal' | 'Flat' | 'High' | 'Unknown';
   potentialIssues: PotentialIssue[];
   summary: string;
   clinicalRecommendations: string[];
   footwearSuggestions: string[];
   confidenceScore: number;
+  // Added when landmarks have been placed on the side view.
+  archMeasurement?: ArchMeasurement;
+  // Added when landmarks have been placed on the top view.
+  halluxMeasurement?: HalluxValgusMeasurement;
+  // Added when landmarks have been placed on the back view.
+  rearfootMeasurement?: RearfootMeasurement;
+  // Added when a reference object in the top view has been used to calibrate scale.
+  footDimensions?: FootDimensions;
+  // Entered by hand when the foot has not been measured from a photo.
+  manualFootSize?: ManualFootSize;
+  // Computed in the browser from the footprint view, when one was captured.
+  footprintIndices?: FootprintIndices;
+}
+
+// The measurements taken on one foot, which can be given back to the model.
+export type FootMeasurements = Pick<AnalysisResult, 'archMeasurement' | 'halluxMeasurement' | 'rearfootMeasurement' | 'footDimensions' | 'manualFootSize' | 'footprintIndices'>;
+
+// A position in the pixel space of a captured view's thumbnail.
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface ArchLandmarks {
+  heel: Point;
+  metatarsalHead: Point;
+  navicular: Point;
+  floorStart: Point;
+  floorEnd: Point;
+}
+
+export interface ArchMeasurement {
+  landmarks: ArchLandmarks;
+  // Navicular height over truncated foot length (heel to first metatarsal head).
+  navicularHeightRatio: number;
+  // Medial longitudinal arch angle at the navicular, in degrees.
+  archAngle: number;
+  archType: Exclude<AnalysisResult['archType'], 'Unknown'>;
+  measuredAt: string; // ISO 8601
+}
+
+export interface HalluxLandmarks {
+  firstMetatarsalBase: Point;
+  firstMetatarsalHead: Point;
+  halluxTip: Point;
+  secondMetatarsalBase: Point;
+  secondMetatarsalHead: Point;
+}
+
+export type HalluxValgusGrade = 'Normal' | 'Mild' | 'Moderate' | 'Severe';
+
+export interface HalluxValgusMeasurement {
+  landmarks: HalluxLandmarks;
+  // Angle between the first metatarsal and the hallux, in degrees.
+  halluxValgusAngle: number;
+  // Angle between the first and second metatarsals, in degrees.
+  intermetatarsalAngle: number;
+  grade: HalluxValgusGrade;
+  measuredAt: string; // ISO 8601
+}
+
+export interface RearfootLandmarks {
+  legTop: Point;
+  legBottom: Point;
+  heelTop: Point;
+  heelBottom: Point;
+}
+
+export type RearfootAlignment = 'Neutral' | 'Pronated' | 'Supinated';
+
+export interface RearfootMeasurement {
+  landmarks: RearfootLandmarks;
+  // Angle between the lower-leg and calcaneal bisections in degrees; positive is valgus (eversion).
+  rearfootAngle: number;
+  alignment: RearfootAlignment;
+  measuredAt: string; // ISO 8601
+}
+
+export type ReferenceObject = 'card' | 'a4';
+
+export interface FootDimensionLandmarks {
+  // Corners of the reference object, in order around its edge.
+  referenceCorner1: Point;
+  referenceCorner2: Point;
+  referenceCorner3: Point;
+  referenceCorner4: Point;
+  heel: Point;
+  toe: Point;
+  forefootMedial: Point;
+  forefootLateral: Point;
+  heelMedial: Point;
+  heelLateral: Point;
+}
+
+export interface FootprintIndices {
+  // Narrowest midfoot width over widest heel width.
+  staheliIndex: number;
+  // Narrowest midfoot width over widest forefoot width, as a percentage.
+  chippauxSmirakIndex: number;
+  // Midfoot share of the footprint area, toes excluded.
+  cavanaghArchIndex: number;
+  archType: Exclude<AnalysisResult['archType'], 'Unknown'>;
+}
+
+export interface ManualFootSize {
+  footLengthMm: number;
+  forefootWidthMm: number;
+}
+
+export interface FootDimensions {
+  referenceObject: ReferenceObject;
+  landmarks: FootDimensionLandmarks;
+  footLengthMm: number;
+  forefootWidthMm: number;
+  heelWidthMm: number;
+  measuredAt: string; // ISO 8601
+}
+
+// A model's guess at what a single uploaded photo shows.
+export interface ViewClassification {
+  isFoot: boolean;
+  view: FootView | 'unknown';
+  foot: FootSide | 'unknown';
+  confidence: number; // 0-100
+  reason: string;
+}
+
+// The part of a streamed analysis the model is currently writing, in response order.
+export type AnalysisStage = 'sending' | 'archType' | 'potentialIssues' | 'summary' | 'recommendations' | 'validating';
+
+// An analysis still being streamed: the fields parsed so far from the incomplete response.
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  partial: Partial<Pick<AnalysisResult, 'archType' | 'potentialIssues' | 'summary' | 'clinicalRecommendations' | 'footwearSuggestions'>>;
+}
+
+// One turn of the follow-up conversation about an analysis.
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  // Set on replies that advise seeing a clinician instead of answering.
+  referToClinician?: boolean;
+}
+
+// What a follow-up conversation about one foot is grounded in.
+export interface FollowUpContext {
+  result: AnalysisResult;
+  // Data URLs of the views that were analysed.
+  thumbnails: Partial<Record<FootView, string>>;
+  // Locale code the assistant should reply in; English when omitted.
+  language?: string;
+}
+
+// One result per foot that was captured.
+export type BilateralAnalysis = Partial<Record<FootSide, AnalysisResult>>;
+
+export type FootImages = Partial<Record<FootView, File>>;
+
+// The views captured for each foot, as held by the uploader, scanner and App.
+export type CapturedViews = Record<FootView, File | null>;
+export type BilateralCaptures = Record<FootSide, CapturedViews>;
+
+
+// Small JPEG data URLs of the views that were analysed.
+export type CaptureThumbnails = Partial<Record<FootSide, Partial<Record<FootView, string>>>>;
+
+// The captured views of one foot, as sent to the server's /api/analyze endpoint.
+export interface AnalyzeRequest {
+  foot: FootSide;
+  // Data URLs of the captured views.
+  images: Partial<Record<FootView, string>>;
+  measurements?: FootMeasurements;
+  language?: string;
+}
+
+// /api/analyze responds with one of these per line while the model writes its answer.
+export type AnalysisStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'validating' }
+  | { type: 'result'; result: AnalysisResult }
+  // `problems` is set when the model's output could not be validated.
+  | { type: 'error'; error: string; problems?: string[]; rawText?: string };
+
+// A follow-up question, as sent to the server's /api/chat endpoint.
+export interface ChatRequest {
+  context: FollowUpContext;
+  messages: ChatMessage[];
+}
+
+// A telemedicine consultation request, as sent to the intake server.
+export interface TelemedicineRequest {
+  name: string;
+  email: string;
+  // Locale code of the patient's language, so the specialist can reply in it.
+  language: string;
+  results: BilateralAnalysis;
+  // Whether a clinician has approved the results, so the specialist can tell them from an AI draft.
+  review: ResultsReview;
+  // Data URLs of the captured views the results are based on.
+  images: CaptureThumbnails;
+}
+
+// The intake server's acknowledgement of a stored request.
+export interface TelemedicineCase {
+  // Quoted by the patient and the specialist to refer to the request.
+  reference: string;
+  receivedAt: string; // ISO 8601
+}
+
+// What a clinician decided about one finding of the AI result.
+export type ReviewDecision = 'pending' | 'accepted' | 'edited' | 'rejected';
+
+export interface ReviewedFinding<T> {
+  decision: ReviewDecision;
+  // The AI's value, or the clinician's replacement when the decision is 'edited'.
+  value: T;
+  note?: string;
+}
+
+// A clinician's review of one foot. The finding lists line up index for index with
+// the AI result's lists, which are never changed.
+export interface FootReview {
+  archType: ReviewedFinding<AnalysisResult['archType']>;
+  potentialIssues: ReviewedFinding<PotentialIssue>[];
+  clinicalRecommendations: ReviewedFinding<string>[];
+  footwearSuggestions: ReviewedFinding<string>[];
+  // Findings the clinician added that the AI did not report.
+  addedIssues: PotentialIssue[];
+  addedRecommendations: string[];
+  addedFootwearSuggestions: string[];
+  note?: string;
+}
+
+export interface ReviewSignOff {
+  reviewer: string;
+  signedAt: string; // ISO 8601
+}
+
+export interface ClinicianReview {
+  feet: Partial<Record<FootSide, FootReview>>;
+  // Set when the reviewer signs off; until then the review is a draft.
+  signOff?: ReviewSignOff;
+}
+
+export type ReviewStatus = 'draft' | 'inProgress' | 'reviewed';
+
+// The review state of results shared outside the app.
+export interface ResultsReview {
+  status: ReviewStatus;
+  // Present only when the status is 'reviewed'.
+  signOff?: ReviewSignOff;
+}
+
+// A completed analysis as persisted in the local history.
+export interface AnalysisRecord {
+  id: string;
+  createdAt: string; // ISO 8601
+  // The AI result as produced, kept alongside any review of it.
+  results: BilateralAnalysis;
+  thumbnails: CaptureThumbnails;
+  provider: string;
+  promptVersion: string;
+  review?: ClinicianReview;
+}
+
+// Captures saved while the analysis service could not be reached, sent once it can.
+export interface OutboxEntry {
+  id: string;
+  createdAt: string; // ISO 8601
+  captures: BilateralCaptures;
+  measurements: Partial<Record<FootSide, FootMeasurements>>;
+  // Locale the analysis was requested in.
+  language: string;
+  // Why the last attempt failed for a reason other than the connection; such entries
+  // wait for the user to retry or remove them.
+  lastError?: string;
 }
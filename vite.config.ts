@@ -1,18 +1,51 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists the hashed files of the build in the service worker copied from public/sw.js, so
+// it can cache them when it installs.
+const precacheBuildAssets = (): Plugin => {
+  let assets: string[] = [];
+  let outDir = 'dist';
+  return {
+    name: 'smartstep-precache-build-assets',
+    apply: 'build',
+    configResolved: (config) => { outDir = config.build.outDir; },
+    generateBundle: (_options, bundle) => {
+      assets = Object.keys(bundle).filter(fileName => fileName.startsWith('assets/')).map(fileName => `/${fileName}`);
+    },
+    closeBundle: () => {
+      const workerPath = path.resolve(outDir, 'sw.js');
+      // Absent when the build failed before writing its output.
+      if (!fs.existsSync(workerPath)) return;
+      const worker = fs.readFileSync(workerPath, 'utf8');
+      if (!worker.includes('const BUILD_ASSETS = [];')) {
+        throw new Error('public/sw.js no longer declares BUILD_ASSETS; update the precache plugin.');
+      }
+      fs.writeFileSync(workerPath, worker.replace('const BUILD_ASSETS = [];', `const BUILD_ASSETS = ${JSON.stringify(assets)};`));
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // API requests go to the SmartStep server (`npm run server`).
+    const proxy = {
+      '/api': `http://localhost:${env.SERVER_PORT || 8787}`,
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
+      },
+      preview: {
+        proxy,
       },
-      plugins: [react()],
+      plugins: [react(), precacheBuildAssets()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER)
       },
       resolve: {
         alias: {